@@ -1,4 +1,5 @@
 import { ChangesetUtils, Changeset } from "./changeset";
+import { IgnoreFile } from "./ignoreFile";
 
 describe("ChangesetUtils - Pattern Filtering", () => {
   const sampleChangeset: Changeset = {
@@ -145,6 +146,36 @@ describe("ChangesetUtils - Pattern Filtering", () => {
     });
   });
 
+  describe("ignore file", () => {
+    it("should drop ignored files on top of the source and test patterns", () => {
+      const result = ChangesetUtils.filterByPatterns(
+        sampleChangeset,
+        undefined,
+        undefined,
+        IgnoreFile.parse("src/components/\nlib/*.py\n"),
+      );
+
+      expect(result.files.map((f) => f.path)).toEqual([
+        "src/main.ts",
+        "src/utils.js",
+      ]);
+      expect(result.totalFiles).toBe(2);
+    });
+
+    it("should drop ignored files when filtering by extension", () => {
+      const result = ChangesetUtils.filterByExtensions(
+        sampleChangeset,
+        [".ts"],
+        IgnoreFile.parse("*.test.ts\n"),
+      );
+
+      expect(result.files.map((f) => f.path)).toEqual([
+        "src/main.ts",
+        "src/components/Button.mock.ts",
+      ]);
+    });
+  });
+
   describe("Pattern matching edge cases", () => {
     const edgeCaseChangeset: Changeset = {
       baseCommit: "base",
@@ -77,6 +77,29 @@ describe("ChangesetUtils", () => {
       ]);
     });
 
+    it("should keep git-reported statuses and previous paths", () => {
+      const changeset = ChangesetUtils.createChangeset(
+        [
+          { path: "src/new.ts", status: "added" },
+          { path: "src/b.ts", status: "renamed", previousPath: "src/a.ts" },
+        ],
+        "abc123",
+        "def456",
+        "main",
+        new Map([["src/b.ts", [7]]]),
+      );
+
+      expect(changeset.files).toEqual([
+        { path: "src/new.ts", status: "added", changedLines: [] },
+        {
+          path: "src/b.ts",
+          status: "renamed",
+          previousPath: "src/a.ts",
+          changedLines: [7],
+        },
+      ]);
+    });
+
     it("should omit changedLines entirely when no line map is provided", () => {
       const changeset = ChangesetUtils.createChangeset(
         ["src/file1.ts"],
@@ -247,6 +270,20 @@ describe("ChangesetUtils", () => {
       expect(formatted).toContain("added    src/file2.js");
     });
 
+    it("should show where a renamed file came from", () => {
+      const formatted = ChangesetUtils.format({
+        baseCommit: "abc123",
+        headCommit: "def456",
+        targetBranch: "main",
+        files: [
+          { path: "src/b.ts", status: "renamed", previousPath: "src/a.ts" },
+        ],
+        totalFiles: 1,
+      });
+
+      expect(formatted).toContain("renamed  src/b.ts (from src/a.ts)");
+    });
+
     it("should format empty changeset", () => {
       const changeset: Changeset = {
         baseCommit: "abc123",
@@ -1,9 +1,14 @@
 import picomatch from "picomatch";
 import { CODE_LANGUAGE_EXTENSIONS } from "./codeExtensions";
+import { IgnoreFile } from "./ignoreFile";
 
 export interface FileChange {
   path: string;
-  status: "added" | "modified" | "deleted";
+  // Renamed and copied files are diffed against previousPath, so only the
+  // lines that differ from it count as changed.
+  status: "added" | "modified" | "renamed" | "copied" | "deleted";
+  // Path in the base commit, for renamed and copied files.
+  previousPath?: string;
   // Head-side line numbers the changeset added or modified. Empty means the
   // file changed but added no head-side lines (e.g. a pure deletion); absent
   // means line-level diff data was unavailable and consumers fall back to
@@ -11,9 +16,15 @@ export interface FileChange {
   changedLines?: number[];
 }
 
+/** A changed file as git reports it, before line-level data is attached. */
+export type ChangedFile = Pick<FileChange, "path" | "status" | "previousPath">;
+
 export interface Changeset {
   baseCommit: string;
   headCommit: string;
+  // The commit an explicit head-ref resolved to, which check runs and file
+  // links use instead of the commit the workflow runs on.
+  headSha?: string;
   targetBranch: string;
   files: FileChange[];
   totalFiles: number;
@@ -52,23 +63,31 @@ export class ChangesetUtils {
       .filter((p) => p.length > 0);
   }
 
+  /**
+   * Plain paths in `files` are taken to be modified; git-reported entries keep
+   * their status and previous path. Without `changedLinesByFile`, entries that
+   * already carry changed lines (from the pull request files API) keep them.
+   */
   static createChangeset(
-    files: string[],
+    files: Array<string | ChangedFile | FileChange>,
     baseCommit: string,
     headCommit: string = "HEAD",
     targetBranch: string = "main",
     changedLinesByFile?: Map<string, number[]>,
   ): Changeset {
     const fileChanges: FileChange[] = files.map((file) => {
+      const change: FileChange =
+        typeof file === "string"
+          ? { path: file, status: "modified" }
+          : { ...file };
       // Without a line map we leave changedLines absent (the degraded path);
       // with one, every file gets a defined value so absence stays unambiguous.
       if (!changedLinesByFile) {
-        return { path: file, status: "modified" as const };
+        return change;
       }
       return {
-        path: file,
-        status: "modified" as const,
-        changedLines: changedLinesByFile.get(file) ?? [],
+        ...change,
+        changedLines: changedLinesByFile.get(change.path) ?? [],
       };
     });
 
@@ -81,12 +100,19 @@ export class ChangesetUtils {
     };
   }
 
+  /**
+   * Keep files matching a source pattern and no test pattern. Files the
+   * repository's `.coveragemapignore` excludes are dropped regardless.
+   */
   static filterByPatterns(
     changeset: Changeset,
     sourceCodePattern: string[] = ChangesetUtils.DEFAULT_SOURCE_PATTERNS,
     testCodePattern: string[] = ChangesetUtils.DEFAULT_TEST_PATTERNS,
+    ignoreFile?: IgnoreFile,
   ): Changeset {
     const filteredFiles = changeset.files.filter((file) => {
+      if (ignoreFile?.isIgnored(file.path)) return false;
+
       const matchesSource = ChangesetUtils.matchesAnyPattern(
         file.path,
         sourceCodePattern,
@@ -105,9 +131,12 @@ export class ChangesetUtils {
   static filterByExtensions(
     changeset: Changeset,
     extensions: string[],
+    ignoreFile?: IgnoreFile,
   ): Changeset {
-    const filteredFiles = changeset.files.filter((file) =>
-      extensions.some((ext) => file.path.endsWith(ext)),
+    const filteredFiles = changeset.files.filter(
+      (file) =>
+        !ignoreFile?.isIgnored(file.path) &&
+        extensions.some((ext) => file.path.endsWith(ext)),
     );
 
     return ChangesetUtils.withFiles(changeset, filteredFiles);
@@ -148,7 +177,11 @@ export class ChangesetUtils {
     if (changeset.files.length > 0) {
       lines.push("Changed Files:");
       changeset.files.forEach((file) => {
-        lines.push(`  ${file.status.padEnd(8)} ${file.path}`);
+        lines.push(
+          `  ${file.status.padEnd(8)} ${file.path}${
+            file.previousPath ? ` (from ${file.previousPath})` : ""
+          }`,
+        );
       });
     } else {
       lines.push("No files changed");
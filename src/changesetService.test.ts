@@ -1,11 +1,15 @@
 import { ChangesetService } from "./changesetService";
 import { GitUtils } from "./git";
 import { ChangesetUtils } from "./changeset";
+import { PullRequestFiles } from "./pullRequestFiles";
+import { IgnoreFile } from "./ignoreFile";
 import * as core from "@actions/core";
 
 // Mock dependencies
 jest.mock("./git");
 jest.mock("./changeset");
+jest.mock("./pullRequestFiles");
+jest.mock("./ignoreFile");
 jest.mock("@actions/core");
 jest.mock("@actions/github", () => ({
   context: {
@@ -17,6 +21,10 @@ const mockedGitUtils = GitUtils as jest.Mocked<typeof GitUtils>;
 const mockedChangesetUtils = ChangesetUtils as jest.Mocked<
   typeof ChangesetUtils
 >;
+const mockedPullRequestFiles = PullRequestFiles as jest.Mocked<
+  typeof PullRequestFiles
+>;
+const mockedIgnoreFile = IgnoreFile as jest.Mocked<typeof IgnoreFile>;
 const mockedCore = core as jest.Mocked<typeof core>;
 
 // Import the mocked context
@@ -30,6 +38,10 @@ describe("ChangesetService", () => {
     // Default to a resolvable merge base so detectCodeChanges tests exercise
     // the normal (non-shallow) path; detectChanges tests override as needed.
     mockedGitUtils.getMergeBase.mockResolvedValue("base-sha");
+    mockedGitUtils.getDiffRefs.mockReturnValue({
+      base: "base-sha",
+      head: "head-sha",
+    });
     // Line-level diff data defaults to empty; tests that assert on it override.
     mockedGitUtils.getChangedLinesByFile.mockResolvedValue(new Map());
   });
@@ -39,7 +51,10 @@ describe("ChangesetService", () => {
       const mockPrHeadSha = "pr-head-sha123";
       const mockPrBaseSha = "pr-base-sha456";
       const mockMergeBaseSha = "merge-base-sha789";
-      const mockChangedFiles = ["src/file1.ts", "src/file2.js"];
+      const mockChangedFiles = [
+        { path: "src/file1.ts", status: "modified" as const },
+        { path: "src/file2.js", status: "modified" as const },
+      ];
       const mockChangedLines = new Map<string, number[]>([
         ["src/file1.ts", [1, 2, 3]],
         ["src/file2.js", [10]],
@@ -55,8 +70,10 @@ describe("ChangesetService", () => {
         totalFiles: 2,
       };
 
-      mockedGitUtils.getPullRequestHead.mockReturnValue(mockPrHeadSha);
-      mockedGitUtils.getPullRequestBase.mockReturnValue(mockPrBaseSha);
+      mockedGitUtils.getDiffRefs.mockReturnValue({
+        base: mockPrBaseSha,
+        head: mockPrHeadSha,
+      });
       mockedGitUtils.getMergeBase.mockResolvedValue(mockMergeBaseSha);
       mockedGitUtils.getChangedFiles.mockResolvedValue(mockChangedFiles);
       mockedGitUtils.getChangedLinesByFile.mockResolvedValue(mockChangedLines);
@@ -68,8 +85,7 @@ describe("ChangesetService", () => {
       const result = await ChangesetService.detectChanges("main");
 
       expect(result).toBe(mockChangeset);
-      expect(mockedGitUtils.getPullRequestHead).toHaveBeenCalled();
-      expect(mockedGitUtils.getPullRequestBase).toHaveBeenCalled();
+      expect(mockedGitUtils.getDiffRefs).toHaveBeenCalledWith(undefined);
       expect(mockedGitUtils.getMergeBase).toHaveBeenCalledWith(
         mockPrBaseSha,
         mockPrHeadSha,
@@ -81,6 +97,7 @@ describe("ChangesetService", () => {
       expect(mockedGitUtils.getChangedLinesByFile).toHaveBeenCalledWith(
         mockMergeBaseSha,
         mockPrHeadSha,
+        undefined,
       );
       expect(mockedChangesetUtils.createChangeset).toHaveBeenCalledWith(
         mockChangedFiles,
@@ -92,12 +109,8 @@ describe("ChangesetService", () => {
       expect(mockedCore.info).toHaveBeenCalledWith(
         "🚀 Starting changeset detection",
       );
-      expect(mockedCore.info).toHaveBeenCalledWith(
-        `📌 PR head: ${mockPrHeadSha}`,
-      );
-      expect(mockedCore.info).toHaveBeenCalledWith(
-        `🎯 PR base: ${mockPrBaseSha}`,
-      );
+      expect(mockedCore.info).toHaveBeenCalledWith(`📌 Head: ${mockPrHeadSha}`);
+      expect(mockedCore.info).toHaveBeenCalledWith(`🎯 Base: ${mockPrBaseSha}`);
       expect(mockedCore.info).toHaveBeenCalledWith(
         "✅ Changeset detection completed",
       );
@@ -113,10 +126,14 @@ describe("ChangesetService", () => {
       const mockPrHeadSha = "head";
       const mockPrBaseSha = "diverged-base";
       const mockMergeBaseSha = "fork-point";
-      const prOnlyFiles = ["src/feature.ts"];
+      const prOnlyFiles = [
+        { path: "src/feature.ts", status: "modified" as const },
+      ];
 
-      mockedGitUtils.getPullRequestHead.mockReturnValue(mockPrHeadSha);
-      mockedGitUtils.getPullRequestBase.mockReturnValue(mockPrBaseSha);
+      mockedGitUtils.getDiffRefs.mockReturnValue({
+        base: mockPrBaseSha,
+        head: mockPrHeadSha,
+      });
       mockedGitUtils.getMergeBase.mockResolvedValue(mockMergeBaseSha);
       mockedGitUtils.getChangedFiles.mockResolvedValue(prOnlyFiles);
       mockedChangesetUtils.createChangeset.mockReturnValue({
@@ -141,10 +158,14 @@ describe("ChangesetService", () => {
       const mockPrHeadSha = "head";
       const mockPrBaseSha = "base";
 
-      mockedGitUtils.getPullRequestHead.mockReturnValue(mockPrHeadSha);
-      mockedGitUtils.getPullRequestBase.mockReturnValue(mockPrBaseSha);
+      mockedGitUtils.getDiffRefs.mockReturnValue({
+        base: mockPrBaseSha,
+        head: mockPrHeadSha,
+      });
       mockedGitUtils.getMergeBase.mockResolvedValue(null);
-      mockedGitUtils.getChangedFiles.mockResolvedValue(["src/file1.ts"]);
+      mockedGitUtils.getChangedFiles.mockResolvedValue([
+        { path: "src/file1.ts", status: "modified" as const },
+      ]);
       mockedChangesetUtils.createChangeset.mockReturnValue({
         baseCommit: mockPrBaseSha,
         headCommit: mockPrHeadSha,
@@ -161,7 +182,7 @@ describe("ChangesetService", () => {
         mockPrHeadSha,
       );
       expect(mockedChangesetUtils.createChangeset).toHaveBeenCalledWith(
-        ["src/file1.ts"],
+        [{ path: "src/file1.ts", status: "modified" }],
         mockPrBaseSha,
         mockPrHeadSha,
         "main",
@@ -174,49 +195,277 @@ describe("ChangesetService", () => {
 
     it("should handle git command failures", async () => {
       const error = new Error("Git command failed");
-      mockedGitUtils.getPullRequestHead.mockReturnValue("head-sha");
-      mockedGitUtils.getPullRequestBase.mockReturnValue("base-sha");
+      mockedGitUtils.getDiffRefs.mockReturnValue({
+        base: "base-sha",
+        head: "head-sha",
+      });
       mockedGitUtils.getMergeBase.mockResolvedValue("merge-base-sha");
       mockedGitUtils.getChangedFiles.mockRejectedValue(error);
 
       await expect(ChangesetService.detectChanges("main")).rejects.toThrow(
-        "Failed to detect changes in pull request",
+        "Failed to detect changes",
       );
 
       expect(mockedCore.error).toHaveBeenCalledWith(
-        expect.stringContaining("Failed to detect changes in pull request"),
+        expect.stringContaining("Failed to detect changes"),
       );
     });
 
-    it("should handle getPullRequestHead failures", async () => {
-      const error = new Error("PR head SHA not available");
-      mockedGitUtils.getPullRequestHead.mockImplementation(() => {
-        throw error;
+    it("should handle ref resolution failures", async () => {
+      mockedGitUtils.getDiffRefs.mockImplementation(() => {
+        throw new Error("Cannot determine the base commit");
       });
 
       await expect(ChangesetService.detectChanges("main")).rejects.toThrow(
-        "Failed to detect changes in pull request",
+        "Failed to detect changes",
       );
 
       expect(mockedCore.error).toHaveBeenCalledWith(
-        expect.stringContaining("Failed to detect changes in pull request"),
+        expect.stringContaining("Failed to detect changes"),
       );
     });
 
-    it("should handle getPullRequestBase failures", async () => {
-      const error = new Error("PR base SHA not available");
-      mockedGitUtils.getPullRequestHead.mockReturnValue("head-sha");
-      mockedGitUtils.getPullRequestBase.mockImplementation(() => {
-        throw error;
-      });
+    it("should compare a branch-creating push against the target branch", async () => {
+      mockedGitUtils.getDiffRefs.mockReturnValue({ head: "head-sha" });
+      mockedGitUtils.fetchBranch.mockResolvedValue("develop-sha");
+      mockedGitUtils.getChangedFiles.mockResolvedValue([]);
+
+      await ChangesetService.detectChanges("develop");
+
+      expect(mockedGitUtils.fetchBranch).toHaveBeenCalledWith("develop");
+      expect(mockedGitUtils.getMergeBase).toHaveBeenCalledWith(
+        "develop-sha",
+        "head-sha",
+      );
+    });
+
+    it("should fail when the target branch of a new branch cannot be fetched", async () => {
+      mockedGitUtils.getDiffRefs.mockReturnValue({ head: "head-sha" });
+      mockedGitUtils.fetchBranch.mockResolvedValue(null);
 
       await expect(ChangesetService.detectChanges("main")).rejects.toThrow(
-        "Failed to detect changes in pull request",
+        "Failed to detect changes",
       );
+      expect(mockedGitUtils.getMergeBase).not.toHaveBeenCalled();
+    });
+
+    it("should pass explicit refs to ref resolution", async () => {
+      mockedGitUtils.getChangedFiles.mockResolvedValue([]);
+
+      await ChangesetService.detectChanges("main", { baseRef: "v1.0.0" });
+
+      expect(mockedGitUtils.getDiffRefs).toHaveBeenCalledWith({
+        baseRef: "v1.0.0",
+      });
+    });
+
+    it("should pin an explicit head-ref to the commit it resolves to", async () => {
+      mockedGitUtils.getChangedFiles.mockResolvedValue([]);
+      mockedGitUtils.resolveCommit.mockResolvedValue("release-sha");
+      mockedChangesetUtils.createChangeset.mockReturnValue({
+        baseCommit: "base-sha",
+        headCommit: "release",
+        targetBranch: "main",
+        files: [],
+        totalFiles: 0,
+      });
+
+      const result = await ChangesetService.detectChanges("main", {
+        baseRef: "v1.0.0",
+        headRef: "release",
+      });
 
+      expect(mockedGitUtils.resolveCommit).toHaveBeenCalledWith("release");
+      expect(result.headSha).toBe("release-sha");
+    });
+
+    it("should fail when head-ref names no commit", async () => {
+      mockedGitUtils.resolveCommit.mockResolvedValue(null);
+
+      await expect(
+        ChangesetService.detectChanges("main", { headRef: "missing" }),
+      ).rejects.toThrow("Failed to detect changes");
       expect(mockedCore.error).toHaveBeenCalledWith(
-        expect.stringContaining("Failed to detect changes in pull request"),
+        expect.stringContaining(
+          "head-ref missing does not name a commit in the clone",
+        ),
       );
+      expect(mockedGitUtils.getChangedFiles).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("changeset source", () => {
+    const apiFiles = [
+      { path: "src/file1.ts", status: "modified" as const, changedLines: [3] },
+    ];
+
+    beforeEach(() => {
+      mockedPullRequestFiles.list.mockResolvedValue(apiFiles);
+      mockedPullRequestFiles.isAvailable.mockReturnValue(true);
+      mockedGitUtils.getChangedFiles.mockResolvedValue([]);
+    });
+
+    it("should reject the API source outside pull request events", async () => {
+      mockedPullRequestFiles.isAvailable.mockReturnValue(false);
+
+      await expect(
+        ChangesetService.detectChanges("main", undefined, {
+          source: "api",
+          githubToken: "test-token",
+        }),
+      ).rejects.toThrow(
+        "changeset-source api only works on pull request events; use changeset-source git or auto instead.",
+      );
+      expect(mockedPullRequestFiles.list).not.toHaveBeenCalled();
+    });
+
+    it("should read the changeset from the API without touching git", async () => {
+      await ChangesetService.detectChanges("main", undefined, {
+        source: "api",
+        githubToken: "test-token",
+      });
+
+      expect(mockedPullRequestFiles.list).toHaveBeenCalledWith("test-token");
+      expect(mockedGitUtils.getMergeBase).not.toHaveBeenCalled();
+      expect(mockedChangesetUtils.createChangeset).toHaveBeenCalledWith(
+        apiFiles,
+        "base-sha",
+        "head-sha",
+        "main",
+      );
+    });
+
+    it("should fall back to the API in auto mode when the merge base is unavailable", async () => {
+      mockedGitUtils.getMergeBase.mockResolvedValue(null);
+
+      await ChangesetService.detectChanges("main", undefined, {
+        source: "auto",
+        githubToken: "test-token",
+      });
+
+      expect(mockedPullRequestFiles.list).toHaveBeenCalledWith("test-token");
+      expect(mockedGitUtils.getChangedFiles).not.toHaveBeenCalled();
+      expect(mockedCore.warning).not.toHaveBeenCalled();
+    });
+
+    it("should fall back to the API in auto mode when git diff fails", async () => {
+      mockedGitUtils.getChangedFiles.mockRejectedValue(
+        new Error("bad revision"),
+      );
+
+      await ChangesetService.detectChanges("main", undefined, {
+        source: "auto",
+        githubToken: "test-token",
+      });
+
+      expect(mockedPullRequestFiles.list).toHaveBeenCalledWith("test-token");
+      expect(mockedCore.warning).toHaveBeenCalledWith(
+        expect.stringContaining("bad revision"),
+      );
+    });
+
+    it("should keep using git in auto mode outside pull requests", async () => {
+      mockedPullRequestFiles.isAvailable.mockReturnValue(false);
+      mockedGitUtils.getMergeBase.mockResolvedValue(null);
+
+      await ChangesetService.detectChanges("main", undefined, {
+        source: "auto",
+        githubToken: "test-token",
+      });
+
+      expect(mockedPullRequestFiles.list).not.toHaveBeenCalled();
+      expect(mockedGitUtils.getChangedFiles).toHaveBeenCalledWith(
+        "base-sha",
+        "head-sha",
+      );
+      expect(mockedCore.warning).toHaveBeenCalledWith(
+        expect.stringContaining("Merge base unavailable"),
+      );
+    });
+
+    it("should deepen the clone before falling back to the API", async () => {
+      mockedGitUtils.getMergeBase.mockResolvedValue(null);
+      mockedGitUtils.deepenToMergeBase.mockResolvedValue("deep-merge-base");
+
+      await ChangesetService.detectChanges("main", undefined, {
+        source: "auto",
+        githubToken: "test-token",
+        deepenLimit: 500,
+      });
+
+      expect(mockedGitUtils.deepenToMergeBase).toHaveBeenCalledWith(
+        "base-sha",
+        "head-sha",
+        500,
+      );
+      expect(mockedGitUtils.getChangedFiles).toHaveBeenCalledWith(
+        "deep-merge-base",
+        "head-sha",
+      );
+      expect(mockedPullRequestFiles.list).not.toHaveBeenCalled();
+    });
+
+    it("should fall back once deepening is exhausted", async () => {
+      mockedGitUtils.getMergeBase.mockResolvedValue(null);
+      mockedGitUtils.deepenToMergeBase.mockResolvedValue(null);
+
+      await ChangesetService.detectChanges("main", undefined, {
+        source: "git",
+        githubToken: "test-token",
+        deepenLimit: 500,
+      });
+
+      expect(mockedGitUtils.getChangedFiles).toHaveBeenCalledWith(
+        "base-sha",
+        "head-sha",
+      );
+      expect(mockedCore.warning).toHaveBeenCalledWith(
+        expect.stringContaining("Merge base unavailable"),
+      );
+    });
+
+    it("should not deepen when the merge base resolves or the limit is 0", async () => {
+      await ChangesetService.detectChanges("main", undefined, {
+        source: "git",
+        githubToken: "test-token",
+        deepenLimit: 500,
+      });
+      mockedGitUtils.getMergeBase.mockResolvedValue(null);
+      await ChangesetService.detectChanges("main", undefined, {
+        source: "git",
+        githubToken: "test-token",
+        deepenLimit: 0,
+      });
+
+      expect(mockedGitUtils.deepenToMergeBase).not.toHaveBeenCalled();
+    });
+
+    it("should pass the changed-lines options to the git diff", async () => {
+      await ChangesetService.detectChanges("main", undefined, {
+        source: "git",
+        githubToken: "test-token",
+        changedLines: { ignoreWhitespace: true, ignoreMoved: true },
+      });
+
+      expect(mockedGitUtils.getChangedLinesByFile).toHaveBeenCalledWith(
+        "base-sha",
+        "head-sha",
+        { ignoreWhitespace: true, ignoreMoved: true },
+      );
+    });
+
+    it("should not fall back to the API in git mode", async () => {
+      mockedGitUtils.getChangedFiles.mockRejectedValue(
+        new Error("bad revision"),
+      );
+
+      await expect(
+        ChangesetService.detectChanges("main", undefined, {
+          source: "git",
+          githubToken: "test-token",
+        }),
+      ).rejects.toThrow("Failed to detect changes");
+      expect(mockedPullRequestFiles.list).not.toHaveBeenCalled();
     });
   });
 
@@ -238,11 +487,13 @@ describe("ChangesetService", () => {
         totalFiles: 1,
       };
 
-      mockedGitUtils.getPullRequestHead.mockReturnValue("head-sha");
-      mockedGitUtils.getPullRequestBase.mockReturnValue("base-sha");
+      mockedGitUtils.getDiffRefs.mockReturnValue({
+        base: "base-sha",
+        head: "head-sha",
+      });
       mockedGitUtils.getChangedFiles.mockResolvedValue([
-        "src/file1.ts",
-        "src/file2.js",
+        { path: "src/file1.ts", status: "modified" as const },
+        { path: "src/file2.js", status: "modified" as const },
       ]);
       mockedChangesetUtils.createChangeset.mockReturnValue(mockChangeset);
       mockedChangesetUtils.getSummary.mockReturnValue("summary");
@@ -268,6 +519,7 @@ describe("ChangesetService", () => {
           ".go",
           ".rs",
         ],
+        undefined,
       );
     });
 
@@ -280,9 +532,13 @@ describe("ChangesetService", () => {
         totalFiles: 1,
       };
 
-      mockedGitUtils.getPullRequestHead.mockReturnValue("head-sha");
-      mockedGitUtils.getPullRequestBase.mockReturnValue("base-sha");
-      mockedGitUtils.getChangedFiles.mockResolvedValue(["src/file1.py"]);
+      mockedGitUtils.getDiffRefs.mockReturnValue({
+        base: "base-sha",
+        head: "head-sha",
+      });
+      mockedGitUtils.getChangedFiles.mockResolvedValue([
+        { path: "src/file1.py", status: "modified" as const },
+      ]);
       mockedChangesetUtils.createChangeset.mockReturnValue(mockChangeset);
       mockedChangesetUtils.getSummary.mockReturnValue("summary");
       mockedChangesetUtils.filterByExtensions.mockReturnValue(mockChangeset);
@@ -292,6 +548,7 @@ describe("ChangesetService", () => {
       expect(mockedChangesetUtils.filterByExtensions).toHaveBeenCalledWith(
         mockChangeset,
         [".py"],
+        undefined,
       );
     });
   });
@@ -381,11 +638,13 @@ describe("ChangesetService", () => {
         totalFiles: 1,
       };
 
-      mockedGitUtils.getPullRequestHead.mockReturnValue("head-sha");
-      mockedGitUtils.getPullRequestBase.mockReturnValue("base-sha");
+      mockedGitUtils.getDiffRefs.mockReturnValue({
+        base: "base-sha",
+        head: "head-sha",
+      });
       mockedGitUtils.getChangedFiles.mockResolvedValue([
-        "src/file1.ts",
-        "src/file2.js",
+        { path: "src/file1.ts", status: "modified" as const },
+        { path: "src/file2.js", status: "modified" as const },
       ]);
       mockedChangesetUtils.createChangeset.mockReturnValue(mockChangeset);
       mockedChangesetUtils.getSummary.mockReturnValue("summary");
@@ -405,6 +664,7 @@ describe("ChangesetService", () => {
         mockChangeset,
         ChangesetUtils.parsePatterns("src/**/*.ts"),
         ChangesetUtils.parsePatterns("**/*.test.*"),
+        undefined,
       );
       expect(mockedChangesetUtils.filterByExtensions).not.toHaveBeenCalled();
     });
@@ -426,11 +686,13 @@ describe("ChangesetService", () => {
         totalFiles: 1,
       };
 
-      mockedGitUtils.getPullRequestHead.mockReturnValue("head-sha");
-      mockedGitUtils.getPullRequestBase.mockReturnValue("base-sha");
+      mockedGitUtils.getDiffRefs.mockReturnValue({
+        base: "base-sha",
+        head: "head-sha",
+      });
       mockedGitUtils.getChangedFiles.mockResolvedValue([
-        "src/file1.ts",
-        "src/file2.js",
+        { path: "src/file1.ts", status: "modified" as const },
+        { path: "src/file2.js", status: "modified" as const },
       ]);
       mockedChangesetUtils.createChangeset.mockReturnValue(mockChangeset);
       mockedChangesetUtils.getSummary.mockReturnValue("summary");
@@ -456,8 +718,31 @@ describe("ChangesetService", () => {
           ".go",
           ".rs",
         ],
+        undefined,
       );
       expect(mockedChangesetUtils.filterByPatterns).not.toHaveBeenCalled();
     });
+
+    it("should apply the repository ignore file on top of the patterns", async () => {
+      const ignoreFile = { ruleCount: 2 } as unknown as IgnoreFile;
+      mockedIgnoreFile.load.mockReturnValue(ignoreFile);
+      mockedGitUtils.getChangedFiles.mockResolvedValue([]);
+
+      await ChangesetService.detectCodeChanges(
+        "main",
+        undefined,
+        "src/**/*.ts",
+      );
+
+      expect(mockedChangesetUtils.filterByPatterns).toHaveBeenCalledWith(
+        expect.anything(),
+        undefined,
+        undefined,
+        ignoreFile,
+      );
+      expect(mockedCore.info).toHaveBeenCalledWith(
+        "🙈 Applying 2 rule(s) from .coveragemapignore",
+      );
+    });
   });
 });
@@ -1,7 +1,11 @@
 import * as core from "@actions/core";
-import { GitUtils } from "./git";
-import { Changeset, ChangesetUtils } from "./changeset";
+import { ChangedLinesOptions, GitUtils, RefInputs } from "./git";
+import { ChangedFile, Changeset, ChangesetUtils } from "./changeset";
 import { CODE_LANGUAGE_EXTENSIONS } from "./codeExtensions";
+import { toErrorMessage } from "./errors";
+import { IGNORE_FILE_NAME, IgnoreFile } from "./ignoreFile";
+import { ChangesetSource } from "./inputs";
+import { PullRequestFiles } from "./pullRequestFiles";
 
 // Default file extensions treated as source code when no glob patterns are
 // supplied, derived from the shared language list so it stays in sync with the
@@ -10,65 +14,225 @@ const DEFAULT_CODE_EXTENSIONS = CODE_LANGUAGE_EXTENSIONS.map(
   (ext) => `.${ext}`,
 );
 
+export interface ChangesetOptions {
+  // Where the changed files and lines come from: `git` diffs the local clone,
+  // `api` reads the pull request files API, and `auto` uses git but turns to
+  // the API on pull requests whose base history is missing from the clone.
+  source: ChangesetSource;
+  githubToken: string;
+  // Most commits git may fetch to reach the merge base of a shallow clone; 0
+  // or absent disables deepening.
+  deepenLimit?: number;
+  // Added lines git should not count as changed. The API's patches cannot
+  // tell reformatted or moved lines apart, so this only applies to git.
+  changedLines?: ChangedLinesOptions;
+}
+
 export class ChangesetService {
-  static async detectChanges(targetBranch: string): Promise<Changeset> {
+  static async detectChanges(
+    targetBranch: string,
+    refs?: RefInputs,
+    options?: ChangesetOptions,
+  ): Promise<Changeset> {
+    if (options?.source === "api" && !PullRequestFiles.isAvailable()) {
+      throw new Error(
+        "changeset-source api only works on pull request events; use changeset-source git or auto instead.",
+      );
+    }
+
     try {
       core.info("🚀 Starting changeset detection");
 
-      const headRef = GitUtils.getPullRequestHead();
-      const baseRef = GitUtils.getPullRequestBase();
-
-      core.info(`📌 PR head: ${headRef}`);
-      core.info(`🎯 PR base: ${baseRef}`);
-
-      // Compare against the merge base rather than the base branch tip so the
-      // changeset only contains the PR's own changes, even when the target
-      // branch has advanced since the branch point. When the merge base cannot
-      // be resolved (typically a shallow clone) fall back to the PR base SHA to
-      // preserve the previous behaviour rather than failing outright.
-      const mergeBase = await GitUtils.getMergeBase(baseRef, headRef);
-      const diffBase = mergeBase ?? baseRef;
-
-      if (!mergeBase) {
-        core.warning(
-          "⚠️ Merge base unavailable (likely a shallow clone); falling back to the PR base SHA. " +
-            "Increase fetch-depth so the merge base is fetched for accurate changeset detection.",
-        );
-      }
-
-      // The file list and the line-level diff are independent reads of the
-      // same revision range, so fetch them concurrently.
-      const [changedFiles, changedLinesByFile] = await Promise.all([
-        GitUtils.getChangedFiles(diffBase, headRef),
-        GitUtils.getChangedLinesByFile(diffBase, headRef),
-      ]);
+      const { base, head: headRef } = GitUtils.getDiffRefs(refs);
+      const baseRef =
+        base ?? (await ChangesetService.resolveTargetBranch(targetBranch));
 
-      const changeset = ChangesetUtils.createChangeset(
-        changedFiles,
-        diffBase,
-        headRef,
-        targetBranch,
-        changedLinesByFile,
-      );
+      core.info(`📌 Head: ${headRef}`);
+      core.info(`🎯 Base: ${baseRef}`);
+
+      // An explicit head may be a branch or tag; pin the commit it names so
+      // results attach to the revision that was diffed.
+      const headSha = refs?.headRef
+        ? await ChangesetService.resolveHeadRef(refs.headRef)
+        : undefined;
+
+      const detected =
+        options?.source === "api"
+          ? await ChangesetService.detectFromApi(
+              baseRef,
+              headRef,
+              targetBranch,
+              options.githubToken,
+            )
+          : await ChangesetService.detectFromGit(
+              baseRef,
+              headRef,
+              targetBranch,
+              options,
+            );
+      const changeset = headSha ? { ...detected, headSha } : detected;
 
       core.info("✅ Changeset detection completed");
       core.info(ChangesetUtils.getSummary(changeset));
 
       return changeset;
     } catch (error) {
-      const errorMessage = "Failed to detect changes in pull request";
+      const errorMessage = "Failed to detect changes";
       core.error(`${errorMessage}: ${error}`);
       throw new Error(errorMessage, { cause: error });
     }
   }
 
+  // A push that creates a branch has no base commit of its own, so its
+  // changes are those made since it left the target branch.
+  private static async resolveTargetBranch(
+    targetBranch: string,
+  ): Promise<string> {
+    const sha = await GitUtils.fetchBranch(targetBranch);
+    if (!sha) {
+      throw new Error(
+        `Cannot fetch target branch ${targetBranch} to compare the new branch against`,
+      );
+    }
+    core.info(`🎯 Target branch ${targetBranch} is at ${sha}`);
+    return sha;
+  }
+
+  private static async resolveHeadRef(headRef: string): Promise<string> {
+    const sha = await GitUtils.resolveCommit(headRef);
+    if (!sha) {
+      throw new Error(
+        `head-ref ${headRef} does not name a commit in the clone`,
+      );
+    }
+    core.info(`📌 Head ref ${headRef} resolves to ${sha}`);
+    return sha;
+  }
+
+  private static async detectFromGit(
+    baseRef: string,
+    headRef: string,
+    targetBranch: string,
+    options?: ChangesetOptions,
+  ): Promise<Changeset> {
+    // Set when the pull request files API may stand in for a clone too
+    // shallow to diff.
+    const apiFallbackToken =
+      options?.source === "auto" && PullRequestFiles.isAvailable()
+        ? options.githubToken
+        : undefined;
+    const deepenLimit = options?.deepenLimit ?? 0;
+
+    // Compare against the merge base rather than the base branch tip so the
+    // changeset only contains the PR's own changes, even when the target
+    // branch has advanced since the branch point. When the merge base cannot
+    // be resolved (typically a shallow clone) fetch more history up to
+    // `deepenLimit` commits; failing that, read the PR's files from the API if
+    // allowed, else fall back to the base SHA to preserve the previous
+    // behaviour rather than failing outright.
+    const mergeBase =
+      (await GitUtils.getMergeBase(baseRef, headRef)) ??
+      (deepenLimit > 0
+        ? await GitUtils.deepenToMergeBase(baseRef, headRef, deepenLimit)
+        : null);
+
+    if (!mergeBase && apiFallbackToken !== undefined) {
+      core.info(
+        "🛰️ Merge base unavailable (likely a shallow clone); reading the changeset from the pull request files API",
+      );
+      return ChangesetService.detectFromApi(
+        baseRef,
+        headRef,
+        targetBranch,
+        apiFallbackToken,
+      );
+    }
+
+    const diffBase = mergeBase ?? baseRef;
+
+    if (!mergeBase) {
+      core.warning(
+        "⚠️ Merge base unavailable (likely a shallow clone); falling back to the base SHA. " +
+          "Increase fetch-depth or deepen-limit so the merge base is fetched for accurate changeset detection, " +
+          "or set changeset-source to api on pull requests.",
+      );
+    }
+
+    // The file list and the line-level diff are independent reads of the
+    // same revision range, so fetch them concurrently.
+    let changedFiles: ChangedFile[];
+    let changedLinesByFile: Map<string, number[]>;
+    try {
+      [changedFiles, changedLinesByFile] = await Promise.all([
+        GitUtils.getChangedFiles(diffBase, headRef),
+        GitUtils.getChangedLinesByFile(
+          diffBase,
+          headRef,
+          options?.changedLines,
+        ),
+      ]);
+    } catch (error) {
+      if (apiFallbackToken === undefined) throw error;
+
+      core.warning(
+        `⚠️ git diff failed (${toErrorMessage(error)}); reading the changeset from the pull request files API`,
+      );
+      return ChangesetService.detectFromApi(
+        baseRef,
+        headRef,
+        targetBranch,
+        apiFallbackToken,
+      );
+    }
+
+    return ChangesetUtils.createChangeset(
+      changedFiles,
+      diffBase,
+      headRef,
+      targetBranch,
+      changedLinesByFile,
+    );
+  }
+
+  // The API compares the PR head with its merge base, so the PR base SHA is
+  // only recorded as the changeset's base commit.
+  private static async detectFromApi(
+    baseRef: string,
+    headRef: string,
+    targetBranch: string,
+    githubToken: string,
+  ): Promise<Changeset> {
+    const files = await PullRequestFiles.list(githubToken);
+    return ChangesetUtils.createChangeset(
+      files,
+      baseRef,
+      headRef,
+      targetBranch,
+    );
+  }
+
   static async detectCodeChanges(
     targetBranch: string,
     extensions?: string[],
     sourceCodePattern?: string,
     testCodePattern?: string,
+    refs?: RefInputs,
+    options?: ChangesetOptions,
   ): Promise<Changeset> {
-    const changeset = await ChangesetService.detectChanges(targetBranch);
+    const changeset = await ChangesetService.detectChanges(
+      targetBranch,
+      refs,
+      options,
+    );
+
+    // The repository's ignore file applies on top of either filter, so every
+    // workflow and label excludes the same paths.
+    const ignoreFile = IgnoreFile.load();
+    if (ignoreFile) {
+      core.info(
+        `🙈 Applying ${ignoreFile.ruleCount} rule(s) from ${IGNORE_FILE_NAME}`,
+      );
+    }
 
     // If patterns are provided, use pattern-based filtering
     if (sourceCodePattern || testCodePattern) {
@@ -76,6 +240,7 @@ export class ChangesetService {
         changeset,
         ChangesetUtils.parsePatterns(sourceCodePattern),
         ChangesetUtils.parsePatterns(testCodePattern),
+        ignoreFile,
       );
     }
 
@@ -83,6 +248,7 @@ export class ChangesetService {
     return ChangesetUtils.filterByExtensions(
       changeset,
       extensions || DEFAULT_CODE_EXTENSIONS,
+      ignoreFile,
     );
   }
 
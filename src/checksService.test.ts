@@ -1087,6 +1087,130 @@ describe("ChecksService", () => {
 
       expect(annotations).toEqual([]);
     });
+
+    it("flags a function with a recorded end line when its body changed", () => {
+      const file: FileChangeWithCoverage = {
+        path: "src/spans.ts",
+        status: "modified",
+        changedLines: [8, 13],
+        coverage: {
+          path: "src/spans.ts",
+          functions: [
+            { name: "spanned", line: 5, endLine: 9, hit: 0 },
+            { name: "legacy", line: 12, hit: 0 },
+          ],
+          branches: [],
+          lines: [],
+          summary: {
+            functionsFound: 2,
+            functionsHit: 0,
+            linesFound: 0,
+            linesHit: 0,
+            branchesFound: 0,
+            branchesHit: 0,
+          },
+        },
+        analysis: templatedAnalysis,
+      };
+
+      const annotations = checksService
+        .generateAnnotations(wrapAnalysis(file))
+        .filter((a) => a.title === "Uncovered Function");
+
+      // Line 13 lies after the legacy function's declaration, which is all a
+      // legacy record locates.
+      expect(annotations).toEqual([
+        {
+          path: "src/spans.ts",
+          start_line: 5,
+          end_line: 9,
+          annotation_level: "warning",
+          title: "Uncovered Function",
+          message: "Function 'spanned' is not covered by tests",
+        },
+      ]);
+    });
+
+    describe("test attribution", () => {
+      const attributedFile = (
+        tests: string[],
+        changedLines?: number[],
+        untestedLines: number[] = [],
+      ): FileChangeWithCoverage => ({
+        path: "src/cart.ts",
+        status: "modified",
+        changedLines,
+        coverage: {
+          path: "src/cart.ts",
+          functions: [],
+          branches: [],
+          lines: [{ line: 7, hit: 1 }],
+          summary: {
+            functionsFound: 0,
+            functionsHit: 0,
+            linesFound: 1,
+            linesHit: 1,
+            branchesFound: 0,
+            branchesHit: 0,
+          },
+        },
+        analysis: templatedAnalysis,
+        testAttribution: { tests, untestedLines },
+      });
+
+      const attributionNotices = (file: FileChangeWithCoverage) =>
+        checksService
+          .generateAnnotations(wrapAnalysis(file))
+          .filter((a) => a.title === "Tests Exercising Changes");
+
+      it("names the tests on the first changed line", () => {
+        expect(
+          attributionNotices(attributedFile(["unit", "e2e"], [7, 8])),
+        ).toEqual([
+          {
+            path: "src/cart.ts",
+            start_line: 7,
+            end_line: 7,
+            annotation_level: "notice",
+            title: "Tests Exercising Changes",
+            message: "Exercised by 2 tests: unit, e2e",
+          },
+        ]);
+      });
+
+      it("lists the changed lines no test runs as ranges", () => {
+        const [notice] = attributionNotices(
+          attributedFile(["unit"], [7, 8, 9, 10, 12], [8, 9, 10, 12]),
+        );
+
+        expect(notice!.message).toBe(
+          "Exercised by 1 test: unit. No test runs changed lines 8-10, 12.",
+        );
+      });
+
+      it("moves long test lists into the raw details", () => {
+        const tests = ["t1", "t2", "t3", "t4", "t5", "t6", "t7"];
+        const [notice] = attributionNotices(attributedFile(tests));
+
+        expect(notice!.start_line).toBe(1);
+        expect(notice!.message).toBe(
+          "Exercised by 7 tests: t1, t2, t3, t4, t5 (+2 more)",
+        );
+        expect(notice!.raw_details).toBe(tests.join("\n"));
+      });
+
+      it("says when no test exercises the changed lines", () => {
+        const [notice] = attributionNotices(attributedFile([], [7], [7]));
+
+        expect(notice!.message).toBe(
+          "No test in the coverage report exercises the changed lines.",
+        );
+      });
+
+      it("stays silent when no changed line is coverable", () => {
+        expect(attributionNotices(attributedFile([], [3]))).toEqual([]);
+      });
+    });
   });
 
   describe("generateCheckTitle", () => {
@@ -1195,6 +1319,87 @@ describe("ChecksService", () => {
       expect(summary).toContain("**Branches:** 15/20 (75%)");
     });
 
+    it("should include patch coverage when the analysis carries it", () => {
+      const metrics = {
+        totalLines: 4,
+        coveredLines: 3,
+        totalFunctions: 1,
+        coveredFunctions: 1,
+        totalBranches: 2,
+        coveredBranches: 1,
+        linesCoveragePercentage: 75,
+        functionsCoveragePercentage: 100,
+        branchesCoveragePercentage: 50,
+        overallCoveragePercentage: 71.43,
+      };
+      const analysis: CoverageAnalysis = {
+        changeset: ChangesetUtils.createChangeset(
+          ["src/test.ts"],
+          "base-sha",
+          "head-sha",
+          "main",
+        ),
+        changedFiles: [],
+        summary: {
+          totalChangedFiles: 1,
+          filesWithCoverage: 1,
+          filesWithoutCoverage: 0,
+          overallCoverage: metrics,
+          patchCoverage: metrics,
+        },
+      };
+
+      const summary = (checksService as any).generateCheckSummary(analysis);
+
+      expect(summary).toContain("### Patch Coverage (changed lines only)");
+      expect(summary).toContain("**Overall:** 71.43%");
+    });
+
+    it("should list patch MC/DC conditions when the patch carries them", () => {
+      const metrics = {
+        totalLines: 4,
+        coveredLines: 3,
+        totalFunctions: 1,
+        coveredFunctions: 1,
+        totalBranches: 2,
+        coveredBranches: 1,
+        linesCoveragePercentage: 75,
+        functionsCoveragePercentage: 100,
+        branchesCoveragePercentage: 50,
+        overallCoveragePercentage: 71.43,
+      };
+      const analysis: CoverageAnalysis = {
+        changeset: ChangesetUtils.createChangeset(
+          ["src/test.ts"],
+          "base-sha",
+          "head-sha",
+          "main",
+        ),
+        changedFiles: [],
+        summary: {
+          totalChangedFiles: 1,
+          filesWithCoverage: 1,
+          filesWithoutCoverage: 0,
+          overallCoverage: metrics,
+          patchCoverage: {
+            ...metrics,
+            totalConditions: 4,
+            coveredConditions: 1,
+            mcdcCoveragePercentage: 25,
+          },
+        },
+      };
+
+      const summary: string = (checksService as any).generateCheckSummary(
+        analysis,
+      );
+      const patchBlock = summary.slice(
+        summary.indexOf("### Patch Coverage (changed lines only)"),
+      );
+
+      expect(patchBlock).toContain("- **MC/DC conditions:** 1/4 (25%)");
+    });
+
     it("should include files without coverage section", () => {
       const analysis: CoverageAnalysis = {
         changeset: ChangesetUtils.createChangeset(
@@ -1278,6 +1483,83 @@ describe("ChecksService", () => {
         "[src/test2.ts](https://github.com/testowner/testrepo/blob/test-head-sha/src/test2.ts)",
       );
     });
+
+    it("should list coverage path mismatch hints", () => {
+      const metrics = {
+        totalLines: 0,
+        coveredLines: 0,
+        totalFunctions: 0,
+        coveredFunctions: 0,
+        totalBranches: 0,
+        coveredBranches: 0,
+        linesCoveragePercentage: 0,
+        functionsCoveragePercentage: 0,
+        branchesCoveragePercentage: 0,
+        overallCoveragePercentage: 0,
+      };
+      const analysis: CoverageAnalysis = {
+        changeset: ChangesetUtils.createChangeset([], "base-sha"),
+        changedFiles: [],
+        summary: {
+          totalChangedFiles: 0,
+          filesWithCoverage: 0,
+          filesWithoutCoverage: 0,
+          overallCoverage: metrics,
+        },
+        pathWarnings: ["`src/a.ts` has no coverage data"],
+      };
+
+      const summary = (checksService as any).generateCheckSummary(analysis);
+
+      expect(summary).toContain(
+        "### ⚠️ Coverage Path Mismatch\n- `src/a.ts` has no coverage data",
+      );
+    });
+
+    it("should link files without coverage at the resolved head-ref", () => {
+      const metrics = {
+        totalLines: 0,
+        coveredLines: 0,
+        totalFunctions: 0,
+        coveredFunctions: 0,
+        totalBranches: 0,
+        coveredBranches: 0,
+        linesCoveragePercentage: 0,
+        functionsCoveragePercentage: 0,
+        branchesCoveragePercentage: 0,
+        overallCoveragePercentage: 0,
+      };
+      const analysis: CoverageAnalysis = {
+        changeset: {
+          ...ChangesetUtils.createChangeset(
+            ["src/test2.ts"],
+            "base-sha",
+            "release",
+            "main",
+          ),
+          headSha: "release-sha",
+        },
+        changedFiles: [
+          {
+            path: "src/test2.ts",
+            status: "modified",
+            analysis: metrics,
+          },
+        ],
+        summary: {
+          totalChangedFiles: 1,
+          filesWithCoverage: 0,
+          filesWithoutCoverage: 1,
+          overallCoverage: metrics,
+        },
+      };
+
+      const summary = (checksService as any).generateCheckSummary(analysis);
+
+      expect(summary).toContain(
+        "[src/test2.ts](https://github.com/testowner/testrepo/blob/release-sha/src/test2.ts)",
+      );
+    });
   });
 
   describe("determineCheckConclusion", () => {
@@ -32,6 +32,10 @@ export class ChecksService {
   // single annotation never spans multiple screens.
   private static readonly maxFunctionNameLength = 80;
 
+  // Test names spelled out in a "Tests Exercising Changes" message; the full
+  // list goes to the annotation's raw details.
+  private static readonly maxListedTests = 5;
+
   constructor(config: ChecksServiceConfig) {
     this.config = config;
   }
@@ -42,6 +46,20 @@ export class ChecksService {
       : "Coverage Treemap Action";
   }
 
+  // The commit the check run belongs to: the commit head-ref resolved to, the
+  // PR head, the merge queue's head commit, or for push and manual runs the
+  // commit the workflow runs on.
+  private getHeadSha(analysis: CoverageAnalysis): string | undefined {
+    const { payload, sha } = github.context;
+    return (
+      analysis.changeset.headSha ||
+      payload.pull_request?.head?.sha ||
+      payload.merge_group?.head_sha ||
+      sha ||
+      undefined
+    );
+  }
+
   private getServerUrl(): string {
     return (
       github.context.serverUrl ||
@@ -102,6 +120,9 @@ export class ChecksService {
           raw_details: this.formatFileCoverageSummary(file),
         });
       }
+
+      const testAnnotation = this.generateTestAttributionAnnotation(file);
+      if (testAnnotation) annotations.push(testAnnotation);
     }
 
     return this.prioritizeAndLimitAnnotations(annotations);
@@ -175,13 +196,24 @@ export class ChecksService {
 
     const annotations: CheckAnnotation[] = [];
     for (const [line, instantiations] of functionsByLine) {
-      if (!isInChangeset(line)) continue;
       if (instantiations.some((func) => func.hit > 0)) continue;
 
+      // A function whose end line the report records is flagged when a change
+      // touches any line of its body; legacy records only locate the
+      // declaration, so only a changed declaration line flags them.
+      const endLine = Math.max(
+        ...instantiations.map((func) => func.endLine ?? line),
+      );
+      const touched = Array.from(
+        { length: endLine - line + 1 },
+        (_, offset) => line + offset,
+      ).some(isInChangeset);
+      if (!touched) continue;
+
       annotations.push({
         path: file.path,
         start_line: line,
-        end_line: line,
+        end_line: endLine,
         annotation_level: "warning",
         title: "Uncovered Function",
         message: this.formatUncoveredFunctionMessage(instantiations),
@@ -191,6 +223,46 @@ export class ChecksService {
     return annotations;
   }
 
+  // Names the tests that ran the file's changed lines, and the changed lines
+  // none of them ran, anchored on the first changed line so it sits next to
+  // the change in the diff view. Changed lines without a DA record (comments,
+  // imports, type-only code) give no test anything to run, so they get no
+  // annotation.
+  private generateTestAttributionAnnotation(
+    file: FileChangeWithCoverage,
+  ): CheckAnnotation | undefined {
+    if (!file.testAttribution) return undefined;
+
+    const { tests, untestedLines } = file.testAttribution;
+    if (tests.length === 0 && untestedLines.length === 0) return undefined;
+    const line = file.changedLines?.[0] ?? 1;
+    const listed = tests.slice(0, ChecksService.maxListedTests).join(", ");
+    const more = tests.length - ChecksService.maxListedTests;
+    const exercised = `Exercised by ${tests.length} ${tests.length === 1 ? "test" : "tests"}: ${listed}${more > 0 ? ` (+${more} more)` : ""}`;
+    const untested = this.groupConsecutiveLines(untestedLines)
+      .map((group) =>
+        group.length === 1
+          ? `${group[0]}`
+          : `${group[0]}-${group[group.length - 1]}`,
+      )
+      .join(", ");
+
+    return {
+      path: file.path,
+      start_line: line,
+      end_line: line,
+      annotation_level: "notice",
+      title: "Tests Exercising Changes",
+      message:
+        tests.length === 0
+          ? "No test in the coverage report exercises the changed lines."
+          : untested
+            ? `${exercised}. No test runs changed ${untestedLines.length === 1 ? "line" : "lines"} ${untested}.`
+            : exercised,
+      ...(more > 0 && { raw_details: tests.join("\n") }),
+    };
+  }
+
   // Builds a concise message for an uncovered function line. Templated code
   // maps to several instantiations sharing the line; we surface one readable
   // (truncated) name plus a count of the remaining instantiations rather than
@@ -289,10 +361,9 @@ export class ChecksService {
     annotations: CheckAnnotation[],
     _prCommentUrl?: string,
   ): Promise<string | null> {
-    if (!github.context.payload.pull_request) {
-      core.warning(
-        "Not running in a pull request context, skipping check annotations",
-      );
+    const headSha = this.getHeadSha(analysis);
+    if (!headSha) {
+      core.warning("No head commit to attach check annotations to, skipping");
       return null;
     }
 
@@ -318,7 +389,6 @@ export class ChecksService {
       });
 
       const octokit = github.getOctokit(installationAuth.token);
-      const headSha = github.context.payload.pull_request.head.sha;
 
       const checkName = this.getCheckName();
       const title = this.generateCheckTitle(analysis);
@@ -332,9 +402,12 @@ export class ChecksService {
 
       const serverUrl = this.getServerUrl();
       const runId = process.env.GITHUB_RUN_ID;
+      const pullRequest = github.context.payload.pull_request;
       const actionsUrl = runId
         ? `${serverUrl}/${owner}/${repo}/actions/runs/${runId}`
-        : `${serverUrl}/${owner}/${repo}/pull/${github.context.payload.pull_request.number}`;
+        : pullRequest
+          ? `${serverUrl}/${owner}/${repo}/pull/${pullRequest.number}`
+          : `${serverUrl}/${owner}/${repo}/commit/${headSha}`;
 
       const createCheckResponse = await octokit.rest.checks.create({
         owner,
@@ -392,10 +465,41 @@ export class ChecksService {
       `- **Branches:** ${overallCoverage.coveredBranches}/${overallCoverage.totalBranches} (${overallCoverage.branchesCoveragePercentage}%)`,
     ];
 
+    if (overallCoverage.totalConditions !== undefined) {
+      lines.push(
+        `- **MC/DC conditions:** ${overallCoverage.coveredConditions}/${overallCoverage.totalConditions} (${overallCoverage.mcdcCoveragePercentage}%)`,
+      );
+    }
+
+    if (summary.patchCoverage) {
+      const patch = summary.patchCoverage;
+      lines.push(
+        "",
+        "### Patch Coverage (changed lines only)",
+        `- **Lines:** ${patch.coveredLines}/${patch.totalLines} (${patch.linesCoveragePercentage}%)`,
+        `- **Functions:** ${patch.coveredFunctions}/${patch.totalFunctions} (${patch.functionsCoveragePercentage}%)`,
+        `- **Branches:** ${patch.coveredBranches}/${patch.totalBranches} (${patch.branchesCoveragePercentage}%)`,
+      );
+      if (patch.totalConditions !== undefined) {
+        lines.push(
+          `- **MC/DC conditions:** ${patch.coveredConditions}/${patch.totalConditions} (${patch.mcdcCoveragePercentage}%)`,
+        );
+      }
+      lines.push(`- **Overall:** ${patch.overallCoveragePercentage}%`);
+    }
+
+    if (analysis.pathWarnings) {
+      lines.push(
+        "",
+        "### ⚠️ Coverage Path Mismatch",
+        ...analysis.pathWarnings.map((warning) => `- ${warning}`),
+      );
+    }
+
     if (summary.filesWithoutCoverage > 0) {
       lines.push("", "### ⚠️ Files Without Coverage");
       const { owner, repo } = github.context.repo;
-      const headSha = github.context.payload.pull_request?.head.sha;
+      const headSha = this.getHeadSha(analysis);
       const serverUrl = this.getServerUrl();
 
       analysis.changedFiles
@@ -204,6 +204,252 @@ describe("CoverageAnalyzer", () => {
     });
   });
 
+  describe("patch coverage", () => {
+    const analyzeWithChangedLines = (
+      changedLines: Map<string, number[]> | undefined,
+      files = ["src/example.ts"],
+    ) =>
+      CoverageAnalyzer.analyze(
+        ChangesetUtils.createChangeset(
+          files,
+          "abc123",
+          "def456",
+          "main",
+          changedLines,
+        ),
+        mockLcovReport,
+      );
+
+    it("counts only the records on changed lines", () => {
+      // Line 1 carries a covered DA and both branches; line 10 is the
+      // uncovered function's declaration and an uncovered DA.
+      const analysis = analyzeWithChangedLines(
+        new Map([["src/example.ts", [1, 10]]]),
+      );
+      const patch = analysis.changedFiles[0].patchAnalysis;
+
+      expect(patch).toMatchObject({
+        totalLines: 2,
+        coveredLines: 1,
+        totalFunctions: 1,
+        coveredFunctions: 0,
+        totalBranches: 2,
+        coveredBranches: 1,
+        linesCoveragePercentage: 50,
+      });
+      // Whole-file numbers are unaffected.
+      expect(analysis.changedFiles[0].analysis.totalLines).toBe(4);
+    });
+
+    it("attributes a changed line to the function whose span contains it", () => {
+      // coveredFunction spans [5, 10); line 7 has no DA record.
+      const analysis = analyzeWithChangedLines(
+        new Map([["src/example.ts", [7]]]),
+      );
+      const patch = analysis.changedFiles[0].patchAnalysis;
+
+      expect(patch?.totalLines).toBe(0);
+      expect(patch?.totalFunctions).toBe(1);
+      expect(patch?.coveredFunctions).toBe(1);
+    });
+
+    it("stops a function's span at its recorded end line", () => {
+      const spanned: FileCoverage = {
+        ...mockFileCoverage,
+        functions: [
+          { name: "coveredFunction", line: 5, endLine: 6, hit: 3 },
+          { name: "uncoveredFunction", line: 10, hit: 0 },
+        ],
+      };
+      const analysis = CoverageAnalyzer.analyze(
+        ChangesetUtils.createChangeset(
+          ["src/example.ts"],
+          "abc123",
+          "def456",
+          "main",
+          new Map([["src/example.ts", [8]]]),
+        ),
+        { ...mockLcovReport, files: new Map([["src/example.ts", spanned]]) },
+      );
+
+      // Line 8 follows coveredFunction's body, so no function was touched.
+      expect(analysis.changedFiles[0].patchAnalysis?.totalFunctions).toBe(0);
+    });
+
+    it("aggregates file patch coverage into the summary", () => {
+      const analysis = analyzeWithChangedLines(
+        new Map([["src/example.ts", [1, 2, 5]]]),
+        ["src/example.ts", "src/uncovered.ts"],
+      );
+
+      expect(analysis.changedFiles[1].patchAnalysis?.totalLines).toBe(0);
+      expect(analysis.summary.patchCoverage).toMatchObject({
+        totalLines: 3,
+        coveredLines: 2,
+        totalFunctions: 1,
+        coveredFunctions: 1,
+        totalBranches: 2,
+        coveredBranches: 1,
+      });
+    });
+
+    it("omits patch coverage when line-level diff data is unavailable", () => {
+      const analysis = analyzeWithChangedLines(undefined);
+
+      expect(analysis.changedFiles[0].patchAnalysis).toBeUndefined();
+      expect(analysis.summary.patchCoverage).toBeUndefined();
+    });
+
+    it("reports patch coverage in the formatted output", () => {
+      const analysis = analyzeWithChangedLines(
+        new Map([["src/example.ts", [5]]]),
+      );
+      const formatted = CoverageAnalyzer.format(analysis);
+
+      expect(formatted).toContain("🧩 Patch Coverage (changed lines only):");
+      expect(formatted).toContain("src/example.ts (50%, patch 100%)");
+    });
+  });
+
+  describe("MC/DC", () => {
+    const mcdcReport: LcovReport = {
+      ...mockLcovReport,
+      files: new Map([
+        [
+          "src/example.ts",
+          {
+            ...mockFileCoverage,
+            mcdc: [
+              {
+                line: 1,
+                groupSize: 1,
+                index: 0,
+                sense: true,
+                taken: 1,
+                expression: "a",
+              },
+              {
+                line: 1,
+                groupSize: 1,
+                index: 0,
+                sense: false,
+                taken: 0,
+                expression: "a",
+              },
+              {
+                line: 5,
+                groupSize: 1,
+                index: 0,
+                sense: true,
+                taken: 2,
+                expression: "b",
+              },
+              {
+                line: 5,
+                groupSize: 1,
+                index: 0,
+                sense: false,
+                taken: 1,
+                expression: "b",
+              },
+            ],
+            summary: { ...mockFileCoverage.summary, mcdcFound: 4, mcdcHit: 3 },
+          },
+        ],
+      ]),
+    };
+
+    it("reports MC/DC separately from the overall percentage", () => {
+      const analysis = CoverageAnalyzer.analyze(
+        ChangesetUtils.createChangeset(
+          ["src/example.ts"],
+          "abc123",
+          "def456",
+          "main",
+          new Map([["src/example.ts", [1]]]),
+        ),
+        mcdcReport,
+      );
+      const [file] = analysis.changedFiles;
+
+      expect(file.analysis).toMatchObject({
+        totalConditions: 4,
+        coveredConditions: 3,
+        mcdcCoveragePercentage: 75,
+        overallCoveragePercentage: 50,
+      });
+      expect(file.patchAnalysis).toMatchObject({
+        totalConditions: 2,
+        coveredConditions: 1,
+        mcdcCoveragePercentage: 50,
+      });
+      expect(analysis.summary.overallCoverage.mcdcCoveragePercentage).toBe(75);
+      expect(CoverageAnalyzer.format(analysis)).toContain("  MC/DC: 3/4 (75%)");
+    });
+
+    it("leaves MC/DC metrics out for reports without MC/DC data", () => {
+      const analysis = CoverageAnalyzer.analyze(
+        ChangesetUtils.createChangeset(["src/example.ts"], "a", "b", "main"),
+        mockLcovReport,
+      );
+
+      expect(analysis.summary.overallCoverage.totalConditions).toBeUndefined();
+    });
+  });
+
+  describe("test attribution", () => {
+    const attributedReport: LcovReport = {
+      ...mockLcovReport,
+      files: new Map([
+        [
+          "src/example.ts",
+          {
+            ...mockFileCoverage,
+            tests: [
+              { name: "unit", lines: [1], functions: [] },
+              { name: "e2e", lines: [5], functions: ["coveredFunction"] },
+            ],
+          },
+        ],
+      ]),
+    };
+
+    const analyzeAttribution = (changedLines?: number[]) =>
+      CoverageAnalyzer.analyze(
+        ChangesetUtils.createChangeset(
+          ["src/example.ts"],
+          "abc123",
+          "def456",
+          "main",
+          changedLines && new Map([["src/example.ts", changedLines]]),
+        ),
+        attributedReport,
+      ).changedFiles[0];
+
+    it("lists the tests that hit changed lines and the lines none hit", () => {
+      expect(analyzeAttribution([1, 2, 3]).testAttribution).toEqual({
+        tests: ["unit"],
+        untestedLines: [2],
+      });
+    });
+
+    it("considers every line without line-level diff data", () => {
+      expect(analyzeAttribution().testAttribution).toEqual({
+        tests: ["unit", "e2e"],
+        untestedLines: [2, 10],
+      });
+    });
+
+    it("is absent when the report names no tests", () => {
+      const analysis = CoverageAnalyzer.analyze(
+        ChangesetUtils.createChangeset(["src/example.ts"], "a", "b", "main"),
+        mockLcovReport,
+      );
+
+      expect(analysis.changedFiles[0].testAttribution).toBeUndefined();
+    });
+  });
+
   describe("getUncoveredFunctions", () => {
     it("should return uncovered functions for changed files", () => {
       const changeset = ChangesetUtils.createChangeset(
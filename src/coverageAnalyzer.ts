@@ -5,21 +5,43 @@ import {
   FunctionCoverage,
   CoverageCounts,
 } from "./lcov";
+import { getFunctionLineRange } from "./functionSpans";
+import { StaleFile } from "./reportFreshness";
+
+/** Rounded found/hit counts and percentages for a set of coverage records. */
+export interface CoverageMetrics {
+  totalLines: number;
+  coveredLines: number;
+  totalFunctions: number;
+  coveredFunctions: number;
+  totalBranches: number;
+  coveredBranches: number;
+  linesCoveragePercentage: number;
+  functionsCoveragePercentage: number;
+  branchesCoveragePercentage: number;
+  overallCoveragePercentage: number;
+  // MC/DC condition outcomes, kept out of the overall percentage. Present only
+  // when the records include any.
+  totalConditions?: number;
+  coveredConditions?: number;
+  mcdcCoveragePercentage?: number;
+}
 
 export interface FileChangeWithCoverage extends FileChange {
   coverage?: FileCoverage;
-  analysis: {
-    totalLines: number;
-    coveredLines: number;
-    totalFunctions: number;
-    coveredFunctions: number;
-    totalBranches: number;
-    coveredBranches: number;
-    linesCoveragePercentage: number;
-    functionsCoveragePercentage: number;
-    branchesCoveragePercentage: number;
-    overallCoveragePercentage: number;
-  };
+  analysis: CoverageMetrics;
+  // Coverage restricted to the records on the file's changed lines. Absent,
+  // like changedLines, when line-level diff data was unavailable.
+  patchAnalysis?: CoverageMetrics;
+  // Which named tests exercised the changed lines (every line when diff data
+  // is unavailable), and which of those lines no test hit. Absent when the
+  // report does not attribute coverage to tests.
+  testAttribution?: TestAttribution;
+}
+
+export interface TestAttribution {
+  tests: string[];
+  untestedLines: number[];
 }
 
 export interface CoverageAnalysis {
@@ -29,19 +51,17 @@ export interface CoverageAnalysis {
     totalChangedFiles: number;
     filesWithCoverage: number;
     filesWithoutCoverage: number;
-    overallCoverage: {
-      totalLines: number;
-      coveredLines: number;
-      totalFunctions: number;
-      coveredFunctions: number;
-      totalBranches: number;
-      coveredBranches: number;
-      linesCoveragePercentage: number;
-      functionsCoveragePercentage: number;
-      branchesCoveragePercentage: number;
-      overallCoveragePercentage: number;
-    };
+    overallCoverage: CoverageMetrics;
+    // Aggregate of every file's patchAnalysis. Absent when no changed file
+    // carries line-level diff data, so consumers fall back to overallCoverage.
+    patchCoverage?: CoverageMetrics;
   };
+  // Changed files whose coverage looks older than the checked-out source, set
+  // by the freshness check that follows analysis. Absent when none do.
+  staleFiles?: StaleFile[];
+  // Path-mapping hints for changed files the report has no coverage for, set
+  // by the path diagnostics that follow analysis. Absent when there are none.
+  pathWarnings?: string[];
 }
 
 export class CoverageAnalyzer {
@@ -55,19 +75,18 @@ export class CoverageAnalyzer {
 
   // Distinct from calculateFileAnalysis's 100% for empty-but-coverable
   // metrics: a file with no coverage data at all reports 0% across the board.
-  private static readonly EMPTY_FILE_ANALYSIS: FileChangeWithCoverage["analysis"] =
-    {
-      totalLines: 0,
-      coveredLines: 0,
-      totalFunctions: 0,
-      coveredFunctions: 0,
-      totalBranches: 0,
-      coveredBranches: 0,
-      linesCoveragePercentage: 0,
-      functionsCoveragePercentage: 0,
-      branchesCoveragePercentage: 0,
-      overallCoveragePercentage: 0,
-    };
+  private static readonly EMPTY_FILE_ANALYSIS: CoverageMetrics = {
+    totalLines: 0,
+    coveredLines: 0,
+    totalFunctions: 0,
+    coveredFunctions: 0,
+    totalBranches: 0,
+    coveredBranches: 0,
+    linesCoveragePercentage: 0,
+    functionsCoveragePercentage: 0,
+    branchesCoveragePercentage: 0,
+    overallCoveragePercentage: 0,
+  };
 
   private static percentage(hit: number, found: number): number {
     return found > 0 ? (hit / found) * 100 : 100;
@@ -102,12 +121,26 @@ export class CoverageAnalyzer {
             ...fileChange,
             coverage,
             analysis: this.calculateFileAnalysis(coverage),
+            ...(fileChange.changedLines && {
+              patchAnalysis: this.analysisFromCounts(
+                this.countChangedLines(coverage, fileChange.changedLines),
+              ),
+            }),
+            ...(coverage.tests && {
+              testAttribution: this.attributeTests(
+                coverage,
+                fileChange.changedLines,
+              ),
+            }),
           };
         } else {
           // File has no coverage data (e.g., not instrumented or no tests)
           return {
             ...fileChange,
             analysis: { ...this.EMPTY_FILE_ANALYSIS },
+            ...(fileChange.changedLines && {
+              patchAnalysis: { ...this.EMPTY_FILE_ANALYSIS },
+            }),
           };
         }
       },
@@ -155,9 +188,7 @@ export class CoverageAnalyzer {
    * Build a rounded analysis object from aggregate found/hit counts. Overall
    * coverage is the weighted average across all lines, functions and branches.
    */
-  private static analysisFromCounts(
-    counts: CoverageCounts,
-  ): FileChangeWithCoverage["analysis"] {
+  private static analysisFromCounts(counts: CoverageCounts): CoverageMetrics {
     const totalElements =
       counts.linesFound + counts.functionsFound + counts.branchesFound;
     const coveredElements =
@@ -182,9 +213,82 @@ export class CoverageAnalyzer {
       overallCoveragePercentage: this.round2(
         this.percentage(coveredElements, totalElements),
       ),
+      ...(counts.mcdcFound !== undefined && {
+        totalConditions: counts.mcdcFound,
+        coveredConditions: counts.mcdcHit ?? 0,
+        mcdcCoveragePercentage: this.round2(
+          this.percentage(counts.mcdcHit ?? 0, counts.mcdcFound),
+        ),
+      }),
+    };
+  }
+
+  /**
+   * Count only the records a diff touched: DA and BRDA records on a changed
+   * line, and functions whose span contains at least one changed line. This is
+   * the "patch coverage" of the file, unaffected by untouched legacy code.
+   */
+  private static countChangedLines(
+    coverage: FileCoverage,
+    changedLines: number[],
+  ): CoverageCounts {
+    const changed = new Set(changedLines);
+    const lines = coverage.lines.filter((line) => changed.has(line.line));
+    const branches = coverage.branches.filter((branch) =>
+      changed.has(branch.line),
+    );
+    const functions = coverage.functions.filter((func) => {
+      const { startLine, endLine } = getFunctionLineRange(func, coverage);
+      return changedLines.some((line) => line >= startLine && line < endLine);
+    });
+    const mcdc = coverage.mcdc?.filter((record) => changed.has(record.line));
+
+    return {
+      linesFound: lines.length,
+      linesHit: lines.filter((line) => line.hit > 0).length,
+      functionsFound: functions.length,
+      functionsHit: functions.filter((func) => func.hit > 0).length,
+      branchesFound: branches.length,
+      branchesHit: branches.filter((branch) => branch.taken > 0).length,
+      ...(mcdc && {
+        mcdcFound: mcdc.length,
+        mcdcHit: mcdc.filter((record) => record.taken > 0).length,
+      }),
     };
   }
 
+  /**
+   * Match the file's per-test hits against its changed lines. Only lines
+   * with a DA record can be untested; a changed blank line or comment is not
+   * reported.
+   */
+  private static attributeTests(
+    coverage: FileCoverage,
+    changedLines: number[] | undefined,
+  ): TestAttribution {
+    const changed = changedLines && new Set(changedLines);
+    const isRelevant = (line: number) => !changed || changed.has(line);
+
+    const testedLines = new Set<number>();
+    const tests: string[] = [];
+    for (const test of coverage.tests ?? []) {
+      const hitLines = test.lines.filter(isRelevant);
+      if (hitLines.length === 0) continue;
+      tests.push(test.name);
+      hitLines.forEach((line) => testedLines.add(line));
+    }
+
+    const untestedLines = [
+      ...new Set(
+        coverage.lines
+          .map((line) => line.line)
+          .filter((line) => isRelevant(line) && !testedLines.has(line)),
+      ),
+    ].sort((a, b) => a - b);
+
+    return { tests, untestedLines };
+  }
+
   /**
    * Calculate coverage analysis for a single file
    */
@@ -199,6 +303,25 @@ export class CoverageAnalyzer {
     const filesWithCoverage = changedFiles.filter((f) => f.coverage).length;
     const filesWithoutCoverage = changedFiles.length - filesWithCoverage;
 
+    const patchAnalyses = changedFiles.flatMap((file) =>
+      file.patchAnalysis ? [file.patchAnalysis] : [],
+    );
+
+    return {
+      totalChangedFiles: changedFiles.length,
+      filesWithCoverage,
+      filesWithoutCoverage,
+      overallCoverage: this.aggregateMetrics(
+        changedFiles.map((file) => file.analysis),
+      ),
+      ...(patchAnalyses.length > 0 && {
+        patchCoverage: this.aggregateMetrics(patchAnalyses),
+      }),
+    };
+  }
+
+  /** Sum the found/hit counts of several analyses and re-derive percentages. */
+  private static aggregateMetrics(metrics: CoverageMetrics[]): CoverageMetrics {
     const aggregate: CoverageCounts = {
       linesFound: 0,
       linesHit: 0,
@@ -208,21 +331,22 @@ export class CoverageAnalyzer {
       branchesHit: 0,
     };
 
-    for (const file of changedFiles) {
-      aggregate.linesFound += file.analysis.totalLines;
-      aggregate.linesHit += file.analysis.coveredLines;
-      aggregate.functionsFound += file.analysis.totalFunctions;
-      aggregate.functionsHit += file.analysis.coveredFunctions;
-      aggregate.branchesFound += file.analysis.totalBranches;
-      aggregate.branchesHit += file.analysis.coveredBranches;
+    for (const entry of metrics) {
+      aggregate.linesFound += entry.totalLines;
+      aggregate.linesHit += entry.coveredLines;
+      aggregate.functionsFound += entry.totalFunctions;
+      aggregate.functionsHit += entry.coveredFunctions;
+      aggregate.branchesFound += entry.totalBranches;
+      aggregate.branchesHit += entry.coveredBranches;
+      if (entry.totalConditions !== undefined) {
+        aggregate.mcdcFound =
+          (aggregate.mcdcFound ?? 0) + entry.totalConditions;
+        aggregate.mcdcHit =
+          (aggregate.mcdcHit ?? 0) + (entry.coveredConditions ?? 0);
+      }
     }
 
-    return {
-      totalChangedFiles: changedFiles.length,
-      filesWithCoverage,
-      filesWithoutCoverage,
-      overallCoverage: this.analysisFromCounts(aggregate),
-    };
+    return this.analysisFromCounts(aggregate);
   }
 
   /**
@@ -286,6 +410,14 @@ export class CoverageAnalyzer {
     return prCoverage >= threshold;
   }
 
+  private static formatMcdc(metrics: CoverageMetrics): string[] {
+    return metrics.totalConditions !== undefined
+      ? [
+          `  MC/DC: ${metrics.coveredConditions}/${metrics.totalConditions} (${metrics.mcdcCoveragePercentage}%)`,
+        ]
+      : [];
+  }
+
   /**
    * Format coverage analysis as human-readable string
    */
@@ -305,16 +437,33 @@ export class CoverageAnalyzer {
       `  Lines: ${overallCoverage.coveredLines}/${overallCoverage.totalLines} (${overallCoverage.linesCoveragePercentage}%)`,
       `  Functions: ${overallCoverage.coveredFunctions}/${overallCoverage.totalFunctions} (${overallCoverage.functionsCoveragePercentage}%)`,
       `  Branches: ${overallCoverage.coveredBranches}/${overallCoverage.totalBranches} (${overallCoverage.branchesCoveragePercentage}%)`,
+      ...this.formatMcdc(overallCoverage),
       `  Overall: ${overallCoverage.overallCoveragePercentage}%`,
       "",
     ];
 
+    if (summary.patchCoverage) {
+      const patch = summary.patchCoverage;
+      lines.push(
+        "🧩 Patch Coverage (changed lines only):",
+        `  Lines: ${patch.coveredLines}/${patch.totalLines} (${patch.linesCoveragePercentage}%)`,
+        `  Functions: ${patch.coveredFunctions}/${patch.totalFunctions} (${patch.functionsCoveragePercentage}%)`,
+        `  Branches: ${patch.coveredBranches}/${patch.totalBranches} (${patch.branchesCoveragePercentage}%)`,
+        ...this.formatMcdc(patch),
+        `  Overall: ${patch.overallCoveragePercentage}%`,
+        "",
+      );
+    }
+
     if (analysis.changedFiles.length > 0) {
       lines.push("📂 File Details:");
       analysis.changedFiles.forEach((file) => {
         const status = file.coverage ? "✅" : "❌";
         const coverage = file.analysis.overallCoveragePercentage;
-        lines.push(`  ${status} ${file.path} (${coverage}%)`);
+        const patch = file.patchAnalysis
+          ? `, patch ${file.patchAnalysis.overallCoveragePercentage}%`
+          : "";
+        lines.push(`  ${status} ${file.path} (${coverage}%${patch})`);
 
         if (file.coverage && file.analysis.overallCoveragePercentage < 100) {
           const uncoveredFunctions = file.coverage.functions.filter(
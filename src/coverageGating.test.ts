@@ -161,6 +161,73 @@ describe("CoverageGating", () => {
       });
     });
 
+    describe("patch mode", () => {
+      const withPatchCoverage = (
+        prCoverage: number,
+        patchCoverage: number,
+      ): CoverageAnalysis => {
+        const analysis = createMockAnalysis(prCoverage);
+        return {
+          ...analysis,
+          summary: {
+            ...analysis.summary,
+            patchCoverage: {
+              ...analysis.summary.overallCoverage,
+              overallCoveragePercentage: patchCoverage,
+            },
+          },
+        };
+      };
+
+      it("should pass when changed-line coverage meets threshold even if whole files do not", () => {
+        const result = CoverageGating.evaluate(
+          withPatchCoverage(40, 90),
+          mockLcovReport,
+          "patch",
+          80,
+        );
+
+        expect(result).toEqual({
+          meetsThreshold: true,
+          threshold: 80,
+          mode: "patch",
+          prCoveragePercentage: 90,
+          overallProjectCoveragePercentage: 80,
+          description:
+            "✅ Changed-line coverage (90%) meets or exceeds threshold (80%)",
+          errorMessage: undefined,
+        });
+      });
+
+      it("should fail when changed-line coverage is below threshold", () => {
+        const result = CoverageGating.evaluate(
+          withPatchCoverage(95, 60),
+          mockLcovReport,
+          "patch",
+          80,
+        );
+
+        expect(result.meetsThreshold).toBe(false);
+        expect(result.prCoveragePercentage).toBe(60);
+        expect(result.errorMessage).toBe(
+          "Coverage gating failed: PR changed-line coverage (60%) is below threshold (80%)",
+        );
+      });
+
+      it("should fall back to whole-file coverage without patch data", () => {
+        const result = CoverageGating.evaluate(
+          createMockAnalysis(70),
+          mockLcovReport,
+          "patch",
+          80,
+        );
+
+        expect(result.mode).toBe("patch");
+        expect(result.meetsThreshold).toBe(false);
+        expect(result.prCoveragePercentage).toBe(70);
+      });
+    });
+
     describe("none mode (gating disabled)", () => {
       it("should always pass and report disabled mode even below threshold", () => {
         const analysis = createMockAnalysis(10);
@@ -184,6 +251,98 @@ describe("CoverageGating", () => {
       });
     });
 
+    describe("MC/DC threshold", () => {
+      const withMcdc = (
+        prCoverage: number,
+        mcdcPercentage: number,
+      ): CoverageAnalysis => {
+        const analysis = createMockAnalysis(prCoverage);
+        return {
+          ...analysis,
+          summary: {
+            ...analysis.summary,
+            overallCoverage: {
+              ...analysis.summary.overallCoverage,
+              totalConditions: 20,
+              coveredConditions: mcdcPercentage / 5,
+              mcdcCoveragePercentage: mcdcPercentage,
+            },
+          },
+        };
+      };
+
+      it("should fail when MC/DC coverage is below its threshold", () => {
+        const result = CoverageGating.evaluate(
+          withMcdc(90, 60),
+          mockLcovReport,
+          "threshold",
+          80,
+          75,
+        );
+
+        expect(result.meetsThreshold).toBe(false);
+        expect(result.mcdc).toEqual({
+          threshold: 75,
+          percentage: 60,
+          meetsThreshold: false,
+        });
+        expect(result.errorMessage).toBe(
+          "Coverage gating failed: MC/DC coverage (60%) is below MC/DC threshold (75%)",
+        );
+      });
+
+      it("should report both failures when coverage also misses", () => {
+        const result = CoverageGating.evaluate(
+          withMcdc(50, 60),
+          mockLcovReport,
+          "threshold",
+          80,
+          75,
+        );
+
+        expect(result.errorMessage).toBe(
+          "Coverage gating failed: PR changes coverage (50%) is below threshold (80%); MC/DC coverage (60%) is below MC/DC threshold (75%)",
+        );
+      });
+
+      it("should pass when MC/DC coverage meets its threshold", () => {
+        const result = CoverageGating.evaluate(
+          withMcdc(90, 80),
+          mockLcovReport,
+          "threshold",
+          80,
+          75,
+        );
+
+        expect(result.meetsThreshold).toBe(true);
+        expect(result.mcdc?.meetsThreshold).toBe(true);
+        expect(CoverageGating.format(result)).toContain(
+          "✅ MC/DC coverage (80%) meets or exceeds MC/DC threshold (75%)",
+        );
+      });
+
+      it("should leave the gate out without MC/DC data or when disabled", () => {
+        expect(
+          CoverageGating.evaluate(
+            createMockAnalysis(90),
+            mockLcovReport,
+            "threshold",
+            80,
+            75,
+          ).mcdc,
+        ).toBeUndefined();
+        expect(
+          CoverageGating.evaluate(
+            withMcdc(90, 10),
+            mockLcovReport,
+            "none",
+            80,
+            75,
+          ).meetsThreshold,
+        ).toBe(true);
+      });
+    });
+
     describe("edge cases", () => {
       it("should handle zero lines in project coverage", () => {
         const emptyLcovReport: LcovReport = {
@@ -263,6 +422,27 @@ describe("CoverageGating", () => {
       );
     });
 
+    it("should format patch mode result", () => {
+      const result: GatingResult = {
+        meetsThreshold: true,
+        threshold: 80,
+        mode: "patch",
+        prCoveragePercentage: 90,
+        overallProjectCoveragePercentage: 75,
+        description:
+          "✅ Changed-line coverage (90%) meets or exceeds threshold (80%)",
+      };
+
+      const formatted = CoverageGating.format(result);
+
+      expect(formatted).toContain("📊 Mode: Patch (Changed Lines)");
+      expect(formatted).toContain("📈 Changed-Line Coverage: 90%");
+      expect(formatted).toContain("🎯 Threshold: 80%");
+      expect(formatted).toContain(
+        "🎯 Requirement: changed-line coverage ≥ Threshold",
+      );
+    });
+
     it("should format disabled mode result", () => {
       const result: GatingResult = {
         meetsThreshold: true,
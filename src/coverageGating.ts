@@ -5,19 +5,48 @@ import { GateMode } from "./inputs";
 export interface GatingResult {
   meetsThreshold: boolean;
   threshold: number;
-  mode: "standard" | "baseline" | "disabled";
+  mode: "standard" | "baseline" | "patch" | "disabled";
   prCoveragePercentage: number;
   overallProjectCoveragePercentage?: number;
   description: string;
   errorMessage?: string;
+  // The optional MC/DC gate, present when an MC/DC threshold is set and the
+  // gated files have MC/DC data. `meetsThreshold` above includes its outcome.
+  mcdc?: {
+    threshold: number;
+    percentage: number;
+    meetsThreshold: boolean;
+  };
 }
 
 export class CoverageGating {
+  /**
+   * Gate the PR by `gateMode`, and additionally by MC/DC condition coverage
+   * when `mcdcThreshold` is set.
+   */
   static evaluate(
     analysis: CoverageAnalysis,
     lcovReport: LcovReport,
     gateMode: GateMode,
     threshold: number,
+    mcdcThreshold?: number,
+  ): GatingResult {
+    const result = this.evaluateCoverage(
+      analysis,
+      lcovReport,
+      gateMode,
+      threshold,
+    );
+    return mcdcThreshold === undefined
+      ? result
+      : this.applyMcdcThreshold(result, analysis, mcdcThreshold);
+  }
+
+  private static evaluateCoverage(
+    analysis: CoverageAnalysis,
+    lcovReport: LcovReport,
+    gateMode: GateMode,
+    threshold: number,
   ): GatingResult {
     const prCoveragePercentage =
       analysis.summary.overallCoverage.overallCoveragePercentage;
@@ -43,6 +72,30 @@ export class CoverageGating {
       };
     }
 
+    // Patch mode gates the coverage of only the changed lines against the
+    // threshold. Without line-level diff data there is no patch coverage, so it
+    // degrades to the whole-file figure like every other changed-line consumer.
+    if (gateMode === "patch") {
+      const patchCoveragePercentage =
+        analysis.summary.patchCoverage?.overallCoveragePercentage ??
+        prCoveragePercentage;
+      const meetsThreshold = patchCoveragePercentage >= threshold;
+
+      return {
+        meetsThreshold,
+        threshold,
+        mode: "patch",
+        prCoveragePercentage: patchCoveragePercentage,
+        overallProjectCoveragePercentage,
+        description: meetsThreshold
+          ? `✅ Changed-line coverage (${patchCoveragePercentage}%) meets or exceeds threshold (${threshold}%)`
+          : `❌ Changed-line coverage (${patchCoveragePercentage}%) is below threshold (${threshold}%)`,
+        errorMessage: meetsThreshold
+          ? undefined
+          : `Coverage gating failed: PR changed-line coverage (${patchCoveragePercentage}%) is below threshold (${threshold}%)`,
+      };
+    }
+
     // Baseline mode gates against the project's own coverage; threshold mode
     // gates against the explicit threshold value.
     const isBaseline = gateMode === "baseline";
@@ -73,24 +126,62 @@ export class CoverageGating {
     };
   }
 
+  /**
+   * Gate MC/DC condition coverage of the same records the coverage gate
+   * used: the changed lines in patch mode, the changed files otherwise. Files
+   * without MC/DC data leave the gate out, as does disabled gating.
+   */
+  private static applyMcdcThreshold(
+    result: GatingResult,
+    analysis: CoverageAnalysis,
+    mcdcThreshold: number,
+  ): GatingResult {
+    if (result.mode === "disabled") return result;
+
+    const metrics =
+      result.mode === "patch"
+        ? (analysis.summary.patchCoverage ?? analysis.summary.overallCoverage)
+        : analysis.summary.overallCoverage;
+    const percentage = metrics.mcdcCoveragePercentage;
+    if (percentage === undefined) return result;
+
+    const meetsThreshold = percentage >= mcdcThreshold;
+    const failure = `MC/DC coverage (${percentage}%) is below MC/DC threshold (${mcdcThreshold}%)`;
+    return {
+      ...result,
+      meetsThreshold: result.meetsThreshold && meetsThreshold,
+      mcdc: { threshold: mcdcThreshold, percentage, meetsThreshold },
+      errorMessage: meetsThreshold
+        ? result.errorMessage
+        : result.errorMessage
+          ? `${result.errorMessage}; ${failure}`
+          : `Coverage gating failed: ${failure}`,
+    };
+  }
+
   static format(result: GatingResult): string {
-    const modeLabel =
-      result.mode === "standard"
-        ? "Standard Threshold"
-        : result.mode === "baseline"
-          ? "Project Baseline"
-          : "Disabled";
+    const modeLabel = {
+      standard: "Standard Threshold",
+      baseline: "Project Baseline",
+      patch: "Patch (Changed Lines)",
+      disabled: "Disabled",
+    }[result.mode];
 
     const lines = [
       "🎯 Coverage Gating Results",
       "═══════════════════════════",
       "",
       `📊 Mode: ${modeLabel}`,
-      `📈 PR Coverage: ${result.prCoveragePercentage}%`,
+      result.mode === "patch"
+        ? `📈 Changed-Line Coverage: ${result.prCoveragePercentage}%`
+        : `📈 PR Coverage: ${result.prCoveragePercentage}%`,
     ];
 
     if (result.mode === "standard") {
       lines.push(`🎯 Threshold: ${result.threshold}%`);
+    } else if (result.mode === "patch") {
+      lines.push(`🎯 Threshold: ${result.threshold}%`);
+      lines.push(`🎯 Requirement: changed-line coverage ≥ Threshold`);
     } else if (result.mode === "baseline") {
       lines.push(
         `📊 Project Coverage: ${result.overallProjectCoveragePercentage}%`,
@@ -100,8 +191,21 @@ export class CoverageGating {
       lines.push(`🎯 Requirement: none (gating disabled)`);
     }
 
+    if (result.mcdc) {
+      lines.push(
+        `🧮 MC/DC Coverage: ${result.mcdc.percentage}% (threshold ${result.mcdc.threshold}%)`,
+      );
+    }
+
     lines.push("");
     lines.push(result.description);
+    if (result.mcdc) {
+      lines.push(
+        result.mcdc.meetsThreshold
+          ? `✅ MC/DC coverage (${result.mcdc.percentage}%) meets or exceeds MC/DC threshold (${result.mcdc.threshold}%)`
+          : `❌ MC/DC coverage (${result.mcdc.percentage}%) is below MC/DC threshold (${result.mcdc.threshold}%)`,
+      );
+    }
 
     return lines.join("\n");
   }
@@ -0,0 +1,36 @@
+import type { FileCoverage, FunctionCoverage } from "./lcov";
+
+// Function spans are needed by both the treemap (to size function tiles) and
+// the coverage analyzer (to decide which functions a diff touches). Keeping the
+// heuristic in one module guarantees both agree on where a function ends.
+
+/**
+ * Resolve the half-open line span `[start, end)` attributed to a function.
+ * When the report records where the function ends, that end line is used.
+ * Otherwise the span runs from its declaration line up to (but excluding) the
+ * next function's declaration, and the last function in a file has no upper
+ * bound.
+ */
+export function getFunctionLineRange(
+  func: FunctionCoverage,
+  fileCoverage: FileCoverage,
+): { startLine: number; endLine: number } {
+  if (func.endLine !== undefined) {
+    return { startLine: func.line, endLine: func.endLine + 1 };
+  }
+
+  const functions = [...fileCoverage.functions].sort((a, b) => a.line - b.line);
+  const funcIndex = functions.findIndex(
+    (f) => f.name === func.name && f.line === func.line,
+  );
+
+  if (funcIndex === -1) {
+    return { startLine: func.line, endLine: func.line + 1 };
+  }
+
+  const nextFunc = functions[funcIndex + 1];
+  return {
+    startLine: func.line,
+    endLine: nextFunc ? nextFunc.line : Number.POSITIVE_INFINITY,
+  };
+}
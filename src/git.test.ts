@@ -133,6 +133,77 @@ describe("GitUtils", () => {
     });
   });
 
+  describe("getDiffRefs", () => {
+    afterEach(() => {
+      (context as any).eventName = undefined;
+      (context as any).sha = undefined;
+    });
+
+    it("should use the PR base and head on pull request events", () => {
+      (context as any).eventName = "pull_request";
+      (context as any).payload = {
+        pull_request: { base: { sha: "pr-base" }, head: { sha: "pr-head" } },
+      };
+
+      expect(GitUtils.getDiffRefs()).toEqual({
+        base: "pr-base",
+        head: "pr-head",
+      });
+    });
+
+    it("should use the queue's base and head on merge_group events", () => {
+      (context as any).eventName = "merge_group";
+      (context as any).payload = {
+        merge_group: { base_sha: "queue-base", head_sha: "queue-head" },
+      };
+
+      expect(GitUtils.getDiffRefs()).toEqual({
+        base: "queue-base",
+        head: "queue-head",
+      });
+    });
+
+    it("should compare before and after on push events", () => {
+      (context as any).eventName = "push";
+      (context as any).payload = { before: "before-sha", after: "after-sha" };
+
+      expect(GitUtils.getDiffRefs()).toEqual({
+        base: "before-sha",
+        head: "after-sha",
+      });
+    });
+
+    it("should leave the base to the caller when a push creates the branch", () => {
+      (context as any).eventName = "push";
+      (context as any).payload = {
+        before: "0000000000000000000000000000000000000000",
+        after: "after-sha",
+      };
+
+      expect(GitUtils.getDiffRefs()).toEqual({ head: "after-sha" });
+      expect(GitUtils.getDiffRefs({ baseRef: "main" })).toEqual({
+        base: "main",
+        head: "after-sha",
+      });
+    });
+
+    it("should take workflow_dispatch refs from the inputs", () => {
+      (context as any).eventName = "workflow_dispatch";
+      (context as any).sha = "run-sha";
+
+      expect(GitUtils.getDiffRefs({ baseRef: "v1.0.0" })).toEqual({
+        base: "v1.0.0",
+        head: "run-sha",
+      });
+      expect(
+        GitUtils.getDiffRefs({ baseRef: "v1.0.0", headRef: "v1.1.0" }),
+      ).toEqual({ base: "v1.0.0", head: "v1.1.0" });
+      expect(() => GitUtils.getDiffRefs()).toThrow(
+        "Cannot determine the base commit of a workflow_dispatch run",
+      );
+    });
+  });
+
   describe("getMergeBase", () => {
     it("should return the merge base SHA when git resolves one", async () => {
       mockExecSuccess("merge-base-sha789\n");
@@ -171,16 +242,219 @@ describe("GitUtils", () => {
     });
   });
 
+  describe("resolveCommit", () => {
+    it("should return the SHA of the commit a ref names", async () => {
+      mockExecSuccess("release-sha\n");
+
+      await expect(GitUtils.resolveCommit("release")).resolves.toBe(
+        "release-sha",
+      );
+      expect(mockedExecFile).toHaveBeenCalledWith(
+        "git",
+        [
+          "rev-parse",
+          "--verify",
+          "--quiet",
+          "--end-of-options",
+          "release^{commit}",
+        ],
+        expect.any(Function),
+      );
+    });
+
+    it("should return null when the ref names no commit", async () => {
+      mockExecError(new Error("exit code 1"));
+
+      await expect(GitUtils.resolveCommit("missing")).resolves.toBeNull();
+    });
+  });
+
+  describe("fetchBranch", () => {
+    // Answers each git invocation by its subcommand; the remote-tracking ref
+    // resolves once it exists locally or has been fetched.
+    const mockGit = (local: boolean, shallow: boolean) => {
+      let fetched = local;
+      mockedExecFile.mockImplementation(((
+        _file: string,
+        args: string[],
+        callback: any,
+      ) => {
+        if (args[0] === "fetch") {
+          fetched = true;
+          callback(null, { stdout: "", stderr: "" });
+        } else if (args[1] === "--is-shallow-repository") {
+          callback(null, { stdout: `${shallow}\n`, stderr: "" });
+        } else if (fetched) {
+          callback(null, { stdout: "main-sha\n", stderr: "" });
+        } else {
+          callback(new Error("exit code 1"));
+        }
+      }) as any);
+    };
+
+    const fetchCalls = () =>
+      mockedExecFile.mock.calls.filter(([, args]: any) => args[0] === "fetch");
+
+    it("should use the remote-tracking branch the clone already has", async () => {
+      mockGit(true, false);
+
+      await expect(GitUtils.fetchBranch("main")).resolves.toBe("main-sha");
+      expect(fetchCalls()).toHaveLength(0);
+    });
+
+    it("should fetch only the branch tip into a shallow clone", async () => {
+      mockGit(false, true);
+
+      await expect(GitUtils.fetchBranch("main")).resolves.toBe("main-sha");
+      expect(fetchCalls().map(([, args]: any) => args)).toEqual([
+        [
+          "fetch",
+          "--no-tags",
+          "--quiet",
+          "--depth=1",
+          "--",
+          "origin",
+          "+refs/heads/main:refs/remotes/origin/main",
+        ],
+      ]);
+    });
+
+    it("should return null with a warning when the fetch fails", async () => {
+      mockExecError(new Error("couldn't find remote ref"));
+
+      await expect(GitUtils.fetchBranch("main")).resolves.toBeNull();
+      expect(mockedCore.warning).toHaveBeenCalledWith(
+        expect.stringContaining("Could not fetch main from origin"),
+      );
+    });
+  });
+
+  describe("deepenToMergeBase", () => {
+    // Answers each git invocation by its subcommand; `mergeBaseAfter` is the
+    // number of fetches after which merge-base starts resolving.
+    const mockGit = (shallow: boolean, mergeBaseAfter: number) => {
+      let fetches = 0;
+      mockedExecFile.mockImplementation(((
+        _file: string,
+        args: string[],
+        callback: any,
+      ) => {
+        if (args[0] === "rev-parse") {
+          callback(null, { stdout: `${shallow}\n`, stderr: "" });
+        } else if (args[0] === "fetch") {
+          fetches++;
+          callback(null, { stdout: "", stderr: "" });
+        } else if (fetches >= mergeBaseAfter) {
+          callback(null, { stdout: "merge-base-sha\n", stderr: "" });
+        } else {
+          callback(new Error("fatal: no merge base"));
+        }
+      }) as any);
+    };
+
+    const fetchCalls = () =>
+      mockedExecFile.mock.calls.filter(([, args]: any) => args[0] === "fetch");
+
+    it("should deepen in doubling steps until the merge base resolves", async () => {
+      mockGit(true, 2);
+
+      const result = await GitUtils.deepenToMergeBase("base", "head", 1000);
+
+      expect(result).toBe("merge-base-sha");
+      expect(fetchCalls().map(([, args]: any) => args)).toEqual([
+        [
+          "fetch",
+          "--no-tags",
+          "--quiet",
+          "--deepen=50",
+          "--",
+          "origin",
+          "base",
+          "head",
+        ],
+        [
+          "fetch",
+          "--no-tags",
+          "--quiet",
+          "--deepen=100",
+          "--",
+          "origin",
+          "base",
+          "head",
+        ],
+      ]);
+      expect(mockedCore.info).toHaveBeenCalledWith(
+        "📥 Fetched 150 more commits of history to reach the merge base",
+      );
+    });
+
+    it("should stop at the limit and return null", async () => {
+      mockGit(true, Infinity);
+
+      const result = await GitUtils.deepenToMergeBase("base", "head", 120);
+
+      expect(result).toBeNull();
+      expect(fetchCalls().map(([, args]: any) => args[3])).toEqual([
+        "--deepen=50",
+        "--deepen=70",
+      ]);
+      expect(mockedCore.info).toHaveBeenCalledWith(
+        "📥 Fetched 120 more commits of history without reaching the merge base",
+      );
+    });
+
+    it("should not fetch when the clone is not shallow", async () => {
+      mockGit(false, 0);
+
+      const result = await GitUtils.deepenToMergeBase("base", "head", 1000);
+
+      expect(result).toBeNull();
+      expect(fetchCalls()).toHaveLength(0);
+    });
+
+    it("should warn and return null when a fetch fails", async () => {
+      mockedExecFile.mockImplementation(((
+        _file: string,
+        args: string[],
+        callback: any,
+      ) => {
+        if (args[0] === "rev-parse") {
+          callback(null, { stdout: "true\n", stderr: "" });
+        } else {
+          callback(new Error("could not read from remote"));
+        }
+      }) as any);
+
+      const result = await GitUtils.deepenToMergeBase("base", "head", 1000);
+
+      expect(result).toBeNull();
+      expect(mockedCore.warning).toHaveBeenCalledWith(
+        expect.stringContaining("could not read from remote"),
+      );
+    });
+  });
+
   describe("getChangedFiles", () => {
-    it("should return list of changed files", async () => {
-      mockExecSuccess("src/file1.ts\nsrc/file2.js\nREADME.md\n");
+    it("should return changed files with their status", async () => {
+      mockExecSuccess("M\tsrc/file1.ts\nA\tsrc/file2.js\nM\tREADME.md\n");
 
       const result = await GitUtils.getChangedFiles("base-sha", "head-sha");
 
-      expect(result).toEqual(["src/file1.ts", "src/file2.js", "README.md"]);
+      expect(result).toEqual([
+        { path: "src/file1.ts", status: "modified" },
+        { path: "src/file2.js", status: "added" },
+        { path: "README.md", status: "modified" },
+      ]);
       expect(mockedExecFile).toHaveBeenCalledWith(
         "git",
-        ["diff", "--name-only", "--diff-filter=AM", "base-sha..head-sha"],
+        [
+          "diff",
+          "--name-status",
+          "-M",
+          "-C",
+          "--diff-filter=AMRC",
+          "base-sha..head-sha",
+        ],
         expect.any(Function),
       );
       expect(mockedCore.info).toHaveBeenCalledWith(
@@ -189,23 +463,55 @@ describe("GitUtils", () => {
       expect(mockedCore.info).toHaveBeenCalledWith("📊 Found 3 changed files");
     });
 
+    it("should keep renamed and copied files with their previous path", async () => {
+      mockExecSuccess(
+        "R087\tsrc/old.ts\tsrc/new.ts\nC100\tsrc/base.ts\tsrc/copy.ts\n",
+      );
+
+      const result = await GitUtils.getChangedFiles("base-sha", "head-sha");
+
+      expect(result).toEqual([
+        { path: "src/new.ts", status: "renamed", previousPath: "src/old.ts" },
+        { path: "src/copy.ts", status: "copied", previousPath: "src/base.ts" },
+      ]);
+      expect(mockedCore.info).toHaveBeenCalledWith(
+        "  - src/new.ts (renamed from src/old.ts)",
+      );
+      expect(mockedCore.info).toHaveBeenCalledWith(
+        "  - src/copy.ts (copied from src/base.ts)",
+      );
+    });
+
     it("should filter out empty lines", async () => {
-      mockExecSuccess("src/file1.ts\n\nsrc/file2.js\n  \n\nREADME.md\n");
+      mockExecSuccess(
+        "M\tsrc/file1.ts\n\nM\tsrc/file2.js\n  \n\nM\tREADME.md\n",
+      );
 
       const result = await GitUtils.getChangedFiles("base-sha", "head-sha");
 
-      expect(result).toEqual(["src/file1.ts", "src/file2.js", "README.md"]);
+      expect(result.map((file) => file.path)).toEqual([
+        "src/file1.ts",
+        "src/file2.js",
+        "README.md",
+      ]);
     });
 
     it("should use HEAD as default head parameter", async () => {
-      mockExecSuccess("src/file1.ts\n");
+      mockExecSuccess("M\tsrc/file1.ts\n");
 
       const result = await GitUtils.getChangedFiles("base-sha");
 
-      expect(result).toEqual(["src/file1.ts"]);
+      expect(result).toEqual([{ path: "src/file1.ts", status: "modified" }]);
       expect(mockedExecFile).toHaveBeenCalledWith(
         "git",
-        ["diff", "--name-only", "--diff-filter=AM", "base-sha..HEAD"],
+        [
+          "diff",
+          "--name-status",
+          "-M",
+          "-C",
+          "--diff-filter=AMRC",
+          "base-sha..HEAD",
+        ],
         expect.any(Function),
       );
     });
@@ -235,15 +541,18 @@ describe("GitUtils", () => {
     });
 
     it("should trim whitespace from file paths", async () => {
-      mockExecSuccess("  src/file1.ts  \n  src/file2.js  \n");
+      mockExecSuccess("M\t  src/file1.ts  \nM\t  src/file2.js  \n");
 
       const result = await GitUtils.getChangedFiles("base-sha", "head-sha");
 
-      expect(result).toEqual(["src/file1.ts", "src/file2.js"]);
+      expect(result.map((file) => file.path)).toEqual([
+        "src/file1.ts",
+        "src/file2.js",
+      ]);
     });
 
     it("should log each changed file", async () => {
-      mockExecSuccess("src/file1.ts\nsrc/file2.js\n");
+      mockExecSuccess("M\tsrc/file1.ts\nA\tsrc/file2.js\n");
 
       await GitUtils.getChangedFiles("base-sha", "head-sha");
 
@@ -268,7 +577,9 @@ describe("GitUtils", () => {
           "diff.mnemonicPrefix=false",
           "diff",
           "--unified=0",
-          "--diff-filter=AM",
+          "-M",
+          "-C",
+          "--diff-filter=AMRC",
           "base..head",
         ],
         expect.any(Function),
@@ -300,6 +611,43 @@ describe("GitUtils", () => {
       expect(result.get("src/b.ts")).toEqual([1]);
     });
 
+    it("should diff ignoring whitespace when asked", async () => {
+      mockExecSuccess("");
+
+      await GitUtils.getChangedLinesByFile("base", "head", {
+        ignoreWhitespace: true,
+      });
+
+      const [, args] = mockedExecFile.mock.calls[0];
+      expect(args).toEqual(
+        expect.arrayContaining(["--ignore-all-space", "--ignore-blank-lines"]),
+      );
+      expect(args).not.toContain("--color=always");
+    });
+
+    it("should leave out lines git colours as moved", async () => {
+      mockExecSuccess(loadDiff("diff-color-moved"));
+
+      const result = await GitUtils.getChangedLinesByFile("base", "head", {
+        ignoreMoved: true,
+      });
+
+      // alpha() moved from a.ts into b.ts; only the re-indented line in a.ts
+      // and the new line after alpha() in b.ts count.
+      expect(result.get("a.ts")).toEqual([2]);
+      expect(result.get("b.ts")).toEqual([6]);
+      const [, args] = mockedExecFile.mock.calls[0];
+      expect(args).toEqual(
+        expect.arrayContaining([
+          "color.diff.new=green",
+          "color.diff.newMoved=blue",
+          "color.diff.newMovedAlternative=blue",
+          "--color=always",
+          "--color-moved=blocks",
+        ]),
+      );
+    });
+
     it("should track added files whose header pairs with /dev/null", async () => {
       mockExecSuccess(loadDiff("diff-added-file-dev-null"));
 
@@ -320,6 +668,16 @@ describe("GitUtils", () => {
       expect(result.size).toBe(1);
     });
 
+    it("should count only the lines a rename changed, under its new path", async () => {
+      mockExecSuccess(loadDiff("diff-rename"));
+
+      const result = await GitUtils.getChangedLinesByFile("base", "head");
+
+      expect(result.get("src/new-name.ts")).toEqual([7]);
+      expect(result.has("src/old-name.ts")).toBe(false);
+      expect(result.has("lib/moved.ts")).toBe(false);
+    });
+
     it("should ignore hunks that appear before any file header", async () => {
       mockExecSuccess(loadDiff("diff-orphan-hunk"));
 
@@ -348,4 +706,37 @@ describe("GitUtils", () => {
       );
     });
   });
+
+  describe("parsePatchLines", () => {
+    it("should count only added lines, skipping context and removals", () => {
+      const patch = [
+        "@@ -8,3 +8,4 @@ export function run() {",
+        " const a = 1;",
+        "-const b = 2;",
+        "+const b = 3;",
+        "+const c = 4;",
+        " const d = 5;",
+        "@@ -40 +41,2 @@",
+        " return a;",
+        "+// done",
+      ].join("\n");
+
+      expect(GitUtils.parsePatchLines(patch)).toEqual([9, 10, 42]);
+    });
+
+    it("should ignore the no-newline marker", () => {
+      const patch = [
+        "@@ -1 +1 @@",
+        "-a",
+        "\\ No newline at end of file",
+        "+b",
+      ].join("\n");
+
+      expect(GitUtils.parsePatchLines(patch)).toEqual([1]);
+    });
+
+    it("should return nothing for an empty patch", () => {
+      expect(GitUtils.parsePatchLines("")).toEqual([]);
+    });
+  });
 });
@@ -2,6 +2,7 @@ import { execFile } from "child_process";
 import { promisify } from "util";
 import * as core from "@actions/core";
 import { context } from "@actions/github";
+import { ChangedFile } from "./changeset";
 import { toErrorMessage } from "./errors";
 
 // `execFile` runs git directly without a shell, so refs are passed as an argv
@@ -9,6 +10,59 @@ import { toErrorMessage } from "./errors";
 // a ref ever contained shell metacharacters.
 const execFileAsync = promisify(execFile);
 
+/** Explicit revisions to compare, from the base-ref/head-ref inputs. */
+export interface RefInputs {
+  baseRef?: string;
+  headRef?: string;
+}
+
+/** The two revisions whose difference is the changeset. */
+export interface DiffRefs {
+  // Absent on a push that creates a branch, which has no `before` commit; the
+  // changeset is then measured against the target branch.
+  base?: string;
+  head: string;
+}
+
+// `@@ -<old>[,<count>] +<new>[,<count>] @@`; the base-side start is not
+// captured.
+const HUNK_HEADER = /^@@ -\d+(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+// With `--color-moved`, added lines git found moved from elsewhere in the diff
+// start in this colour (set through `color.diff.newMoved` and
+// `newMovedAlternative`); everything else is compared with its colour codes
+// stripped. Other added lines are pinned to NEW_COLOR so a user's
+// `color.diff.new` cannot make them look moved.
+const MOVED_COLOR = "blue";
+const NEW_COLOR = "green";
+const ESCAPE = "\u001b";
+const MOVED_LINE_PREFIX = `${ESCAPE}[34m+`;
+const COLOR_CODE = new RegExp(`${ESCAPE}\\[[0-9;]*m`, "g");
+
+/** Which added lines getChangedLinesByFile counts as changed. */
+export interface ChangedLinesOptions {
+  // Diff with `--ignore-all-space --ignore-blank-lines`, so lines that were
+  // only reformatted are not changed.
+  ignoreWhitespace?: boolean;
+  // Leave out added lines `--color-moved=blocks` finds moved from another
+  // place in the diff, including another file.
+  ignoreMoved?: boolean;
+}
+
+// Position within a hunk body: the head-side number of the next line and the
+// body lines still to come on each side.
+interface Hunk {
+  next: number;
+  oldRemaining: number;
+  newRemaining: number;
+}
+
+// Commits fetched by the first `--deepen` round; each later round doubles it.
+const INITIAL_DEEPEN = 50;
+
+// A push that creates a branch reports an all-zero `before` SHA.
+const NULL_SHA = /^0+$/;
+
 export class GitUtils {
   // The GitHub context is populated from the event payload, which is the most
   // reliable source of PR SHAs during pull_request events.
@@ -33,6 +87,64 @@ export class GitUtils {
     return GitUtils.getPullRequestSha("base", "🎯");
   }
 
+  /**
+   * Resolve the revisions to compare for the triggering event: the PR base and
+   * head on pull request events, the queue's base and head on `merge_group`,
+   * and `before`..`after` on `push`. Explicit `refs` take precedence, and are
+   * the only source of a base on other events such as `workflow_dispatch`,
+   * whose head defaults to the commit the workflow runs on. A push that
+   * creates a branch leaves the base out for the caller to fill in.
+   */
+  static getDiffRefs(refs: RefInputs = {}): DiffRefs {
+    const { eventName } = context;
+    const eventRefs = GitUtils.getEventRefs();
+    const base = refs.baseRef || eventRefs.base;
+    const head = refs.headRef || eventRefs.head || context.sha || "HEAD";
+
+    if (!base && eventName === "push") {
+      core.info(
+        "🌱 Push created the branch; comparing against the target branch",
+      );
+      return { head };
+    }
+    if (!base) {
+      throw new Error(
+        `Cannot determine the base commit of a ${eventName || "local"} run; set the base-ref input`,
+      );
+    }
+    return { base, head };
+  }
+
+  private static getEventRefs(): Partial<DiffRefs> {
+    const { eventName, payload } = context;
+
+    if (payload.pull_request) {
+      return {
+        base: GitUtils.getPullRequestBase(),
+        head: GitUtils.getPullRequestHead(),
+      };
+    }
+
+    if (eventName === "merge_group") {
+      core.info("🚂 Using merge queue base and head from GitHub context");
+      return {
+        base: payload.merge_group?.base_sha,
+        head: payload.merge_group?.head_sha,
+      };
+    }
+
+    if (eventName === "push") {
+      core.info("⬆️ Using push before and after SHAs from GitHub context");
+      const before: string | undefined = payload.before;
+      return {
+        base: before && !NULL_SHA.test(before) ? before : undefined,
+        head: payload.after,
+      };
+    }
+
+    return {};
+  }
+
   // Diffing against the merge base (three-dot `base...head`) isolates the PR's
   // own changes even when the target branch advanced since the branch point.
   // Returns null when no common ancestor is found, usually a too-shallow clone.
@@ -71,27 +183,154 @@ export class GitUtils {
     }
   }
 
+  /**
+   * Resolve `ref` to the SHA of the commit it names, or null when the clone
+   * has no such commit.
+   */
+  static async resolveCommit(ref: string): Promise<string | null> {
+    try {
+      const { stdout } = await execFileAsync("git", [
+        "rev-parse",
+        "--verify",
+        "--quiet",
+        "--end-of-options",
+        `${ref}^{commit}`,
+      ]);
+      return stdout.trim() || null;
+    } catch (error) {
+      core.debug(`Could not resolve ${ref}: ${toErrorMessage(error)}`);
+      return null;
+    }
+  }
+
+  /**
+   * Resolve the tip of `branch` on `origin` to a SHA, fetching it when the
+   * clone lacks it. A shallow clone only fetches the tip, leaving
+   * deepenToMergeBase to reach the merge base. Returns null when the branch
+   * cannot be fetched.
+   */
+  static async fetchBranch(branch: string): Promise<string | null> {
+    const local = await GitUtils.resolveCommit(`refs/remotes/origin/${branch}`);
+    if (local) return local;
+
+    try {
+      core.info(`⏬ Fetching ${branch} from origin`);
+      const shallow = await GitUtils.isShallow();
+      await execFileAsync("git", [
+        "fetch",
+        "--no-tags",
+        "--quiet",
+        ...(shallow ? ["--depth=1"] : []),
+        "--",
+        "origin",
+        `+refs/heads/${branch}:refs/remotes/origin/${branch}`,
+      ]);
+    } catch (error) {
+      core.warning(
+        `⚠️ Could not fetch ${branch} from origin: ${toErrorMessage(error)}`,
+      );
+      return null;
+    }
+    return GitUtils.resolveCommit(`refs/remotes/origin/${branch}`);
+  }
+
+  /**
+   * Fetch more history for `base` and `head` from `origin` in rounds of
+   * doubling `--deepen` steps until their merge base resolves or `limit`
+   * commits have been fetched. Returns the merge base, or null when the limit
+   * ran out, the clone is not shallow (so deepening cannot help) or a fetch
+   * failed.
+   */
+  static async deepenToMergeBase(
+    base: string,
+    head: string,
+    limit: number,
+  ): Promise<string | null> {
+    if (!(await GitUtils.isShallow())) {
+      core.debug(
+        "Clone is not shallow; deepening it cannot find the merge base",
+      );
+      return null;
+    }
+
+    let fetched = 0;
+    for (let step = INITIAL_DEEPEN; fetched < limit; step *= 2) {
+      const deepen = Math.min(step, limit - fetched);
+      core.info(`⏬ Deepening the clone by ${deepen} commits`);
+      try {
+        await execFileAsync("git", [
+          "fetch",
+          "--no-tags",
+          "--quiet",
+          `--deepen=${deepen}`,
+          "--",
+          "origin",
+          base,
+          head,
+        ]);
+      } catch (error) {
+        core.warning(
+          `⚠️ Could not deepen the clone to find the merge base: ${toErrorMessage(error)}`,
+        );
+        return null;
+      }
+      fetched += deepen;
+
+      const mergeBase = await GitUtils.getMergeBase(base, head);
+      if (mergeBase) {
+        core.info(
+          `📥 Fetched ${fetched} more commits of history to reach the merge base`,
+        );
+        return mergeBase;
+      }
+    }
+
+    core.info(
+      `📥 Fetched ${fetched} more commits of history without reaching the merge base`,
+    );
+    return null;
+  }
+
+  private static async isShallow(): Promise<boolean> {
+    try {
+      const { stdout } = await execFileAsync("git", [
+        "rev-parse",
+        "--is-shallow-repository",
+      ]);
+      return stdout.trim() === "true";
+    } catch {
+      return false;
+    }
+  }
+
+  // `-M`/`-C` detect renames and copies, so a moved file keeps its history
+  // instead of being dropped (it is neither `A` nor `M`).
   static async getChangedFiles(
     base: string,
     head: string = "HEAD",
-  ): Promise<string[]> {
+  ): Promise<ChangedFile[]> {
     try {
       core.info(`📂 Getting changed files between ${base} and ${head}`);
 
       const { stdout } = await execFileAsync("git", [
         "diff",
-        "--name-only",
-        "--diff-filter=AM",
+        "--name-status",
+        "-M",
+        "-C",
+        "--diff-filter=AMRC",
         `${base}..${head}`,
       ]);
 
-      const files = stdout
-        .split("\n")
-        .map((file) => file.trim())
-        .filter((file) => file.length > 0);
+      const files = GitUtils.parseNameStatus(stdout);
 
       core.info(`📊 Found ${files.length} changed files`);
-      files.forEach((file) => core.info(`  - ${file}`));
+      files.forEach((file) =>
+        core.info(
+          file.previousPath
+            ? `  - ${file.path} (${file.status} from ${file.previousPath})`
+            : `  - ${file.path}`,
+        ),
+      );
 
       return files;
     } catch (error) {
@@ -101,12 +340,43 @@ export class GitUtils {
     }
   }
 
+  // Each line is `<status>\t<path>`, or `<status><score>\t<old>\t<new>` for
+  // renames (R) and copies (C).
+  private static parseNameStatus(output: string): ChangedFile[] {
+    return output.split("\n").flatMap((line): ChangedFile[] => {
+      const [code = "", first, second] = line
+        .split("\t")
+        .map((field) => field.trim());
+      if (!first) return [];
+
+      switch (code.charAt(0)) {
+        case "A":
+          return [{ path: first, status: "added" }];
+        case "M":
+          return [{ path: first, status: "modified" }];
+        case "R":
+          return second
+            ? [{ path: second, status: "renamed", previousPath: first }]
+            : [];
+        case "C":
+          return second
+            ? [{ path: second, status: "copied", previousPath: first }]
+            : [];
+        default:
+          return [];
+      }
+    });
+  }
+
   // `--unified=0` keeps each hunk header to exactly the changed lines (no
-  // context), and the `-c` overrides force canonical `a/`/`b/` prefixes
-  // regardless of the user's git config so prefix stripping is deterministic.
+  // context), and `-M`/`-C` diff a renamed or copied file against its source so
+  // only the lines it actually changed count. The `-c` overrides force
+  // canonical `a/`/`b/` prefixes regardless of the user's git config so prefix
+  // stripping is deterministic.
   static async getChangedLinesByFile(
     base: string,
     head: string = "HEAD",
+    options: ChangedLinesOptions = {},
   ): Promise<Map<string, number[]>> {
     try {
       core.info(`🔎 Getting changed lines between ${base} and ${head}`);
@@ -116,13 +386,36 @@ export class GitUtils {
         "diff.noprefix=false",
         "-c",
         "diff.mnemonicPrefix=false",
+        ...(options.ignoreMoved
+          ? [
+              "-c",
+              `color.diff.new=${NEW_COLOR}`,
+              "-c",
+              `color.diff.newMoved=${MOVED_COLOR}`,
+              "-c",
+              `color.diff.newMovedAlternative=${MOVED_COLOR}`,
+            ]
+          : []),
         "diff",
         "--unified=0",
-        "--diff-filter=AM",
+        "-M",
+        "-C",
+        "--diff-filter=AMRC",
+        ...(options.ignoreWhitespace
+          ? ["--ignore-all-space", "--ignore-blank-lines"]
+          : []),
+        ...(options.ignoreMoved
+          ? [
+              "--color=always",
+              "--color-moved=blocks",
+              "--color-moved-ws=allow-indentation-change",
+              "--ws-error-highlight=none",
+            ]
+          : []),
         `${base}..${head}`,
       ]);
 
-      return GitUtils.parseChangedLines(stdout);
+      return GitUtils.parseChangedLines(stdout, options.ignoreMoved);
     } catch (error) {
       const errorMessage = `Failed to get changed lines between ${base} and ${head}`;
       core.error(`${errorMessage}: ${error}`);
@@ -131,17 +424,38 @@ export class GitUtils {
   }
 
   // Pairing `+++ ` with the preceding `--- ` line avoids mistaking an added
-  // content line that merely starts with `+++ ` for a file header.
-  private static parseChangedLines(diff: string): Map<string, number[]> {
-    const HUNK_HEADER = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/;
+  // content line that merely starts with `+++ ` for a file header, and file
+  // headers are only looked for once the current hunk's body is consumed.
+  // When `colored`, lines coloured as moved are not counted.
+  private static parseChangedLines(
+    diff: string,
+    colored = false,
+  ): Map<string, number[]> {
     const changedLines = new Map<string, number[]>();
     let currentFile: string | undefined;
+    let hunk: Hunk | undefined;
     let previousLine = "";
 
-    for (const line of diff.split("\n")) {
+    for (const rawLine of diff.split("\n")) {
+      const line = colored ? rawLine.replace(COLOR_CODE, "") : rawLine;
       const precedingLine = previousLine;
       previousLine = line;
 
+      if (hunk && GitUtils.inBody(hunk)) {
+        const added = GitUtils.readBodyLine(hunk, line);
+        if (
+          added === undefined ||
+          !currentFile ||
+          (colored && rawLine.startsWith(MOVED_LINE_PREFIX))
+        ) {
+          continue;
+        }
+        const lines = changedLines.get(currentFile) ?? [];
+        lines.push(added);
+        changedLines.set(currentFile, lines);
+        continue;
+      }
+
       if (line.startsWith("+++ ") && precedingLine.startsWith("--- ")) {
         const target = line.slice(4).trim();
         currentFile =
@@ -149,30 +463,73 @@ export class GitUtils {
         continue;
       }
 
-      if (!currentFile) continue;
+      hunk = GitUtils.parseHunkHeader(line);
+    }
 
-      const match = HUNK_HEADER.exec(line);
-      if (!match) continue;
+    return changedLines;
+  }
 
-      const start = Number(match[1]);
-      // Omitted count means 1; count 0 is a pure deletion with nothing to flag.
-      const count = match[2] === undefined ? 1 : Number(match[2]);
-      if (count === 0) continue;
+  /**
+   * Head-side line numbers a single file's patch adds, as the GitHub API
+   * returns it: hunks without file headers, with context lines around each
+   * change. Hunk bodies are walked as in `parseChangedLines`, so only `+`
+   * lines count.
+   */
+  static parsePatchLines(patch: string): number[] {
+    const lines: number[] = [];
+    let hunk: Hunk | undefined;
 
-      // Hunk start lines are 1-based; a value below 1 would mean malformed diff
-      // output, so skip it rather than emit a bogus line number.
-      if (start < 1) {
-        core.debug(`Skipping hunk with invalid start line ${start}`);
+    for (const line of patch.split("\n")) {
+      if (hunk && GitUtils.inBody(hunk)) {
+        const added = GitUtils.readBodyLine(hunk, line);
+        if (added !== undefined) lines.push(added);
         continue;
       }
+      hunk = GitUtils.parseHunkHeader(line);
+    }
 
-      const lines = changedLines.get(currentFile) ?? [];
-      for (let offset = 0; offset < count; offset++) {
-        lines.push(start + offset);
-      }
-      changedLines.set(currentFile, lines);
+    return lines;
+  }
+
+  // The hunk a header line opens, or undefined for any other line.
+  private static parseHunkHeader(line: string): Hunk | undefined {
+    const match = HUNK_HEADER.exec(line);
+    if (!match) return undefined;
+
+    // Omitted counts mean 1.
+    const oldCount = match[1] === undefined ? 1 : Number(match[1]);
+    const start = Number(match[2]);
+    const newCount = match[3] === undefined ? 1 : Number(match[3]);
+
+    // Hunk start lines are 1-based; a value below 1 would mean malformed diff
+    // output, so skip it rather than emit a bogus line number. A count of 0 is
+    // a pure deletion, which may legitimately start at line 0.
+    if (newCount > 0 && start < 1) {
+      core.debug(`Skipping hunk with invalid start line ${start}`);
+      return undefined;
     }
 
-    return changedLines;
+    return { next: start, oldRemaining: oldCount, newRemaining: newCount };
+  }
+
+  private static inBody(hunk: Hunk): boolean {
+    return hunk.oldRemaining > 0 || hunk.newRemaining > 0;
+  }
+
+  // Consume one body line, returning its head-side number when it is added.
+  // `\ No newline at end of file` markers belong to neither side.
+  private static readBodyLine(hunk: Hunk, line: string): number | undefined {
+    if (line.startsWith("+")) {
+      hunk.newRemaining--;
+      return hunk.next++;
+    }
+    if (line.startsWith("-")) {
+      hunk.oldRemaining--;
+    } else if (line.startsWith(" ")) {
+      hunk.oldRemaining--;
+      hunk.newRemaining--;
+      hunk.next++;
+    }
+    return undefined;
   }
 }
@@ -0,0 +1,102 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { IgnoreFile } from "./ignoreFile";
+
+describe("IgnoreFile", () => {
+  describe("parse", () => {
+    it("should skip comments and blank lines", () => {
+      const ignoreFile = IgnoreFile.parse(
+        "# generated code\n\n   \nsrc/generated/\n",
+      );
+
+      expect(ignoreFile.ruleCount).toBe(1);
+      expect(ignoreFile.isIgnored("src/generated/api.ts")).toBe(true);
+      expect(ignoreFile.isIgnored("src/api.ts")).toBe(false);
+    });
+
+    it("should match patterns without a slash at any depth", () => {
+      const ignoreFile = IgnoreFile.parse("*.pb.go\nvendor\n");
+
+      expect(ignoreFile.isIgnored("api.pb.go")).toBe(true);
+      expect(ignoreFile.isIgnored("internal/api/v1/api.pb.go")).toBe(true);
+      expect(ignoreFile.isIgnored("third_party/vendor/lib.go")).toBe(true);
+      expect(ignoreFile.isIgnored("internal/api/v1/api.go")).toBe(false);
+    });
+
+    it("should anchor patterns containing a slash to the root", () => {
+      const ignoreFile = IgnoreFile.parse("/db/migrations\nsrc/*.gen.ts\n");
+
+      expect(ignoreFile.isIgnored("db/migrations/001_init.ts")).toBe(true);
+      expect(ignoreFile.isIgnored("app/db/migrations/001_init.ts")).toBe(false);
+      expect(ignoreFile.isIgnored("src/schema.gen.ts")).toBe(true);
+      expect(ignoreFile.isIgnored("src/nested/schema.gen.ts")).toBe(false);
+    });
+
+    it("should apply directory rules only to directories", () => {
+      const ignoreFile = IgnoreFile.parse("build/\n");
+
+      expect(ignoreFile.isIgnored("packages/app/build/index.js")).toBe(true);
+      expect(ignoreFile.isIgnored("scripts/build")).toBe(false);
+    });
+
+    it("should let a later negation re-include a file", () => {
+      const ignoreFile = IgnoreFile.parse(
+        "src/legacy/*.ts\n!src/legacy/keep.ts\n",
+      );
+
+      expect(ignoreFile.isIgnored("src/legacy/old.ts")).toBe(true);
+      expect(ignoreFile.isIgnored("src/legacy/keep.ts")).toBe(false);
+    });
+
+    it("should not re-include a file inside an excluded directory", () => {
+      const ignoreFile = IgnoreFile.parse("src/legacy/\n!src/legacy/keep.ts\n");
+
+      expect(ignoreFile.isIgnored("src/legacy/keep.ts")).toBe(true);
+    });
+
+    it("should match ** across directories and dot files", () => {
+      const ignoreFile = IgnoreFile.parse("**/__snapshots__/**\n.storybook\n");
+
+      expect(ignoreFile.isIgnored("src/ui/__snapshots__/button.snap")).toBe(
+        true,
+      );
+      expect(ignoreFile.isIgnored(".storybook/main.ts")).toBe(true);
+    });
+
+    it("should treat escaped # and ! as literal characters", () => {
+      const ignoreFile = IgnoreFile.parse("\\#notes.ts\n\\!important.ts\n");
+
+      expect(ignoreFile.ruleCount).toBe(2);
+      expect(ignoreFile.isIgnored("#notes.ts")).toBe(true);
+      expect(ignoreFile.isIgnored("!important.ts")).toBe(true);
+    });
+  });
+
+  describe("load", () => {
+    let workspace: string;
+
+    beforeEach(() => {
+      workspace = fs.mkdtempSync(path.join(os.tmpdir(), "ignore-file-"));
+    });
+
+    afterEach(() => {
+      fs.rmSync(workspace, { recursive: true, force: true });
+    });
+
+    it("should read .coveragemapignore from the workspace root", () => {
+      fs.writeFileSync(
+        path.join(workspace, ".coveragemapignore"),
+        "generated/\r\n",
+      );
+
+      const ignoreFile = IgnoreFile.load(workspace);
+
+      expect(ignoreFile?.isIgnored("generated/client.ts")).toBe(true);
+    });
+
+    it("should return undefined when the repository has no ignore file", () => {
+      expect(IgnoreFile.load(workspace)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import * as fs from "fs";
+import * as path from "path";
+import picomatch from "picomatch";
+
+/** Name of the repository-root file listing paths to leave out of analysis. */
+export const IGNORE_FILE_NAME = ".coveragemapignore";
+
+interface IgnoreRule {
+  matches: (filePath: string) => boolean;
+  // `!pattern` re-includes what an earlier rule excluded.
+  negated: boolean;
+  // `pattern/` only matches directories.
+  directoryOnly: boolean;
+}
+
+/**
+ * Rules in gitignore syntax: `#` comments, `!` negation, trailing `/` for
+ * directories, and patterns anchored to the root when they contain a `/` other
+ * than a trailing one. The last matching rule wins, and as in git a file
+ * inside an excluded directory cannot be re-included.
+ */
+export class IgnoreFile {
+  private constructor(private readonly rules: IgnoreRule[]) {}
+
+  static parse(content: string): IgnoreFile {
+    return new IgnoreFile(
+      content.split(/\r?\n/).flatMap((line) => {
+        const rule = parseRule(line);
+        return rule ? [rule] : [];
+      }),
+    );
+  }
+
+  /**
+   * Read `.coveragemapignore` from the root of `workspace`, returning
+   * undefined when the repository has none.
+   */
+  static load(workspace: string = process.cwd()): IgnoreFile | undefined {
+    let content: string;
+    try {
+      content = fs.readFileSync(path.join(workspace, IGNORE_FILE_NAME), "utf8");
+    } catch {
+      return undefined;
+    }
+    return IgnoreFile.parse(content);
+  }
+
+  get ruleCount(): number {
+    return this.rules.length;
+  }
+
+  /** Whether `filePath`, relative to the repository root, is excluded. */
+  isIgnored(filePath: string): boolean {
+    const segments = filePath.split("/");
+    for (let depth = 1; depth < segments.length; depth++) {
+      if (this.matchRules(segments.slice(0, depth).join("/"), true)) {
+        return true;
+      }
+    }
+    return this.matchRules(filePath, false);
+  }
+
+  private matchRules(filePath: string, isDirectory: boolean): boolean {
+    let ignored = false;
+    for (const rule of this.rules) {
+      if (rule.directoryOnly && !isDirectory) continue;
+      if (rule.matches(filePath)) ignored = !rule.negated;
+    }
+    return ignored;
+  }
+}
+
+function parseRule(line: string): IgnoreRule | undefined {
+  // Trailing spaces are dropped unless escaped with a backslash.
+  let pattern = line.replace(/(?<!\\)\s+$/, "");
+  if (pattern === "" || pattern.startsWith("#")) return undefined;
+
+  const negated = pattern.startsWith("!");
+  if (negated) pattern = pattern.slice(1);
+  // `\#` and `\!` stand for a literal leading `#` or `!`.
+  if (pattern.startsWith("\\#") || pattern.startsWith("\\!")) {
+    pattern = pattern.slice(1);
+  }
+
+  const directoryOnly = pattern.endsWith("/");
+  if (directoryOnly) pattern = pattern.replace(/\/+$/, "");
+
+  const anchored = pattern.includes("/");
+  pattern = pattern.replace(/^\//, "");
+  if (pattern === "") return undefined;
+
+  return {
+    matches: picomatch(anchored ? pattern : `**/${pattern}`, { dot: true }),
+    negated,
+    directoryOnly,
+  };
+}
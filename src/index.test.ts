@@ -1,4 +1,5 @@
 import * as core from "@actions/core";
+import * as github from "@actions/github";
 import { run } from "./index";
 import { ChangesetService } from "./changesetService";
 import { LcovParser } from "./lcov";
@@ -96,7 +97,7 @@ describe("run", () => {
 
     mockedChangesetService.detectCodeChanges.mockResolvedValue(mockChangeset);
     mockedChangesetService.outputChangeset.mockImplementation();
-    mockedLcovParser.parseFile.mockReturnValue(mockLcovReport);
+    mockedLcovParser.parseFiles.mockResolvedValue(mockLcovReport);
     mockedCoverageAnalyzer.analyze.mockReturnValue(mockAnalysis);
     mockedCoverageAnalyzer.format.mockReturnValue("Analysis formatted");
     mockedCoverageGating.evaluate.mockReturnValue(mockGatingResult);
@@ -170,7 +171,7 @@ describe("run", () => {
   });
 
   it("should handle non-Error exceptions", async () => {
-    mockedLcovParser.parseFile.mockImplementation(() => {
+    mockedLcovParser.parseFiles.mockImplementation(() => {
       throw "String error";
     });
 
@@ -179,6 +180,51 @@ describe("run", () => {
     expect(mockedCore.setFailed).toHaveBeenCalledWith("String error");
   });
 
+  describe("event handling", () => {
+    const originalPayload = github.context.payload;
+
+    afterEach(() => {
+      github.context.payload = originalPayload;
+    });
+
+    it("should post the PR comment on pull request events", async () => {
+      github.context.payload = { pull_request: { number: 7 } };
+
+      await run();
+
+      expect(mockedPrCommentService).toHaveBeenCalled();
+      expect(mockedCore.summary.addRaw).not.toHaveBeenCalled();
+    });
+
+    it("should write the job summary instead outside pull requests", async () => {
+      github.context.payload = { before: "a", after: "b" };
+      (mockedCore.summary.addRaw as unknown as jest.Mock).mockReturnValue(
+        mockedCore.summary,
+      );
+      (mockedCore.summary.addEOL as unknown as jest.Mock).mockReturnValue(
+        mockedCore.summary,
+      );
+
+      await run();
+
+      expect(mockedPrCommentService).not.toHaveBeenCalled();
+      expect(mockedCore.summary.addRaw).toHaveBeenCalled();
+      expect(mockedChangesetService.detectCodeChanges).toHaveBeenCalledWith(
+        "main",
+        undefined,
+        undefined,
+        undefined,
+        { baseRef: undefined, headRef: undefined },
+        {
+          source: "auto",
+          githubToken: "test-token",
+          deepenLimit: 1000,
+          changedLines: { ignoreWhitespace: false, ignoreMoved: false },
+        },
+      );
+    });
+  });
+
   it("should skip the PR comment when pr-comment is disabled", async () => {
     mockedCore.getInput.mockImplementation((name: string) => {
       if (name === "github-token") return "test-token";
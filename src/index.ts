@@ -3,11 +3,14 @@ import { getInputs, printInputs } from "./inputs";
 import {
   detectChangeset,
   parseLcovReport,
+  verifySourceChecksums,
+  applyExclusionPragmas,
   analyzeCoverageAndGating,
   generateAndUploadTreemap,
   postPrComment,
   writeJobSummary,
   postCheckAnnotations,
+  isPullRequestEvent,
 } from "./pipeline";
 import { toErrorMessage } from "./errors";
 
@@ -20,8 +23,38 @@ export async function run(): Promise<void> {
       inputs.targetBranch,
       inputs.sourceCodePattern,
       inputs.testCodePattern,
+      { baseRef: inputs.baseRef, headRef: inputs.headRef },
+      {
+        source: inputs.changesetSource,
+        githubToken: inputs.githubToken,
+        deepenLimit: inputs.deepenLimit,
+        changedLines: {
+          ignoreWhitespace: inputs.ignoreWhitespaceChanges,
+          ignoreMoved: inputs.ignoreMovedCode,
+        },
+      },
     );
-    const lcovReport = await parseLcovReport(inputs.lcovFile);
+    const parsedReport = await parseLcovReport(
+      inputs.lcovFiles,
+      inputs.coverageFormat,
+      {
+        sourceRoots: inputs.jacocoSourceRoots,
+        pathMappings: inputs.pathMappings,
+        // Records are only needed for the files the analysis looks at.
+        ...(inputs.coverageDetail === "changed" && {
+          detailPaths: changeset.files.map((file) => file.path),
+        }),
+      },
+      inputs.lcovValidation,
+    );
+    await verifySourceChecksums(
+      changeset,
+      parsedReport,
+      inputs.checksumMismatch,
+    );
+    const lcovReport = inputs.exclusionPragmas
+      ? await applyExclusionPragmas(changeset, parsedReport)
+      : parsedReport;
     const threshold = parseFloat(inputs.coverageThreshold);
 
     const { analysis, gatingResult } = await analyzeCoverageAndGating(
@@ -29,6 +62,9 @@ export async function run(): Promise<void> {
       lcovReport,
       inputs.gateMode,
       threshold,
+      inputs.mcdcThreshold !== undefined
+        ? parseFloat(inputs.mcdcThreshold)
+        : undefined,
     );
 
     const treemapArtifact = await generateAndUploadTreemap(
@@ -47,7 +83,8 @@ export async function run(): Promise<void> {
       inputs.label,
     );
 
-    if (inputs.prComment) {
+    const pullRequest = isPullRequestEvent();
+    if (inputs.prComment && pullRequest) {
       await postPrComment(
         analysis,
         lcovReport,
@@ -59,7 +96,14 @@ export async function run(): Promise<void> {
       );
     }
 
-    if (inputs.jobSummary) {
+    // Outside a pull request the comment has nowhere to go, so the report
+    // lands in the job summary instead.
+    if (inputs.prComment && !pullRequest) {
+      core.info(
+        "⏭️ Not a pull request event; writing the report to the job summary instead of a PR comment",
+      );
+    }
+    if (inputs.jobSummary || (inputs.prComment && !pullRequest)) {
       await writeJobSummary(
         analysis,
         lcovReport,
@@ -25,10 +25,21 @@ describe("getInputs", () => {
     const result = getInputs();
 
     expect(result).toEqual({
-      lcovFile: "./foo/bar.info",
+      lcovFiles: ["./foo/bar.info"],
+      coverageFormat: "auto",
+      jacocoSourceRoots: ["src/main/java", "src/main/kotlin"],
+      pathMappings: [],
+      coverageDetail: "all",
+      exclusionPragmas: false,
+      lcovValidation: "lenient",
+      checksumMismatch: "warn",
       coverageThreshold: "85",
       gateMode: "threshold",
       targetBranch: "baz",
+      changesetSource: "auto",
+      deepenLimit: 1000,
+      ignoreWhitespaceChanges: false,
+      ignoreMovedCode: false,
       githubToken: "test-token",
       prComment: true,
       jobSummary: false,
@@ -56,10 +67,21 @@ describe("getInputs", () => {
     const result = getInputs();
 
     expect(result).toEqual({
-      lcovFile: "coverage/lcov.info",
+      lcovFiles: ["coverage/lcov.info"],
+      coverageFormat: "auto",
+      jacocoSourceRoots: ["src/main/java", "src/main/kotlin"],
+      pathMappings: [],
+      coverageDetail: "all",
+      exclusionPragmas: false,
+      lcovValidation: "lenient",
+      checksumMismatch: "warn",
       coverageThreshold: "80",
       gateMode: "threshold",
       targetBranch: "main",
+      changesetSource: "auto",
+      deepenLimit: 1000,
+      ignoreWhitespaceChanges: false,
+      ignoreMovedCode: false,
       githubToken: "test-token",
       prComment: true,
       jobSummary: false,
@@ -82,10 +104,21 @@ describe("getInputs", () => {
     const result = getInputs();
 
     expect(result).toEqual({
-      lcovFile: "./test/lcov.info",
+      lcovFiles: ["./test/lcov.info"],
+      coverageFormat: "auto",
+      jacocoSourceRoots: ["src/main/java", "src/main/kotlin"],
+      pathMappings: [],
+      coverageDetail: "all",
+      exclusionPragmas: false,
+      lcovValidation: "lenient",
+      checksumMismatch: "warn",
       coverageThreshold: "80",
       gateMode: "threshold",
       targetBranch: "develop",
+      changesetSource: "auto",
+      deepenLimit: 1000,
+      ignoreWhitespaceChanges: false,
+      ignoreMovedCode: false,
       githubToken: "test-token",
       prComment: true,
       jobSummary: false,
@@ -108,10 +141,21 @@ describe("getInputs", () => {
     const result = getInputs();
 
     expect(result).toEqual({
-      lcovFile: "coverage/lcov.info",
+      lcovFiles: ["coverage/lcov.info"],
+      coverageFormat: "auto",
+      jacocoSourceRoots: ["src/main/java", "src/main/kotlin"],
+      pathMappings: [],
+      coverageDetail: "all",
+      exclusionPragmas: false,
+      lcovValidation: "lenient",
+      checksumMismatch: "warn",
       coverageThreshold: "80",
       gateMode: "threshold",
       targetBranch: "main",
+      changesetSource: "auto",
+      deepenLimit: 1000,
+      ignoreWhitespaceChanges: false,
+      ignoreMovedCode: false,
       githubToken: "test-token",
       prComment: true,
       jobSummary: false,
@@ -134,10 +178,21 @@ describe("getInputs", () => {
     const result = getInputs();
 
     expect(result).toEqual({
-      lcovFile: "coverage/lcov.info",
+      lcovFiles: ["coverage/lcov.info"],
+      coverageFormat: "auto",
+      jacocoSourceRoots: ["src/main/java", "src/main/kotlin"],
+      pathMappings: [],
+      coverageDetail: "all",
+      exclusionPragmas: false,
+      lcovValidation: "lenient",
+      checksumMismatch: "warn",
       coverageThreshold: "90",
       gateMode: "threshold",
       targetBranch: "develop",
+      changesetSource: "auto",
+      deepenLimit: 1000,
+      ignoreWhitespaceChanges: false,
+      ignoreMovedCode: false,
       githubToken: "test-token",
       prComment: true,
       jobSummary: false,
@@ -158,10 +213,21 @@ describe("getInputs", () => {
     const result = getInputs();
 
     expect(result).toEqual({
-      lcovFile: "coverage/lcov.info",
+      lcovFiles: ["coverage/lcov.info"],
+      coverageFormat: "auto",
+      jacocoSourceRoots: ["src/main/java", "src/main/kotlin"],
+      pathMappings: [],
+      coverageDetail: "all",
+      exclusionPragmas: false,
+      lcovValidation: "lenient",
+      checksumMismatch: "warn",
       coverageThreshold: "80",
       gateMode: "threshold",
       targetBranch: "main",
+      changesetSource: "auto",
+      deepenLimit: 1000,
+      ignoreWhitespaceChanges: false,
+      ignoreMovedCode: false,
       githubToken: "test-token",
       prComment: true,
       jobSummary: false,
@@ -182,10 +248,21 @@ describe("getInputs", () => {
     const result = getInputs();
 
     expect(result).toEqual({
-      lcovFile: "coverage/lcov.info",
+      lcovFiles: ["coverage/lcov.info"],
+      coverageFormat: "auto",
+      jacocoSourceRoots: ["src/main/java", "src/main/kotlin"],
+      pathMappings: [],
+      coverageDetail: "all",
+      exclusionPragmas: false,
+      lcovValidation: "lenient",
+      checksumMismatch: "warn",
       coverageThreshold: "80",
       gateMode: "threshold",
       targetBranch: "main",
+      changesetSource: "auto",
+      deepenLimit: 1000,
+      ignoreWhitespaceChanges: false,
+      ignoreMovedCode: false,
       githubToken: "test-token",
       prComment: true,
       jobSummary: false,
@@ -205,6 +282,16 @@ describe("getInputs", () => {
     expect(getInputs().gateMode).toBe("baseline");
   });
 
+  it("should accept the patch gate-mode", () => {
+    mockedCore.getInput.mockImplementation((name: string) => {
+      if (name === "github-token") return "test-token";
+      if (name === "gate-mode") return "patch";
+      return "";
+    });
+
+    expect(getInputs().gateMode).toBe("patch");
+  });
+
   it("should normalize gate-mode casing and surrounding whitespace", () => {
     mockedCore.getInput.mockImplementation((name: string) => {
       if (name === "github-token") return "test-token";
@@ -215,6 +302,182 @@ describe("getInputs", () => {
     expect(getInputs().gateMode).toBe("none");
   });
 
+  it("should parse an explicit coverage-format", () => {
+    mockedCore.getInput.mockImplementation((name: string) => {
+      if (name === "github-token") return "test-token";
+      if (name === "coverage-format") return "Cobertura";
+      return "";
+    });
+
+    expect(getInputs().coverageFormat).toBe("cobertura");
+  });
+
+  it("should split jacoco-source-roots into trimmed roots", () => {
+    mockedCore.getInput.mockImplementation((name: string) => {
+      if (name === "github-token") return "test-token";
+      if (name === "jacoco-source-roots")
+        return " app/src/main/java , lib/src ,";
+      return "";
+    });
+
+    expect(getInputs().jacocoSourceRoots).toEqual([
+      "app/src/main/java",
+      "lib/src",
+    ]);
+  });
+
+  it("should split lcov-file into paths and globs by line or comma", () => {
+    mockedCore.getInput.mockImplementation((name: string) => {
+      if (name === "github-token") return "test-token";
+      if (name === "lcov-file")
+        return "packages/*/coverage/lcov.info\ncoverage/{unit,integration}/lcov.info, extra.info\n";
+      return "";
+    });
+
+    expect(getInputs().lcovFiles).toEqual([
+      "packages/*/coverage/lcov.info",
+      "coverage/{unit,integration}/lcov.info",
+      "extra.info",
+    ]);
+  });
+
+  it("should read one path mapping per line", () => {
+    mockedCore.getInput.mockImplementation((name: string) => {
+      if (name === "github-token") return "test-token";
+      if (name === "path-mappings")
+        return "packages/api/=>\n\n  regex:^dist/(a|b),x/(.*)\\.js$=>src/$2.ts  \n";
+      return "";
+    });
+
+    expect(getInputs().pathMappings).toEqual([
+      "packages/api/=>",
+      "regex:^dist/(a|b),x/(.*)\\.js$=>src/$2.ts",
+    ]);
+  });
+
+  it("should parse coverage-detail", () => {
+    mockedCore.getInput.mockImplementation((name: string) => {
+      if (name === "github-token") return "test-token";
+      if (name === "coverage-detail") return "changed";
+      return "";
+    });
+
+    expect(getInputs().coverageDetail).toBe("changed");
+  });
+
+  it("should parse base-ref and head-ref", () => {
+    mockedCore.getInput.mockImplementation((name: string) => {
+      if (name === "github-token") return "test-token";
+      if (name === "base-ref") return "v1.0.0";
+      if (name === "head-ref") return "release";
+      return "";
+    });
+
+    expect(getInputs()).toMatchObject({
+      baseRef: "v1.0.0",
+      headRef: "release",
+    });
+  });
+
+  it("should parse exclusion-pragmas", () => {
+    mockedCore.getInput.mockImplementation((name: string) => {
+      if (name === "github-token") return "test-token";
+      if (name === "exclusion-pragmas") return "true";
+      return "";
+    });
+
+    expect(getInputs().exclusionPragmas).toBe(true);
+  });
+
+  it("should parse checksum-mismatch", () => {
+    mockedCore.getInput.mockImplementation((name: string) => {
+      if (name === "github-token") return "test-token";
+      if (name === "checksum-mismatch") return "fail";
+      return "";
+    });
+
+    expect(getInputs().checksumMismatch).toBe("fail");
+  });
+
+  it("should parse changeset-source", () => {
+    mockedCore.getInput.mockImplementation((name: string) => {
+      if (name === "github-token") return "test-token";
+      if (name === "changeset-source") return "api";
+      return "";
+    });
+
+    expect(getInputs().changesetSource).toBe("api");
+  });
+
+  it("should reject changeset-source api with explicit refs", () => {
+    mockedCore.getInput.mockImplementation((name: string) => {
+      if (name === "github-token") return "test-token";
+      if (name === "changeset-source") return "api";
+      if (name === "head-ref") return "release";
+      return "";
+    });
+
+    expect(() => getInputs()).toThrow(
+      "changeset-source api reads the pull request's files and cannot compare base-ref or head-ref",
+    );
+  });
+
+  it("should parse deepen-limit", () => {
+    mockedCore.getInput.mockImplementation((name: string) => {
+      if (name === "github-token") return "test-token";
+      if (name === "deepen-limit") return "0";
+      return "";
+    });
+
+    expect(getInputs().deepenLimit).toBe(0);
+  });
+
+  it("should reject a deepen-limit that is not a whole number", () => {
+    mockedCore.getInput.mockImplementation((name: string) => {
+      if (name === "github-token") return "test-token";
+      if (name === "deepen-limit") return "-5";
+      return "";
+    });
+
+    expect(() => getInputs()).toThrow('Invalid deepen-limit "-5"');
+  });
+
+  it("should parse ignore-whitespace-changes and ignore-moved-code", () => {
+    mockedCore.getInput.mockImplementation((name: string) => {
+      if (name === "github-token") return "test-token";
+      if (name === "ignore-whitespace-changes") return "true";
+      if (name === "ignore-moved-code") return "true";
+      return "";
+    });
+
+    expect(getInputs()).toMatchObject({
+      ignoreWhitespaceChanges: true,
+      ignoreMovedCode: true,
+    });
+  });
+
+  it("should parse lcov-validation", () => {
+    mockedCore.getInput.mockImplementation((name: string) => {
+      if (name === "github-token") return "test-token";
+      if (name === "lcov-validation") return "Strict";
+      return "";
+    });
+
+    expect(getInputs().lcovValidation).toBe("strict");
+  });
+
+  it("should throw on an invalid coverage-format", () => {
+    mockedCore.getInput.mockImplementation((name: string) => {
+      if (name === "github-token") return "test-token";
+      if (name === "coverage-format") return "clover";
+      return "";
+    });
+
+    expect(() => getInputs()).toThrow(
+      'Invalid coverage-format "clover". Expected one of: auto, lcov, cobertura, jacoco, istanbul, go.',
+    );
+  });
+
   it("should default pr-comment on and job-summary off", () => {
     mockedCore.getInput.mockImplementation((name: string) => {
       if (name === "github-token") return "test-token";
@@ -261,7 +524,7 @@ describe("getInputs", () => {
     });
 
     expect(() => getInputs()).toThrow(
-      'Invalid gate-mode "bogus". Expected one of: threshold, baseline, none.',
+      'Invalid gate-mode "bogus". Expected one of: threshold, baseline, patch, none.',
     );
   });
 });
@@ -273,10 +536,21 @@ describe("printInputs", () => {
 
   it("should print all inputs", () => {
     const inputs = {
-      lcovFile: "coverage/lcov.info",
+      lcovFiles: ["coverage/lcov.info"],
+      coverageFormat: "lcov" as const,
+      jacocoSourceRoots: ["src/main/java"],
+      pathMappings: [],
+      coverageDetail: "all" as const,
+      exclusionPragmas: false,
+      lcovValidation: "lenient" as const,
+      checksumMismatch: "warn" as const,
       coverageThreshold: "80",
       gateMode: "threshold" as const,
       targetBranch: "main",
+      changesetSource: "auto" as const,
+      deepenLimit: 1000,
+      ignoreWhitespaceChanges: false,
+      ignoreMovedCode: false,
       githubToken: "test-token",
       prComment: true,
       jobSummary: false,
@@ -288,8 +562,9 @@ describe("printInputs", () => {
     printInputs(inputs);
 
     expect(mockedCore.info).toHaveBeenCalledWith(
-      "📁 LCOV file: coverage/lcov.info",
+      "📁 Coverage files: coverage/lcov.info",
     );
+    expect(mockedCore.info).toHaveBeenCalledWith("📄 Coverage format: lcov");
     expect(mockedCore.info).toHaveBeenCalledWith("📊 Coverage threshold: 80%");
     expect(mockedCore.info).toHaveBeenCalledWith("🚦 Gate mode: threshold");
     expect(mockedCore.info).toHaveBeenCalledWith("🌿 Target branch: main");
@@ -307,10 +582,21 @@ describe("printInputs", () => {
 
   it("should print minimal inputs without optional fields", () => {
     const inputs = {
-      lcovFile: "coverage/lcov.info",
+      lcovFiles: ["coverage/lcov.info"],
+      coverageFormat: "lcov" as const,
+      jacocoSourceRoots: ["src/main/java"],
+      pathMappings: [],
+      coverageDetail: "all" as const,
+      exclusionPragmas: false,
+      lcovValidation: "lenient" as const,
+      checksumMismatch: "warn" as const,
       coverageThreshold: "80",
       gateMode: "threshold" as const,
       targetBranch: "main",
+      changesetSource: "auto" as const,
+      deepenLimit: 1000,
+      ignoreWhitespaceChanges: false,
+      ignoreMovedCode: false,
       githubToken: "test-token",
       prComment: true,
       jobSummary: false,
@@ -319,7 +605,7 @@ describe("printInputs", () => {
     printInputs(inputs);
 
     expect(mockedCore.info).toHaveBeenCalledWith(
-      "📁 LCOV file: coverage/lcov.info",
+      "📁 Coverage files: coverage/lcov.info",
     );
     expect(mockedCore.info).toHaveBeenCalledWith("📊 Coverage threshold: 80%");
     expect(mockedCore.info).toHaveBeenCalledWith("🌿 Target branch: main");
@@ -337,10 +623,21 @@ describe("printInputs", () => {
 
   it("should handle missing github token", () => {
     const inputs = {
-      lcovFile: "coverage/lcov.info",
+      lcovFiles: ["coverage/lcov.info"],
+      coverageFormat: "lcov" as const,
+      jacocoSourceRoots: ["src/main/java"],
+      pathMappings: [],
+      coverageDetail: "all" as const,
+      exclusionPragmas: false,
+      lcovValidation: "lenient" as const,
+      checksumMismatch: "warn" as const,
       coverageThreshold: "80",
       gateMode: "threshold" as const,
       targetBranch: "main",
+      changesetSource: "auto" as const,
+      deepenLimit: 1000,
+      ignoreWhitespaceChanges: false,
+      ignoreMovedCode: false,
       githubToken: "",
       prComment: true,
       jobSummary: false,
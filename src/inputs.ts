@@ -1,13 +1,49 @@
 import * as core from "@actions/core";
 
-export const GATE_MODES = ["threshold", "baseline", "none"] as const;
+export const GATE_MODES = ["threshold", "baseline", "patch", "none"] as const;
 export type GateMode = (typeof GATE_MODES)[number];
 
+export const COVERAGE_FORMATS = [
+  "auto",
+  "lcov",
+  "cobertura",
+  "jacoco",
+  "istanbul",
+  "go",
+] as const;
+export type CoverageFormat = (typeof COVERAGE_FORMATS)[number];
+
+export const COVERAGE_DETAILS = ["all", "changed"] as const;
+export type CoverageDetail = (typeof COVERAGE_DETAILS)[number];
+
+export const LCOV_VALIDATIONS = ["lenient", "strict"] as const;
+export type LcovValidation = (typeof LCOV_VALIDATIONS)[number];
+
+export const CHECKSUM_MISMATCH_ACTIONS = ["warn", "fail", "ignore"] as const;
+export type ChecksumMismatchAction = (typeof CHECKSUM_MISMATCH_ACTIONS)[number];
+
+export const CHANGESET_SOURCES = ["auto", "git", "api"] as const;
+export type ChangesetSource = (typeof CHANGESET_SOURCES)[number];
+
 export interface ActionInputs {
-  lcovFile: string;
+  lcovFiles: string[];
+  coverageFormat: CoverageFormat;
+  jacocoSourceRoots: string[];
+  pathMappings: string[];
+  coverageDetail: CoverageDetail;
+  exclusionPragmas: boolean;
+  lcovValidation: LcovValidation;
+  checksumMismatch: ChecksumMismatchAction;
   coverageThreshold: string;
+  mcdcThreshold?: string;
   gateMode: GateMode;
   targetBranch: string;
+  baseRef?: string;
+  headRef?: string;
+  changesetSource: ChangesetSource;
+  deepenLimit: number;
+  ignoreWhitespaceChanges: boolean;
+  ignoreMovedCode: boolean;
   githubToken: string;
   prComment: boolean;
   jobSummary: boolean;
@@ -23,6 +59,15 @@ function optionalInput(name: string): string | undefined {
   return core.getInput(name) || undefined;
 }
 
+// Entries may be given one per line or comma-separated. Commas inside glob
+// braces (`{unit,integration}`) belong to the pattern and do not split it.
+function parseListInput(raw: string): string[] {
+  return raw
+    .split(/\r?\n|,(?![^{]*\})/)
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+}
+
 const TRUE_VALUES = ["true", "True", "TRUE"];
 const FALSE_VALUES = ["false", "False", "FALSE"];
 
@@ -45,21 +90,94 @@ function parseBooleanInput(name: string, defaultValue: boolean): boolean {
   );
 }
 
-function parseGateMode(): GateMode {
-  const raw = (core.getInput("gate-mode") || "threshold").trim().toLowerCase();
-  if (!GATE_MODES.includes(raw as GateMode)) {
+// Reads a case-insensitive input that must be one of a fixed set of choices.
+function parseChoiceInput<T extends string>(
+  name: string,
+  choices: readonly T[],
+  defaultValue: T,
+): T {
+  const raw = (core.getInput(name) || defaultValue).trim().toLowerCase();
+  if (!choices.includes(raw as T)) {
     throw new Error(
-      `Invalid gate-mode "${raw}". Expected one of: ${GATE_MODES.join(", ")}.`,
+      `Invalid ${name} "${raw}". Expected one of: ${choices.join(", ")}.`,
     );
   }
-  return raw as GateMode;
+  return raw as T;
+}
+
+// Reads a whole number of at least 0, such as a count or a limit.
+function parseCountInput(name: string, defaultValue: number): number {
+  const raw = core.getInput(name).trim();
+  if (raw === "") {
+    return defaultValue;
+  }
+  if (!/^\d+$/.test(raw)) {
+    throw new Error(
+      `Invalid ${name} "${raw}". Expected a non-negative whole number.`,
+    );
+  }
+  return Number(raw);
 }
 
 export function getInputs(): ActionInputs {
-  const lcovFile = core.getInput("lcov-file") || "coverage/lcov.info";
+  const lcovFiles = parseListInput(
+    core.getInput("lcov-file") || "coverage/lcov.info",
+  );
+  const coverageFormat = parseChoiceInput(
+    "coverage-format",
+    COVERAGE_FORMATS,
+    "auto",
+  );
+  const jacocoSourceRoots = parseListInput(
+    core.getInput("jacoco-source-roots") || "src/main/java,src/main/kotlin",
+  );
+  // One rule per line: regex rules may legitimately contain commas.
+  const pathMappings = core
+    .getInput("path-mappings")
+    .split(/\r?\n/)
+    .map((rule) => rule.trim())
+    .filter((rule) => rule.length > 0);
+  const coverageDetail = parseChoiceInput(
+    "coverage-detail",
+    COVERAGE_DETAILS,
+    "all",
+  );
+  const exclusionPragmas = parseBooleanInput("exclusion-pragmas", false);
+  const lcovValidation = parseChoiceInput(
+    "lcov-validation",
+    LCOV_VALIDATIONS,
+    "lenient",
+  );
+  const checksumMismatch = parseChoiceInput(
+    "checksum-mismatch",
+    CHECKSUM_MISMATCH_ACTIONS,
+    "warn",
+  );
   const coverageThreshold = core.getInput("coverage-threshold") || "80";
-  const gateMode = parseGateMode();
+  const mcdcThreshold = optionalInput("mcdc-threshold");
+  const gateMode = parseChoiceInput("gate-mode", GATE_MODES, "threshold");
   const targetBranch = core.getInput("target-branch") || "main";
+  const baseRef = optionalInput("base-ref");
+  const headRef = optionalInput("head-ref");
+  const changesetSource = parseChoiceInput(
+    "changeset-source",
+    CHANGESET_SOURCES,
+    "auto",
+  );
+  // The API lists the pull request's own files, so it has no way to compare
+  // other revisions.
+  if (changesetSource === "api" && (baseRef || headRef)) {
+    throw new Error(
+      "changeset-source api reads the pull request's files and cannot compare base-ref or head-ref; " +
+        "use changeset-source git or auto instead.",
+    );
+  }
+  const deepenLimit = parseCountInput("deepen-limit", 1000);
+  const ignoreWhitespaceChanges = parseBooleanInput(
+    "ignore-whitespace-changes",
+    false,
+  );
+  const ignoreMovedCode = parseBooleanInput("ignore-moved-code", false);
   const githubToken = core.getInput("github-token", { required: true });
   const prComment = parseBooleanInput("pr-comment", true);
   const jobSummary = parseBooleanInput("job-summary", false);
@@ -71,10 +189,24 @@ export function getInputs(): ActionInputs {
   const treemapTitle = optionalInput("treemap-title");
 
   return {
-    lcovFile,
+    lcovFiles,
+    coverageFormat,
+    jacocoSourceRoots,
+    pathMappings,
+    coverageDetail,
+    exclusionPragmas,
+    lcovValidation,
+    checksumMismatch,
     coverageThreshold,
+    mcdcThreshold,
     gateMode,
     targetBranch,
+    baseRef,
+    headRef,
+    changesetSource,
+    deepenLimit,
+    ignoreWhitespaceChanges,
+    ignoreMovedCode,
     githubToken,
     prComment,
     jobSummary,
@@ -88,10 +220,48 @@ export function getInputs(): ActionInputs {
 }
 
 export function printInputs(inputs: ActionInputs): void {
-  core.info(`📁 LCOV file: ${inputs.lcovFile}`);
+  core.info(`📁 Coverage files: ${inputs.lcovFiles.join(", ")}`);
+  core.info(`📄 Coverage format: ${inputs.coverageFormat}`);
+  if (inputs.coverageFormat === "jacoco") {
+    core.info(`☕ JaCoCo source roots: ${inputs.jacocoSourceRoots.join(", ")}`);
+  }
+  if (inputs.pathMappings.length > 0) {
+    core.info(`🔀 Path mappings: ${inputs.pathMappings.join("; ")}`);
+  }
+  if (inputs.coverageDetail === "changed") {
+    core.info("🔬 Coverage detail: changed files only");
+  }
+  if (inputs.exclusionPragmas) {
+    core.info("🙈 Exclusion pragmas: applied to changed files");
+  }
+  if (inputs.lcovValidation === "strict") {
+    core.info("🩺 LCOV validation: strict");
+  }
+  if (inputs.checksumMismatch !== "warn") {
+    core.info(`🔏 Checksum mismatch: ${inputs.checksumMismatch}`);
+  }
   core.info(`📊 Coverage threshold: ${inputs.coverageThreshold}%`);
+  if (inputs.mcdcThreshold) {
+    core.info(`🧮 MC/DC threshold: ${inputs.mcdcThreshold}%`);
+  }
   core.info(`🚦 Gate mode: ${inputs.gateMode}`);
   core.info(`🌿 Target branch: ${inputs.targetBranch}`);
+  if (inputs.baseRef) {
+    core.info(`🎯 Base ref: ${inputs.baseRef}`);
+  }
+  if (inputs.headRef) {
+    core.info(`📌 Head ref: ${inputs.headRef}`);
+  }
+  if (inputs.changesetSource !== "auto") {
+    core.info(`🛰️ Changeset source: ${inputs.changesetSource}`);
+  }
+  core.info(`⏬ Deepen limit: ${inputs.deepenLimit} commits`);
+  if (inputs.ignoreWhitespaceChanges) {
+    core.info("🧹 Whitespace-only changes: ignored");
+  }
+  if (inputs.ignoreMovedCode) {
+    core.info("🚚 Moved code: ignored");
+  }
   core.info(
     `🔑 GitHub token: ${inputs.githubToken ? "[PROVIDED]" : "[MISSING]"}`,
   );
@@ -1,15 +1,32 @@
 import { LcovParser } from "./lcov";
 import * as fs from "fs";
+import * as os from "os";
 import * as path from "path";
-
-// Mock fs module for testing
-jest.mock("fs");
-const mockedFs = fs as jest.Mocked<typeof fs>;
+import * as zlib from "zlib";
 
 describe("LcovParser", () => {
   describe("parseFile", () => {
-    it("should read and parse LCOV file from filesystem", () => {
-      const mockContent = `TN:
+    let dir: string;
+
+    // Write a report into a scratch directory and return its path.
+    const writeReport = (name: string, content: string | Buffer): string => {
+      const filePath = path.join(dir, name);
+      fs.writeFileSync(filePath, content);
+      return filePath;
+    };
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "lcov-parser-"));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("should read and parse LCOV file from filesystem", async () => {
+      const filePath = writeReport(
+        "lcov.info",
+        `TN:
 SF:src/example.ts
 FN:5,myFunction
 FNF:1
@@ -20,28 +37,267 @@ LF:1
 LH:1
 BRF:0
 BRH:0
-end_of_record`;
+end_of_record`,
+      );
 
-      mockedFs.existsSync.mockReturnValue(true);
-      mockedFs.readFileSync.mockReturnValue(mockContent);
+      const report = await LcovParser.parseFile(filePath);
 
-      const report = LcovParser.parseFile("./test/lcov.info");
+      expect(report.files.size).toBe(1);
+      expect(report.files.get("src/example.ts")).toBeDefined();
+    });
 
-      expect(mockedFs.existsSync).toHaveBeenCalledWith(
-        path.resolve("./test/lcov.info"),
+    it("should decompress gzipped reports", async () => {
+      const filePath = writeReport(
+        "lcov.info.gz",
+        zlib.gzipSync("SF:src/a.ts\nDA:1,1\nDA:2,0\nend_of_record\n"),
       );
-      expect(mockedFs.readFileSync).toHaveBeenCalledWith(
-        path.resolve("./test/lcov.info"),
-        "utf8",
+
+      const report = await LcovParser.parseFile(filePath, "auto");
+
+      expect(report.files.get("src/a.ts")?.lines).toEqual([
+        { line: 1, hit: 1 },
+        { line: 2, hit: 0 },
+      ]);
+    });
+
+    it("should reject a corrupt gzipped report", async () => {
+      const filePath = writeReport("lcov.info.gz", "SF:src/a.ts\n");
+
+      await expect(LcovParser.parseFile(filePath)).rejects.toThrow();
+    });
+
+    it("should keep only counts for files outside the detail paths", async () => {
+      const filePath = writeReport(
+        "lcov.info",
+        `SF:./src/changed.ts
+DA:1,1
+end_of_record
+SF:src/other.ts
+FN:1,other
+FNDA:0,other
+DA:1,0
+DA:2,3
+BRDA:2,0,0,1
+end_of_record
+`,
       );
-      expect(report.files.size).toBe(1);
-      expect(report.files.get("src/example.ts")).toBeDefined();
+
+      const report = await LcovParser.parseFile(filePath, "lcov", {
+        detailPaths: ["src/changed.ts"],
+      });
+
+      expect(report.files.get("src/changed.ts")?.lines).toEqual([
+        { line: 1, hit: 1 },
+      ]);
+      expect(report.files.get("src/other.ts")).toEqual({
+        path: "src/other.ts",
+        functions: [],
+        lines: [],
+        branches: [],
+        summary: {
+          functionsFound: 1,
+          functionsHit: 0,
+          linesFound: 2,
+          linesHit: 1,
+          branchesFound: 1,
+          branchesHit: 1,
+        },
+        detailOmitted: true,
+      });
+      expect(report.summary.linesFound).toBe(3);
+    });
+
+    it("should dispatch to the parser for the requested format", async () => {
+      const filePath = writeReport(
+        "coverage.xml",
+        `<coverage><packages><package><classes>
+  <class filename="src/app.py"><lines><line number="1" hits="1"/></lines></class>
+</classes></package></packages></coverage>`,
+      );
+
+      const report = await LcovParser.parseFile(filePath, "cobertura");
+
+      expect(report.files.get("src/app.py")?.summary.linesHit).toBe(1);
+    });
+
+    it("should pass parse options through to the format parser", async () => {
+      const filePath = writeReport(
+        "jacoco.xml",
+        `<report><package name="com/example"><sourcefile name="App.java">
+  <line nr="1" mi="0" ci="1" mb="0" cb="0"/>
+</sourcefile></package></report>`,
+      );
+
+      const report = await LcovParser.parseFile(filePath, "jacoco", {
+        sourceRoots: ["src/main/java"],
+      });
+
+      expect([...report.files.keys()]).toEqual([
+        "src/main/java/com/example/App.java",
+      ]);
+    });
+
+    it("should drop records of other formats outside the detail paths", async () => {
+      const filePath = writeReport(
+        "coverage.xml",
+        `<coverage><packages><package><classes>
+  <class filename="src/a.py"><lines><line number="1" hits="1"/></lines></class>
+  <class filename="src/b.py"><lines><line number="1" hits="0"/></lines></class>
+</classes></package></packages></coverage>`,
+      );
+
+      const report = await LcovParser.parseFile(filePath, "cobertura", {
+        detailPaths: ["src/a.py"],
+      });
+
+      expect(report.files.get("src/a.py")?.detailOmitted).toBeUndefined();
+      expect(report.files.get("src/b.py")).toMatchObject({
+        lines: [],
+        detailOmitted: true,
+        summary: { linesFound: 1, linesHit: 0 },
+      });
+    });
+
+    it("should read Istanbul JSON reports", async () => {
+      const filePath = writeReport(
+        "coverage-final.json",
+        JSON.stringify({
+          "src/app.ts": {
+            statementMap: {
+              "0": {
+                start: { line: 1, column: 0 },
+                end: { line: 1, column: 9 },
+              },
+            },
+            fnMap: {},
+            branchMap: {},
+            s: { "0": 2 },
+            f: {},
+            b: {},
+          },
+        }),
+      );
+
+      const report = await LcovParser.parseFile(filePath, "istanbul");
+
+      expect(report.files.get("src/app.ts")?.lines).toEqual([
+        { line: 1, hit: 2 },
+      ]);
+    });
+
+    it("should detect the format when asked to", async () => {
+      const filePath = writeReport(
+        "cover.out",
+        "mode: set\nexample.com/m/a.go:1.1,1.10 1 1\n",
+      );
+
+      const report = await LcovParser.parseFile(filePath, "auto");
+
+      expect(report.files.get("example.com/m/a.go")?.summary.linesHit).toBe(1);
+    });
+
+    it("should reject content that matches no format when detecting", async () => {
+      const filePath = writeReport("junit.xml", "<testsuites></testsuites>");
+
+      await expect(LcovParser.parseFile(filePath, "auto")).rejects.toThrow(
+        `Unable to detect the coverage format of ${filePath}: found an XML document with root element <testsuites>. ` +
+          "Expected one of: lcov, cobertura, jacoco, istanbul, go.",
+      );
+    });
+
+    it("should merge every file passed to parseFiles", async () => {
+      const unit = writeReport(
+        "unit.info",
+        "SF:src/a.ts\nDA:1,1\nDA:2,0\nend_of_record\n",
+      );
+      const e2e = writeReport(
+        "e2e.info",
+        "SF:src/a.ts\nDA:2,3\nend_of_record\nSF:src/b.ts\nDA:1,0\nend_of_record\n",
+      );
+
+      const report = await LcovParser.parseFiles([unit, e2e]);
+
+      expect(report.files.get("src/a.ts")?.lines).toEqual([
+        { line: 1, hit: 1 },
+        { line: 2, hit: 3 },
+      ]);
+      expect(report.summary).toMatchObject({
+        totalFiles: 2,
+        linesFound: 3,
+        linesHit: 2,
+      });
+    });
+
+    it("should combine hits split across shards before dropping detail", async () => {
+      const shard1 = writeReport(
+        "shard1.info",
+        "SF:src/big.ts\nDA:1,1\nDA:2,0\nend_of_record\n",
+      );
+      const shard2 = writeReport(
+        "shard2.info",
+        "SF:src/big.ts\nDA:1,0\nDA:2,4\nend_of_record\n",
+      );
+
+      const report = await LcovParser.parseFiles([shard1, shard2], "lcov", {
+        detailPaths: ["src/changed.ts"],
+      });
+
+      expect(report.files.get("src/big.ts")).toMatchObject({
+        lines: [],
+        detailOmitted: true,
+        summary: { linesFound: 2, linesHit: 2 },
+      });
+      expect(report.files.get("src/big.ts")!.tally).toBeUndefined();
+      expect(report.summary.linesHit).toBe(2);
+    });
+
+    it("should combine repeated blocks of a file before dropping detail", async () => {
+      const filePath = writeReport(
+        "lcov.info",
+        "TN:unit\nSF:src/big.ts\nDA:1,1\nDA:2,0\nend_of_record\n" +
+          "TN:e2e\nSF:src/big.ts\nDA:1,0\nDA:2,4\nend_of_record\n",
+      );
+
+      const report = await LcovParser.parseFile(filePath, "lcov", {
+        detailPaths: ["src/changed.ts"],
+      });
+
+      expect(report.files.get("src/big.ts")).toMatchObject({
+        detailOmitted: true,
+        summary: { linesFound: 2, linesHit: 2 },
+      });
+    });
+
+    it("should apply path mappings to the parsed report", async () => {
+      const filePath = writeReport(
+        "lcov.info",
+        `SF:${path.resolve("packages/api/src/a.ts")}\nDA:1,1\nend_of_record\n`,
+      );
+
+      const report = await LcovParser.parseFile(filePath, "lcov", {
+        pathMappings: ["packages/api/=>"],
+      });
+
+      expect([...report.files.keys()]).toEqual(["src/a.ts"]);
     });
 
-    it("should throw error when file does not exist", () => {
-      mockedFs.existsSync.mockReturnValue(false);
+    it("should name the report file in diagnostics", async () => {
+      const filePath = writeReport("lcov.info", "SF:src/a.ts\nDA:1\n");
+
+      const report = await LcovParser.parseFile(filePath);
+
+      expect(report.diagnostics).toEqual([
+        { source: filePath, line: 2, message: 'Malformed DA record "DA:1"' },
+        {
+          source: filePath,
+          line: 2,
+          message: "Report ends before end_of_record closed src/a.ts",
+        },
+      ]);
+    });
 
-      expect(() => LcovParser.parseFile("./nonexistent.info")).toThrow(
+    it("should throw error when file does not exist", async () => {
+      await expect(LcovParser.parseFile("./nonexistent.info")).rejects.toThrow(
         "LCOV file not found: " + path.resolve("./nonexistent.info"),
       );
     });
@@ -149,10 +405,36 @@ end_of_record`;
       expect(file!.functions[1].line).toBe(10);
       expect(file!.functions[1].hit).toBe(0);
 
+      // FNL end lines bound each function's span.
+      expect(file!.functions[0].endLine).toBe(8);
+      expect(file!.functions[1].endLine).toBe(14);
+
       expect(file!.summary.functionsFound).toBe(2);
       expect(file!.summary.functionsHit).toBe(1);
     });
 
+    it("should read the optional end line of legacy FN records", () => {
+      const report = LcovParser.parse(`SF:src/example.cpp
+FN:3,9,fmt::format<int, char>(int, char)
+FN:12,helper
+FN:15,10,backwards
+end_of_record`);
+
+      expect(report.files.get("src/example.cpp")!.functions).toEqual([
+        {
+          name: "fmt::format<int, char>(int, char)",
+          line: 3,
+          endLine: 9,
+          hit: 0,
+        },
+        { name: "helper", line: 12, hit: 0 },
+        { name: "backwards", line: 15, hit: 0 },
+      ]);
+      expect(report.diagnostics).toEqual([
+        { line: 4, message: "Function end line 10 precedes its start line 15" },
+      ]);
+    });
+
     it("should parse aliased FNA records sharing a single FNL location", () => {
       // A single function location may carry several aliased FNA records, each
       // a distinct mangled/templated instantiation sharing the same lines.
@@ -238,6 +520,63 @@ end_of_record`;
       expect(file2!.summary.functionsHit).toBe(0);
     });
 
+    it("should merge repeated SF records for the same path", () => {
+      const content = `SF:src/cart.ts
+FN:1,addItem
+FNDA:2,addItem
+DA:2,2
+DA:3,0
+BRDA:3,0,0,0
+BRDA:3,0,1,2
+LF:2
+LH:1
+end_of_record
+SF:src/other.ts
+DA:1,1
+end_of_record
+SF:src/cart.ts
+FN:1,addItem
+FN:10,clear
+FNDA:0,addItem
+FNDA:1,clear
+DA:3,4
+DA:11,1
+BRDA:3,0,0,1
+LF:2
+LH:2
+end_of_record`;
+
+      const report = LcovParser.parse(content);
+      const cart = report.files.get("src/cart.ts");
+
+      expect(cart!.lines).toEqual([
+        { line: 2, hit: 2 },
+        { line: 3, hit: 4 },
+        { line: 11, hit: 1 },
+      ]);
+      expect(cart!.functions).toEqual([
+        { name: "addItem", line: 1, hit: 2 },
+        { name: "clear", line: 10, hit: 1 },
+      ]);
+      expect(cart!.branches).toEqual([
+        { line: 3, block: 0, branch: 0, taken: 1 },
+        { line: 3, block: 0, branch: 1, taken: 2 },
+      ]);
+      expect(cart!.summary).toEqual({
+        functionsFound: 2,
+        functionsHit: 2,
+        linesFound: 3,
+        linesHit: 3,
+        branchesFound: 2,
+        branchesHit: 2,
+      });
+      expect(report.summary).toMatchObject({
+        totalFiles: 2,
+        linesFound: 4,
+        linesHit: 4,
+      });
+    });
+
     it("should handle function names with commas", () => {
       const content = `TN:
 SF:src/example.ts
@@ -309,6 +648,239 @@ end_of_record`;
       expect(file!.branches[1].taken).toBe(5);
       expect(file!.summary.branchesHit).toBe(1);
     });
+
+    it("should keep LCOV 2.x exception and expression branches", () => {
+      const content = `SF:src/example.cpp
+DA:1,1
+BRDA:1,0,0,1
+BRDA:1,e0,0,0
+BRDA:1,e0,1,2
+BRDA:2,0,(a, b) > 0,3
+BRF:4
+BRH:3
+end_of_record`;
+
+      const report = LcovParser.parse(content);
+      const file = report.files.get("src/example.cpp");
+
+      expect(report.diagnostics).toBeUndefined();
+      expect(file!.branches).toEqual([
+        { line: 1, block: 0, branch: 0, taken: 1 },
+        { line: 1, block: 0, branch: 0, taken: 0, exception: true },
+        { line: 1, block: 0, branch: 1, taken: 2, exception: true },
+        { line: 2, block: 0, branch: 0, taken: 3, expression: "(a, b) > 0" },
+      ]);
+      expect(file!.summary.branchesFound).toBe(4);
+      expect(file!.summary.branchesHit).toBe(3);
+    });
+
+    it("should attribute hit lines and functions to TN test names", () => {
+      const content = `TN:cart_adds_items
+SF:src/cart.ts
+FN:1,addItem
+FNDA:2,addItem
+FN:10,clear
+FNDA:0,clear
+DA:2,2
+DA:11,0
+end_of_record
+TN:cart_clears
+SF:src/cart.ts
+FN:1,addItem
+FNDA:0,addItem
+FN:10,clear
+FNDA:1,clear
+DA:2,0
+DA:11,1
+end_of_record
+TN:
+SF:src/other.ts
+DA:1,1
+end_of_record`;
+
+      const report = LcovParser.parse(content);
+
+      expect(report.files.get("src/cart.ts")!.tests).toEqual([
+        { name: "cart_adds_items", lines: [2], functions: ["addItem"] },
+        { name: "cart_clears", lines: [11], functions: ["clear"] },
+      ]);
+      expect(report.files.get("src/other.ts")!.tests).toBeUndefined();
+    });
+  });
+
+  it("should keep DA source checksums", () => {
+    const report = LcovParser.parse(
+      "SF:src/a.c\nDA:1,2,PF4Rz6Pb3o/l0rAqF3j+Hg\nDA:2,0\nend_of_record",
+    );
+
+    expect(report.files.get("src/a.c")!.lines).toEqual([
+      { line: 1, hit: 2, checksum: "PF4Rz6Pb3o/l0rAqF3j+Hg" },
+      { line: 2, hit: 0 },
+    ]);
+  });
+
+  describe("MC/DC records", () => {
+    const content = `SF:src/valve.c
+DA:10,4
+MCDC:10,2,t,3,0,open && !locked
+MCDC:10,2,f,0,0,open && !locked
+MCDC:10,2,t,1,1,open && !locked
+MCDC:10,2,f,1,1,open && !locked
+MCF:4
+MCH:3
+end_of_record`;
+
+    it("should parse MCDC records and count condition outcomes", () => {
+      const report = LcovParser.parse(content);
+      const file = report.files.get("src/valve.c");
+
+      expect(file!.mcdc).toHaveLength(4);
+      expect(file!.mcdc![1]).toEqual({
+        line: 10,
+        groupSize: 2,
+        index: 0,
+        sense: false,
+        taken: 0,
+        expression: "open && !locked",
+      });
+      expect(file!.summary).toMatchObject({ mcdcFound: 4, mcdcHit: 3 });
+      expect(report.summary).toMatchObject({ mcdcFound: 4, mcdcHit: 3 });
+      expect(report.diagnostics).toBeUndefined();
+    });
+
+    it("should sum outcomes across repeated blocks", () => {
+      const report = LcovParser.parse(
+        `${content}\nSF:src/valve.c\nMCDC:10,2,f,2,0,open && !locked\nend_of_record`,
+      );
+
+      expect(report.files.get("src/valve.c")!.summary).toMatchObject({
+        mcdcFound: 4,
+        mcdcHit: 4,
+      });
+    });
+
+    it("should leave MC/DC counts out of reports without MCDC records", () => {
+      const report = LcovParser.parse("SF:src/a.c\nDA:1,1\nend_of_record");
+
+      expect(report.files.get("src/a.c")!.mcdc).toBeUndefined();
+      expect(report.summary.mcdcFound).toBeUndefined();
+    });
+  });
+
+  describe("diagnostics", () => {
+    it("should report malformed and out-of-place records by line", () => {
+      const content = `TN:
+BRDA:1,0,0,1
+SF:src/a.ts
+DA:1,1
+DA:two,1
+FNDA:1,missing
+BOGUS:1
+end_of_record
+end_of_record`;
+
+      const report = LcovParser.parse(content);
+
+      expect(report.diagnostics).toEqual([
+        { line: 2, message: "BRDA record outside any SF block" },
+        { line: 5, message: 'Malformed DA record "DA:two,1"' },
+        { line: 6, message: 'FNDA record names unknown function "missing"' },
+        { line: 7, message: 'Unknown record "BOGUS:1"' },
+        { line: 9, message: "end_of_record without a preceding SF record" },
+      ]);
+      expect(report.files.get("src/a.ts")!.lines).toEqual([
+        { line: 1, hit: 1 },
+      ]);
+    });
+
+    it("should report Object.prototype names as unknown records", () => {
+      const report = LcovParser.parse(
+        "SF:src/a.ts\n__proto__:x\ntoString:x\nconstructor:x\nend_of_record\n",
+      );
+
+      expect(report.diagnostics).toEqual([
+        { line: 2, message: 'Unknown record "__proto__:x"' },
+        { line: 3, message: 'Unknown record "toString:x"' },
+        { line: 4, message: 'Unknown record "constructor:x"' },
+      ]);
+    });
+
+    it("should read negative counts as instrumented but not hit", () => {
+      const report = LcovParser.parse(
+        "SF:src/a.c\nFN:1,f\nFNDA:-1,f\nDA:1,-1\nDA:2,3\nBRDA:1,0,0,-2\nend_of_record\n",
+      );
+      const file = report.files.get("src/a.c")!;
+
+      expect(report.diagnostics).toBeUndefined();
+      expect(file.lines).toEqual([
+        { line: 1, hit: 0 },
+        { line: 2, hit: 3 },
+      ]);
+      expect(file.functions).toEqual([{ name: "f", line: 1, hit: 0 }]);
+      expect(file.branches).toEqual([
+        { line: 1, block: 0, branch: 0, taken: 0 },
+      ]);
+    });
+
+    it("should report blocks missing end_of_record", () => {
+      const report = LcovParser.parse(
+        "SF:src/a.ts\nDA:1,1\nSF:src/b.ts\nDA:1,0\n",
+      );
+
+      expect(report.diagnostics).toEqual([
+        {
+          line: 3,
+          message:
+            "SF record for src/b.ts starts before end_of_record closed src/a.ts",
+        },
+        {
+          line: 4,
+          message: "Report ends before end_of_record closed src/b.ts",
+        },
+      ]);
+      expect(report.files.size).toBe(2);
+    });
+
+    it("should report summary records that disagree with the records", () => {
+      const content = `SF:src/a.ts
+FNL:0,1,5
+FNA:0,1,first
+FNA:0,1,alias
+FNF:1
+FNH:1
+DA:1,1
+DA:1,0
+DA:2,0
+LF:3
+LH:1
+BRDA:2,0,0,-
+BRF:1
+BRH:1
+end_of_record`;
+
+      const report = LcovParser.parse(content);
+
+      expect(report.diagnostics).toEqual([
+        {
+          line: 10,
+          message:
+            "LF:3 disagrees with the 2 instrumented lines recorded for src/a.ts",
+        },
+        {
+          line: 14,
+          message:
+            "BRH:1 disagrees with the 0 taken branches recorded for src/a.ts",
+        },
+      ]);
+    });
+
+    it("should leave well-formed reports without diagnostics", () => {
+      const report = LcovParser.parse(
+        "TN:\nSF:src/a.ts\nFN:1,f\nFNDA:1,f\nFNF:1\nFNH:1\nDA:1,1\nLF:1\nLH:1\nend_of_record\n",
+      );
+
+      expect(report.diagnostics).toBeUndefined();
+    });
   });
 
   // Regression coverage for the LCOV 2.x function record format. Reports
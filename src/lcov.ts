@@ -1,9 +1,14 @@
 export type {
   BranchCoverage,
   CoverageCounts,
+  CoverageParseOptions,
+  ExclusionCounts,
   FileCoverage,
   FunctionCoverage,
+  LcovDiagnostic,
   LcovReport,
   LineCoverage,
+  McdcCoverage,
+  TestCoverage,
 } from "./lcov/types";
 export { LcovParser } from "./lcov/parser";
@@ -0,0 +1,163 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import { parseCobertura } from "./cobertura";
+
+describe("parseCobertura", () => {
+  const workspace = "/home/runner/work/repo/repo";
+
+  it("should map lines, branches and methods into the LCOV model", () => {
+    const content = `<?xml version="1.0" ?>
+<!DOCTYPE coverage SYSTEM "http://cobertura.sourceforge.net/xml/coverage-04.dtd">
+<coverage version="7.4.0" line-rate="0.75" branch-rate="0.5">
+  <!-- Generated by coverage.py -->
+  <sources>
+    <source>${workspace}</source>
+  </sources>
+  <packages>
+    <package name="pkg">
+      <classes>
+        <class name="example.py" filename="pkg/example.py" line-rate="0.75">
+          <methods>
+            <method name="covered" signature="" line-rate="1">
+              <lines>
+                <line number="3" hits="2"/>
+                <line number="4" hits="2"/>
+              </lines>
+            </method>
+            <method name="uncovered" signature="" line-rate="0">
+              <lines>
+                <line number="8" hits="0"/>
+              </lines>
+            </method>
+          </methods>
+          <lines>
+            <line number="3" hits="2"/>
+            <line number="4" hits="2" branch="true" condition-coverage="50% (1/2)"/>
+            <line number="5" hits="1"/>
+            <line number="8" hits="0"/>
+          </lines>
+        </class>
+      </classes>
+    </package>
+  </packages>
+</coverage>`;
+
+    const report = parseCobertura(content, workspace);
+    const file = report.files.get("pkg/example.py");
+
+    expect(file).toBeDefined();
+    expect(file!.lines).toEqual([
+      { line: 3, hit: 2 },
+      { line: 4, hit: 2 },
+      { line: 5, hit: 1 },
+      { line: 8, hit: 0 },
+    ]);
+    expect(file!.branches).toEqual([
+      { line: 4, block: 0, branch: 0, taken: 1 },
+      { line: 4, block: 0, branch: 1, taken: 0 },
+    ]);
+    expect(file!.functions).toEqual([
+      { name: "covered", line: 3, hit: 2 },
+      { name: "uncovered", line: 8, hit: 0 },
+    ]);
+    expect(file!.summary).toEqual({
+      functionsFound: 2,
+      functionsHit: 1,
+      linesFound: 4,
+      linesHit: 3,
+      branchesFound: 2,
+      branchesHit: 1,
+    });
+    expect(report.summary.totalFiles).toBe(1);
+    expect(report.summary.linesHit).toBe(3);
+  });
+
+  it("should merge classes that share a filename", () => {
+    const content = `<coverage>
+  <packages><package name="App"><classes>
+    <class name="App.Service" filename="src/Service.cs">
+      <lines><line number="10" hits="1"/></lines>
+    </class>
+    <class name="App.Service/&lt;RunAsync&gt;d__1" filename="src/Service.cs">
+      <lines><line number="10" hits="0"/><line number="12" hits="3"/></lines>
+    </class>
+  </classes></package></packages>
+</coverage>`;
+
+    const report = parseCobertura(content, workspace);
+
+    expect(report.files.size).toBe(1);
+    expect(report.files.get("src/Service.cs")!.lines).toEqual([
+      { line: 10, hit: 1 },
+      { line: 12, hit: 3 },
+    ]);
+  });
+
+  it("should resolve filenames against a source root inside the workspace", () => {
+    const content = `<coverage>
+  <sources><source>${workspace}/backend</source></sources>
+  <packages><package><classes>
+    <class filename="app\\views.py"><lines><line number="1" hits="1"/></lines></class>
+  </classes></package></packages>
+</coverage>`;
+
+    const report = parseCobertura(content, workspace);
+
+    expect([...report.files.keys()]).toEqual(["backend/app/views.py"]);
+  });
+
+  it("should pick the source root that contains the file", () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "cobertura-"));
+    try {
+      fs.mkdirSync(path.join(root, "src"));
+      fs.mkdirSync(path.join(root, "lib"));
+      fs.writeFileSync(path.join(root, "lib/util.py"), "x = 1\n");
+      const content = `<coverage>
+  <sources><source>${root}/src</source><source>${root}/lib</source></sources>
+  <packages><package><classes>
+    <class filename="util.py"><lines><line number="1" hits="1"/></lines></class>
+  </classes></package></packages>
+</coverage>`;
+
+      const report = parseCobertura(content, root);
+
+      expect([...report.files.keys()]).toEqual(["lib/util.py"]);
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  it("should keep filenames when no source root lies inside the workspace", () => {
+    const content = `<coverage>
+  <sources><source>/Users/dev/project</source></sources>
+  <packages><package><classes>
+    <class filename="src/a.py"><lines><line number="1" hits="0"/></lines></class>
+  </classes></package></packages>
+</coverage>`;
+
+    const report = parseCobertura(content, workspace);
+
+    expect([...report.files.keys()]).toEqual(["src/a.py"]);
+  });
+
+  it("should keep out-of-range and unknown entities as written", () => {
+    const content = `<coverage><packages><package><classes>
+    <class filename="a&#x110000;&#99999999;&constructor;&#x62;.ts"><lines><line number="1" hits="1"/></lines></class>
+  </classes></package></packages></coverage>`;
+
+    const report = parseCobertura(content, workspace);
+
+    expect([...report.files.keys()]).toEqual([
+      "a&#x110000;&#99999999;&constructor;b.ts",
+    ]);
+  });
+
+  it("should return an empty report for a document without classes", () => {
+    const report = parseCobertura("<coverage></coverage>", workspace);
+
+    expect(report.files.size).toBe(0);
+    expect(report.summary.totalFiles).toBe(0);
+  });
+});
@@ -0,0 +1,196 @@
+import * as fs from "fs";
+import * as path from "path";
+
+import { toWorkspaceRelative } from "./paths";
+import { aggregateSummary, buildFileCoverage } from "./coverage";
+import type {
+  BranchCoverage,
+  FileCoverage,
+  FunctionCoverage,
+  LcovReport,
+  LineCoverage,
+} from "./types";
+import { scanXml } from "./xml";
+
+/**
+ * Records collected for one `filename`. Several `<class>` elements may share a
+ * file (nested or partial classes, compiler-generated state machines), so
+ * lines and branches are keyed by line number and merged across classes.
+ */
+interface CoberturaFile {
+  lines: Map<number, number>;
+  branches: Map<number, { covered: number; total: number }>;
+  functions: FunctionCoverage[];
+}
+
+/** A `<method>` being scanned; its line and hit come from its own `<line>`s. */
+interface CurrentMethod {
+  name: string;
+  line: number;
+  hit: number;
+}
+
+// `condition-coverage="50% (1/2)"`: covered and total condition outcomes.
+const CONDITION_COVERAGE = /\((\d+)\/(\d+)\)/;
+
+/**
+ * Parse a Cobertura XML report (coverage.py `xml`, coverlet, PHPUnit, ...) into
+ * the same {@link LcovReport} model the LCOV parser produces.
+ *
+ * Cobertura has no per-branch records, only a `condition-coverage` ratio per
+ * line, so each line expands into `total` branches of which the first
+ * `covered` are taken. Methods carry no hit count; a method counts as hit when
+ * any of its lines was executed.
+ *
+ * `filename` attributes are relative to one of the `<source>` roots; they are
+ * resolved against `workspace` so paths line up with the changeset.
+ */
+export function parseCobertura(
+  content: string,
+  workspace: string = process.cwd(),
+): LcovReport {
+  const sources: string[] = [];
+  const filesByName = new Map<string, CoberturaFile>();
+  let inSource = false;
+  let currentFile: CoberturaFile | null = null;
+  let currentMethod: CurrentMethod | null = null;
+
+  scanXml(content, {
+    open: (name, attributes) => {
+      switch (name) {
+        case "source":
+          inSource = true;
+          break;
+        case "class": {
+          const filename = attributes.filename;
+          if (!filename) break;
+          currentFile = filesByName.get(filename) ?? {
+            lines: new Map(),
+            branches: new Map(),
+            functions: [],
+          };
+          filesByName.set(filename, currentFile);
+          break;
+        }
+        case "method":
+          if (currentFile && attributes.name) {
+            currentMethod = { name: attributes.name, line: 0, hit: 0 };
+          }
+          break;
+        case "line":
+          if (currentFile) {
+            applyLine(currentFile, currentMethod, attributes);
+          }
+          break;
+      }
+    },
+    close: (name) => {
+      if (name === "source") {
+        inSource = false;
+      } else if (name === "method") {
+        if (currentFile && currentMethod && currentMethod.line > 0) {
+          currentFile.functions.push(currentMethod);
+        }
+        currentMethod = null;
+      } else if (name === "class") {
+        currentFile = null;
+      }
+    },
+    text: (text) => {
+      if (inSource) {
+        sources.push(text);
+      }
+    },
+  });
+
+  const files = new Map<string, FileCoverage>();
+  for (const [filename, file] of filesByName) {
+    const filePath = resolveFilename(filename, sources, workspace);
+    files.set(filePath, toFileCoverage(filePath, file));
+  }
+
+  return { files, summary: aggregateSummary(files) };
+}
+
+function applyLine(
+  file: CoberturaFile,
+  method: CurrentMethod | null,
+  attributes: Record<string, string>,
+): void {
+  const lineNumber = parseInt(attributes.number ?? "", 10);
+  const hits = parseInt(attributes.hits ?? "", 10);
+  if (!Number.isFinite(lineNumber) || !Number.isFinite(hits)) return;
+
+  // Method `<line>`s repeat the class-level ones; they only locate the method.
+  if (method) {
+    if (method.line === 0 || lineNumber < method.line) {
+      method.line = lineNumber;
+    }
+    method.hit = Math.max(method.hit, hits);
+    return;
+  }
+
+  file.lines.set(lineNumber, Math.max(file.lines.get(lineNumber) ?? 0, hits));
+
+  const conditions = CONDITION_COVERAGE.exec(
+    attributes["condition-coverage"] ?? "",
+  );
+  if (attributes.branch === "true" && conditions) {
+    const covered = parseInt(conditions[1] ?? "0", 10);
+    const total = parseInt(conditions[2] ?? "0", 10);
+    const previous = file.branches.get(lineNumber);
+    if (!previous || covered > previous.covered) {
+      file.branches.set(lineNumber, { covered, total });
+    }
+  }
+}
+
+function toFileCoverage(filePath: string, file: CoberturaFile): FileCoverage {
+  const lines: LineCoverage[] = [...file.lines]
+    .sort(([a], [b]) => a - b)
+    .map(([line, hit]) => ({ line, hit }));
+
+  const branches: BranchCoverage[] = [...file.branches]
+    .sort(([a], [b]) => a - b)
+    .flatMap(([line, { covered, total }]) =>
+      Array.from({ length: total }, (_, branch) => ({
+        line,
+        block: 0,
+        branch,
+        taken: branch < covered ? 1 : 0,
+      })),
+    );
+
+  return buildFileCoverage(filePath, file.functions, lines, branches);
+}
+
+/**
+ * Map a Cobertura `filename` to a workspace-relative path. Among the source
+ * roots that place the file inside the workspace, the first one under which
+ * the file exists wins, falling back to the first such root when none does;
+ * when no source lies inside the workspace (e.g. the report was produced on
+ * another machine), the filename is kept.
+ */
+function resolveFilename(
+  filename: string,
+  sources: string[],
+  workspace: string,
+): string {
+  const normalized = filename.replace(/\\/g, "/");
+
+  const candidates = sources.flatMap((source) => {
+    const relative = toWorkspaceRelative(
+      path.posix.join(source.replace(/\\/g, "/"), normalized),
+      workspace,
+    );
+    return relative ? [relative] : [];
+  });
+
+  return (
+    candidates.find((candidate) =>
+      fs.existsSync(path.join(workspace, candidate)),
+    ) ??
+    candidates[0] ??
+    normalized
+  );
+}
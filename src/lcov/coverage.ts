@@ -0,0 +1,341 @@
+import type {
+  BranchCoverage,
+  CoverageCounts,
+  CoverageTally,
+  FileCoverage,
+  FunctionCoverage,
+  LineCoverage,
+  McdcCoverage,
+  TestCoverage,
+} from "./types";
+
+/**
+ * Drop a file's records but keep its summary, so it still counts towards
+ * report-wide totals without holding every line in memory.
+ */
+export function withoutDetail(coverage: FileCoverage): FileCoverage {
+  return {
+    path: coverage.path,
+    functions: [],
+    lines: [],
+    branches: [],
+    summary: coverage.summary,
+    detailOmitted: true,
+  };
+}
+
+/** An empty {@link CoverageTally}. */
+export function createTally(): CoverageTally {
+  return {
+    lines: [],
+    functions: new Map(),
+    branches: new Map(),
+    mcdc: new Map(),
+  };
+}
+
+/**
+ * Fold a file's records, or its tally when its records were dropped, into
+ * `tally`. A key counts as hit when any of the folded copies hit it.
+ */
+export function addToTally(tally: CoverageTally, coverage: FileCoverage): void {
+  if (coverage.tally) {
+    const { lines, functions, branches, mcdc } = coverage.tally;
+    tally.lines = mergeTallyLines(tally.lines, lines);
+    for (const [key, hit] of functions) markHit(tally.functions, key, hit);
+    for (const [key, hit] of branches) markHit(tally.branches, key, hit);
+    for (const [key, hit] of mcdc) markHit(tally.mcdc, key, hit);
+    return;
+  }
+
+  tally.lines = mergeTallyLines(
+    tally.lines,
+    coverage.lines
+      .map((line) => line.line * 2 + (line.hit > 0 ? 1 : 0))
+      .sort((a, b) => a - b),
+  );
+  for (const func of coverage.functions) {
+    markHit(tally.functions, functionKey(func), func.hit > 0);
+  }
+  for (const branch of coverage.branches) {
+    markHit(tally.branches, branchKey(branch), branch.taken > 0);
+  }
+  for (const record of coverage.mcdc ?? []) {
+    markHit(tally.mcdc, mcdcKey(record), record.taken > 0);
+  }
+}
+
+function markHit(hits: Map<string, boolean>, key: string, hit: boolean) {
+  hits.set(key, hits.get(key) === true || hit);
+}
+
+/**
+ * Merge two ascending {@link CoverageTally} line lists, keeping one entry per
+ * line that is hit when either list hits it.
+ */
+function mergeTallyLines(a: number[], b: number[]): number[] {
+  const merged: number[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    const fromA = a[i];
+    const fromB = b[j];
+    let next: number;
+    if (fromB === undefined || (fromA !== undefined && fromA < fromB)) {
+      next = fromA ?? 0;
+      i++;
+    } else {
+      next = fromB;
+      j++;
+    }
+
+    const last = merged.length - 1;
+    const previous = merged[last];
+    // Entries of one line are adjacent, the unhit one first.
+    if (previous !== undefined && previous >> 1 === next >> 1) {
+      merged[last] = previous | next;
+    } else {
+      merged.push(next);
+    }
+  }
+  return merged;
+}
+
+/**
+ * A file known only by its tally: no records, and a summary counted from the
+ * tally the way {@link mergeFileCoverage} counts merged records.
+ */
+export function tallyCoverage(
+  path: string,
+  tally: CoverageTally,
+): FileCoverage {
+  const countHit = (hits: Iterable<boolean>) =>
+    [...hits].filter((hit) => hit).length;
+  return {
+    path,
+    functions: [],
+    lines: [],
+    branches: [],
+    summary: {
+      functionsFound: tally.functions.size,
+      functionsHit: countHit(tally.functions.values()),
+      linesFound: tally.lines.length,
+      linesHit: countHit(tally.lines.map((entry) => entry % 2 === 1)),
+      branchesFound: tally.branches.size,
+      branchesHit: countHit(tally.branches.values()),
+      ...(tally.mcdc.size > 0 && {
+        mcdcFound: tally.mcdc.size,
+        mcdcHit: countHit(tally.mcdc.values()),
+      }),
+    },
+    detailOmitted: true,
+    tally,
+  };
+}
+
+/**
+ * Assemble a {@link FileCoverage} from its records, deriving the summary from
+ * the records themselves rather than trusting any totals the report declares.
+ * Shared by every input format so summaries are computed identically.
+ */
+export function buildFileCoverage(
+  path: string,
+  functions: FunctionCoverage[],
+  lines: LineCoverage[],
+  branches: BranchCoverage[],
+  mcdc: McdcCoverage[] = [],
+): FileCoverage {
+  return {
+    path,
+    functions,
+    lines,
+    branches,
+    ...(mcdc.length > 0 && { mcdc }),
+    summary: {
+      functionsFound: functions.length,
+      functionsHit: functions.filter((f) => f.hit > 0).length,
+      linesFound: lines.length,
+      linesHit: lines.filter((l) => l.hit > 0).length,
+      branchesFound: branches.length,
+      branchesHit: branches.filter((b) => b.taken > 0).length,
+      ...(mcdc.length > 0 && {
+        mcdcFound: mcdc.length,
+        mcdcHit: mcdc.filter((m) => m.taken > 0).length,
+      }),
+    },
+  };
+}
+
+/**
+ * Combine coverage recorded for the same file by several runs (e.g. unit and
+ * integration suites). Line and branch hits are summed per line and per
+ * line/block/branch, and MC/DC outcomes per condition and sense; functions
+ * are unioned by name and line with their hits summed. The summary is
+ * recomputed from the merged records. Per-test attribution is unioned by test
+ * name.
+ *
+ * Files whose records were omitted are combined by their tallies, which is
+ * exact. Without a tally they can only be combined by their counts; each count
+ * takes its highest value across the inputs, which is exact for found-counts
+ * and a lower bound for hit-counts.
+ */
+export function mergeFileCoverage(
+  path: string,
+  coverages: FileCoverage[],
+): FileCoverage {
+  if (coverages.some((coverage) => coverage.detailOmitted)) {
+    if (coverages.some((c) => c.detailOmitted && !c.tally)) {
+      return mergeSummaries(path, coverages);
+    }
+    const tally = createTally();
+    for (const coverage of coverages) addToTally(tally, coverage);
+    return tallyCoverage(path, tally);
+  }
+
+  const lines = new Map<number, LineCoverage>();
+  const functions = new Map<string, FunctionCoverage>();
+  const branches = new Map<string, BranchCoverage>();
+  const mcdc = new Map<string, McdcCoverage>();
+
+  for (const coverage of coverages) {
+    for (const line of coverage.lines) {
+      const existing = lines.get(line.line);
+      const checksum = existing?.checksum ?? line.checksum;
+      lines.set(line.line, {
+        line: line.line,
+        hit: (existing?.hit ?? 0) + line.hit,
+        ...(checksum && { checksum }),
+      });
+    }
+
+    for (const func of coverage.functions) {
+      const key = functionKey(func);
+      const existing = functions.get(key);
+      if (!existing) {
+        functions.set(key, { ...func });
+        continue;
+      }
+      existing.hit += func.hit;
+      if (func.endLine !== undefined) {
+        existing.endLine = Math.max(existing.endLine ?? 0, func.endLine);
+      }
+    }
+
+    for (const branch of coverage.branches) {
+      const key = branchKey(branch);
+      const existing = branches.get(key);
+      branches.set(key, {
+        ...branch,
+        taken: (existing?.taken ?? 0) + branch.taken,
+      });
+    }
+
+    for (const record of coverage.mcdc ?? []) {
+      const key = mcdcKey(record);
+      const existing = mcdc.get(key);
+      mcdc.set(key, {
+        ...record,
+        taken: (existing?.taken ?? 0) + record.taken,
+      });
+    }
+  }
+
+  const merged = buildFileCoverage(
+    path,
+    [...functions.values()].sort((a, b) => a.line - b.line),
+    [...lines.values()].sort((a, b) => a.line - b.line),
+    [...branches.values()].sort(
+      (a, b) => a.line - b.line || a.block - b.block || a.branch - b.branch,
+    ),
+    [...mcdc.values()].sort(
+      (a, b) =>
+        a.line - b.line ||
+        a.groupSize - b.groupSize ||
+        a.index - b.index ||
+        Number(b.sense) - Number(a.sense),
+    ),
+  );
+  const tests = mergeTests(coverages);
+  return tests ? { ...merged, tests } : merged;
+}
+
+const functionKey = (func: FunctionCoverage) => `${func.line}:${func.name}`;
+
+const branchKey = (branch: BranchCoverage) =>
+  `${branch.line}:${branch.exception ? "e" : ""}${branch.block}:${branch.expression ?? branch.branch}`;
+
+const mcdcKey = (record: McdcCoverage) =>
+  `${record.line}:${record.groupSize}:${record.index}:${record.sense}`;
+
+function mergeTests(coverages: FileCoverage[]): TestCoverage[] | undefined {
+  if (!coverages.some((coverage) => coverage.tests)) return undefined;
+
+  const testsByName = new Map<string, TestCoverage>();
+  for (const test of coverages.flatMap((coverage) => coverage.tests ?? [])) {
+    const existing = testsByName.get(test.name);
+    testsByName.set(
+      test.name,
+      existing
+        ? {
+            name: test.name,
+            lines: [...new Set([...existing.lines, ...test.lines])].sort(
+              (a, b) => a - b,
+            ),
+            functions: [...new Set([...existing.functions, ...test.functions])],
+          }
+        : test,
+    );
+  }
+  return [...testsByName.values()];
+}
+
+function mergeSummaries(path: string, coverages: FileCoverage[]): FileCoverage {
+  const summary: CoverageCounts = {
+    functionsFound: 0,
+    functionsHit: 0,
+    linesFound: 0,
+    linesHit: 0,
+    branchesFound: 0,
+    branchesHit: 0,
+    ...(coverages.some((c) => c.summary.mcdcFound !== undefined) && {
+      mcdcFound: 0,
+      mcdcHit: 0,
+    }),
+  };
+  for (const coverage of coverages) {
+    for (const key of Object.keys(summary) as (keyof CoverageCounts)[]) {
+      summary[key] = Math.max(summary[key] ?? 0, coverage.summary[key] ?? 0);
+    }
+  }
+  return withoutDetail({ ...buildFileCoverage(path, [], [], []), summary });
+}
+
+/** Reduce per-file summaries into the report-wide totals. */
+export function aggregateSummary(
+  files: Map<string, FileCoverage>,
+): CoverageCounts & { totalFiles: number } {
+  const totals: CoverageCounts & { totalFiles: number } = {
+    totalFiles: files.size,
+    functionsFound: 0,
+    functionsHit: 0,
+    linesFound: 0,
+    linesHit: 0,
+    branchesFound: 0,
+    branchesHit: 0,
+  };
+
+  for (const { summary } of files.values()) {
+    totals.functionsFound += summary.functionsFound;
+    totals.functionsHit += summary.functionsHit;
+    totals.linesFound += summary.linesFound;
+    totals.linesHit += summary.linesHit;
+    totals.branchesFound += summary.branchesFound;
+    totals.branchesHit += summary.branchesHit;
+    if (summary.mcdcFound !== undefined) {
+      totals.mcdcFound = (totals.mcdcFound ?? 0) + summary.mcdcFound;
+      totals.mcdcHit = (totals.mcdcHit ?? 0) + (summary.mcdcHit ?? 0);
+    }
+  }
+
+  return totals;
+}
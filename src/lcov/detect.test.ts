@@ -0,0 +1,70 @@
+import { detectCoverageFormat } from "./detect";
+
+describe("detectCoverageFormat", () => {
+  it.each([
+    [
+      "LCOV with a test name",
+      "TN:\nSF:src/a.ts\nDA:1,1\nend_of_record\n",
+      "lcov",
+    ],
+    [
+      "LCOV without a test name",
+      "SF:src/a.ts\nDA:1,1\nend_of_record\n",
+      "lcov",
+    ],
+    [
+      "Cobertura",
+      '<?xml version="1.0" ?>\n<!DOCTYPE coverage SYSTEM "x.dtd">\n<!-- coverage.py -->\n<coverage line-rate="1"></coverage>',
+      "cobertura",
+    ],
+    [
+      "Cobertura without a line-rate attribute",
+      '<coverage version="1"><!-- gcovr --><sources><source>.</source></sources></coverage>',
+      "cobertura",
+    ],
+    [
+      "JaCoCo",
+      '<?xml version="1.0"?><!DOCTYPE report PUBLIC "-//JACOCO//DTD Report 1.1//EN" "report.dtd"><report name="x"></report>',
+      "jacoco",
+    ],
+    [
+      "Istanbul",
+      '{"/repo/src/a.ts": {"path": "/repo/src/a.ts", "statementMap": {}}}',
+      "istanbul",
+    ],
+    ["an empty Istanbul map", "{}\n", "istanbul"],
+    ["a Go profile", "mode: atomic\nexample.com/m/a.go:1.1,2.2 1 0\n", "go"],
+    ["content with a byte order mark", "\uFEFFSF:src/a.ts\n", "lcov"],
+  ])("should detect %s", (_, content, format) => {
+    expect(detectCoverageFormat(content)).toEqual({ format });
+  });
+
+  it.each([
+    ["", "an empty file"],
+    [
+      "<testsuites></testsuites>",
+      "an XML document with root element <testsuites>",
+    ],
+    [
+      '<?xml version="1.0"?>\n<coverage generated="1" clover="4.4.1">\n  <project timestamp="1">',
+      "a Clover XML report, which is not supported",
+    ],
+    [
+      "<coverage></coverage>",
+      "an XML document with root element <coverage> but no Cobertura markers",
+    ],
+    [
+      '{"numTotalTests": 3}',
+      "a JSON document that is not an Istanbul coverage map",
+    ],
+    [
+      "Name    Stmts   Miss  Cover",
+      'text starting with "Name    Stmts   Miss  Cover"',
+    ],
+  ])("should describe unrecognised content %j", (content, detected) => {
+    expect(detectCoverageFormat(content)).toEqual({
+      format: undefined,
+      detected,
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import type { CoverageFormat } from "../inputs";
+
+/** A format the parsers can read; `auto` is resolved to one of these. */
+export type ConcreteCoverageFormat = Exclude<CoverageFormat, "auto">;
+
+/** What sniffing found: a readable format, or a description of the content. */
+export type DetectionResult =
+  | { format: ConcreteCoverageFormat }
+  | { format: undefined; detected: string };
+
+// The root element is the first tag that is not a declaration, comment or
+// processing instruction.
+const XML_ROOT = /<(?![?!])([^\s/>]+)/;
+
+// Clover XML (PHPUnit, the Istanbul clover reporter) shares Cobertura's
+// `<coverage>` root, so Cobertura is told apart by its `line-rate` attribute or
+// a `<sources>`/`<packages>` child, and Clover by its `<project>` child.
+const COBERTURA_ROOT_ATTRIBUTE = /\sline-rate\s*=/;
+const COBERTURA_CHILDREN = new Set(["sources", "packages"]);
+
+const LCOV_RECORD = /^\s*(?:TN|SF):/m;
+
+const GO_MODE_HEADER = /^mode:\s*\S+/;
+
+// Istanbul maps each file path to an object of per-file coverage keys. Only the
+// first entry is checked so large reports are not parsed twice; an empty map
+// is still a valid (empty) report.
+const ISTANBUL_PREFIX =
+  /^\{\s*(?:\}|"(?:[^"\\]|\\.)*"\s*:\s*\{\s*"(?:path|statementMap|fnMap|branchMap|s|f|b)")/;
+
+const PREVIEW_LENGTH = 60;
+
+/**
+ * Identify the coverage format of a report from its content, so a workflow does
+ * not have to state it. Only cheap structural markers are inspected: the XML
+ * root element (`<coverage>` with Cobertura markers, `<report>` for JaCoCo),
+ * the shape of a JSON document (Istanbul maps file paths to
+ * `statementMap`/`s`), the Go `mode:` header and LCOV `TN:`/`SF:` records.
+ */
+export function detectCoverageFormat(content: string): DetectionResult {
+  const trimmed = content.replace(/^\uFEFF/, "").trimStart();
+  if (trimmed.length === 0) {
+    return { format: undefined, detected: "an empty file" };
+  }
+
+  if (trimmed.startsWith("<")) {
+    const rootMatch = XML_ROOT.exec(trimmed);
+    const root = rootMatch?.[1];
+    if (rootMatch && root === "coverage") {
+      return detectCoverageRoot(trimmed.slice(rootMatch.index));
+    }
+    if (root === "report") return { format: "jacoco" };
+    return {
+      format: undefined,
+      detected: root
+        ? `an XML document with root element <${root}>`
+        : "an XML document without a root element",
+    };
+  }
+
+  if (trimmed.startsWith("{")) {
+    return detectJson(trimmed);
+  }
+
+  if (GO_MODE_HEADER.test(trimmed)) return { format: "go" };
+  if (LCOV_RECORD.test(trimmed)) return { format: "lcov" };
+
+  const firstLine = trimmed.split("\n", 1)[0]?.trim() ?? "";
+  const preview =
+    firstLine.length > PREVIEW_LENGTH
+      ? `${firstLine.slice(0, PREVIEW_LENGTH)}…`
+      : firstLine;
+  return {
+    format: undefined,
+    detected: `text starting with "${preview}"`,
+  };
+}
+
+/** Tell Cobertura from Clover by the `<coverage>` root tag and first child. */
+function detectCoverageRoot(content: string): DetectionResult {
+  const rootTagEnd = content.indexOf(">");
+  const rootTag = rootTagEnd === -1 ? content : content.slice(0, rootTagEnd);
+  const child =
+    rootTagEnd === -1
+      ? undefined
+      : XML_ROOT.exec(content.slice(rootTagEnd + 1))?.[1];
+
+  if (
+    COBERTURA_ROOT_ATTRIBUTE.test(rootTag) ||
+    (child !== undefined && COBERTURA_CHILDREN.has(child))
+  ) {
+    return { format: "cobertura" };
+  }
+  return {
+    format: undefined,
+    detected:
+      child === "project"
+        ? "a Clover XML report, which is not supported"
+        : "an XML document with root element <coverage> but no Cobertura markers",
+  };
+}
+
+function detectJson(content: string): DetectionResult {
+  return ISTANBUL_PREFIX.test(content)
+    ? { format: "istanbul" }
+    : {
+        format: undefined,
+        detected: "a JSON document that is not an Istanbul coverage map",
+      };
+}
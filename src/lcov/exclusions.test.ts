@@ -0,0 +1,172 @@
+import { applyExclusions, findExclusions } from "./exclusions";
+import { LcovParser } from "./parser";
+
+describe("findExclusions", () => {
+  const linesOf = (source: string[]) =>
+    [...findExclusions(source.join("\n")).lines].sort((a, b) => a - b);
+
+  it("should honour LCOV line and range markers", () => {
+    expect(
+      linesOf([
+        "int a = 1; // LCOV_EXCL_LINE",
+        "int b = 2;",
+        "// LCOV_EXCL_START",
+        "debug();",
+        "// LCOV_EXCL_STOP",
+        "int c = 3;",
+      ]),
+    ).toEqual([1, 3, 4, 5]);
+  });
+
+  it("should keep LCOV_EXCL_BR markers to branches", () => {
+    const exclusions = findExclusions(
+      ["if (a) {} // LCOV_EXCL_BR_LINE", "if (b) {}"].join("\n"),
+    );
+
+    expect([...exclusions.lines]).toEqual([]);
+    expect([...exclusions.branchLines]).toEqual([1]);
+  });
+
+  it("should apply istanbul ignore next to the whole next statement", () => {
+    expect(
+      linesOf([
+        "/* istanbul ignore next */",
+        "function debug() {",
+        "  if (verbose) {",
+        "    log();",
+        "  }",
+        "}",
+        "function run() {}",
+      ]),
+    ).toEqual([2, 3, 4, 5, 6]);
+    expect(
+      linesOf(["const a = 1;", "/* istanbul ignore next */ const b = 2;"]),
+    ).toEqual([2]);
+  });
+
+  it("should exclude the block a pragma: no cover line opens", () => {
+    expect(
+      linesOf([
+        "def main():",
+        "    if debug:  # pragma: no cover",
+        "        dump()",
+        "",
+        "        trace()",
+        "    run()",
+      ]),
+    ).toEqual([2, 3, 4, 5]);
+  });
+
+  it("should honour Dart coverage:ignore markers", () => {
+    expect(
+      linesOf([
+        "var a = 1; // coverage:ignore-line",
+        "// coverage:ignore-start",
+        "debug();",
+        "// coverage:ignore-end",
+        "var b = 2; // coverage:ignore",
+      ]),
+    ).toEqual([1, 2, 3, 4, 5]);
+    expect(findExclusions("// coverage:ignore-file\nmain();").file).toBe(true);
+  });
+});
+
+describe("applyExclusions", () => {
+  const report = LcovParser.parse(
+    [
+      "SF:src/a.c",
+      "FN:2,debug",
+      "FNDA:0,debug",
+      "FN:6,run",
+      "FNDA:1,run",
+      "DA:2,0",
+      "DA:3,0",
+      "DA:6,1",
+      "DA:7,1",
+      "BRDA:7,0,0,1",
+      "BRDA:7,0,1,0",
+      "end_of_record",
+      "SF:src/b.c",
+      "DA:1,0",
+      "end_of_record",
+    ].join("\n"),
+  );
+
+  const source = [
+    "// LCOV_EXCL_START",
+    "void debug() {",
+    "  dump();",
+    "} // LCOV_EXCL_STOP",
+    "",
+    "void run() {",
+    "  if (ready) go(); // LCOV_EXCL_BR_LINE",
+    "}",
+  ].join("\n");
+
+  it("should drop excluded records and count them per file", () => {
+    const result = applyExclusions(report, new Map([["src/a.c", source]]));
+    const file = result.files.get("src/a.c")!;
+
+    expect(file.lines.map((l) => l.line)).toEqual([6, 7]);
+    expect(file.functions.map((f) => f.name)).toEqual(["run"]);
+    expect(file.branches).toEqual([]);
+    expect(file.excluded).toEqual({ lines: 2, functions: 1, branches: 2 });
+    expect(result.summary).toMatchObject({
+      linesFound: 3,
+      linesHit: 2,
+      functionsFound: 1,
+      branchesFound: 0,
+    });
+    expect(result.files.get("src/b.c")).toBe(report.files.get("src/b.c"));
+  });
+
+  it("should drop only the arm an istanbul ignore if or else hint names", () => {
+    const branchReport = LcovParser.parse(
+      [
+        "SF:src/c.js",
+        "DA:2,3",
+        "BRDA:2,0,0,3",
+        "BRDA:2,0,1,0",
+        "BRDA:2,1,0,3",
+        "BRDA:2,1,1,0",
+        "BRDA:4,2,0,0",
+        "BRDA:4,2,1,3",
+        "BRDA:7,3,0,0",
+        "BRDA:7,3,1,3",
+        "end_of_record",
+      ].join("\n"),
+    );
+    const branchSource = [
+      "/* istanbul ignore else */",
+      "if (ready && armed) {",
+      "}",
+      "/* istanbul ignore if */ if (retry) {}",
+      "/* istanbul ignore if */",
+      "/* istanbul ignore else */",
+      "if (fallback) {}",
+    ].join("\n");
+
+    const result = applyExclusions(
+      branchReport,
+      new Map([["src/c.js", branchSource]]),
+    );
+
+    expect(result.files.get("src/c.js")?.branches).toEqual([
+      { line: 2, block: 0, branch: 0, taken: 3 },
+      { line: 2, block: 1, branch: 0, taken: 3 },
+      { line: 2, block: 1, branch: 1, taken: 0 },
+      { line: 4, block: 2, branch: 1, taken: 3 },
+    ]);
+    expect(result.files.get("src/c.js")?.excluded).toEqual({
+      lines: 0,
+      functions: 0,
+      branches: 4,
+    });
+  });
+
+  it("should return the report unchanged when nothing is excluded", () => {
+    expect(applyExclusions(report, new Map([["src/b.c", "x();"]]))).toBe(
+      report,
+    );
+  });
+});
@@ -0,0 +1,299 @@
+import { aggregateSummary, buildFileCoverage } from "./coverage";
+import type {
+  BranchCoverage,
+  ExclusionCounts,
+  FileCoverage,
+  LcovReport,
+} from "./types";
+
+/** Lines a source file's pragmas exclude, found by {@link findExclusions}. */
+export interface SourceExclusions {
+  /** Every record on these lines is excluded. */
+  lines: Set<number>;
+  /** Only branch and MC/DC records on these lines are excluded. */
+  branchLines: Set<number>;
+  /**
+   * Arms excluded from the first branch block on these lines: 0 for the `if`
+   * arm, 1 for the `else` arm, in the order the block lists its branches.
+   */
+  branchArms: Map<number, Set<number>>;
+  /** The whole file is excluded. */
+  file: boolean;
+}
+
+const LCOV_MARKER = /\bLCOV_EXCL_(BR_)?(LINE|START|STOP)\b/;
+const DART_MARKER = /\bcoverage:ignore(?:-(line|start|end|file))?\b/;
+const ISTANBUL_MARKER =
+  /\b(?:istanbul|c8) ignore (next|if|else|file|start|stop)\b/;
+const PRAGMA_NO_COVER = /#\s*pragma:\s*no\s*cover\b/i;
+
+/**
+ * Scan source text for the exclusion pragmas coverage tools apply at
+ * instrumentation or export time:
+ *
+ * - `LCOV_EXCL_LINE`, `LCOV_EXCL_START`/`STOP` and their `LCOV_EXCL_BR_`
+ *   branch-only variants (lcov, gcovr)
+ * - `istanbul ignore next|if|else|file` and `c8 ignore next|start|stop`
+ * - `# pragma: no cover` (coverage.py), which covers the whole block when the
+ *   line opens one
+ * - `coverage:ignore-line|start|end|file` (Dart), with a bare
+ *   `coverage:ignore` treated as `ignore-line`
+ *
+ * `ignore next` applies to the next statement, taken to end where its braces
+ * balance; `ignore if`/`else` exclude only the `if` or the `else` arm of the
+ * next line's branch.
+ */
+export function findExclusions(source: string): SourceExclusions {
+  const sourceLines = source.split(/\r?\n/);
+  const exclusions: SourceExclusions = {
+    lines: new Set(),
+    branchLines: new Set(),
+    branchArms: new Map(),
+    file: false,
+  };
+  let excludingLines = false;
+  let excludingBranches = false;
+
+  for (const [index, text] of sourceLines.entries()) {
+    const line = index + 1;
+    let startsRange = false;
+    let endsRange = false;
+
+    const lcov = LCOV_MARKER.exec(text);
+    if (lcov) {
+      const branchesOnly = lcov[1] !== undefined;
+      const target = branchesOnly ? exclusions.branchLines : exclusions.lines;
+      if (lcov[2] === "LINE") target.add(line);
+      if (lcov[2] === "START") {
+        if (branchesOnly) excludingBranches = true;
+        else startsRange = true;
+      }
+      if (lcov[2] === "STOP") {
+        if (branchesOnly) {
+          excludingBranches = false;
+          target.add(line);
+        } else {
+          endsRange = true;
+        }
+      }
+    }
+
+    const dart = DART_MARKER.exec(text);
+    if (dart) {
+      if (dart[1] === "file") exclusions.file = true;
+      else if (dart[1] === "start") startsRange = true;
+      else if (dart[1] === "end") endsRange = true;
+      else exclusions.lines.add(line);
+    }
+
+    const istanbul = ISTANBUL_MARKER.exec(text);
+    if (istanbul) {
+      const statement = nextStatement(sourceLines, index, istanbul.index);
+      switch (istanbul[1]) {
+        case "file":
+          exclusions.file = true;
+          break;
+        case "start":
+          startsRange = true;
+          break;
+        case "stop":
+          endsRange = true;
+          break;
+        case "next":
+          for (
+            let covered = statement.start;
+            covered <= statement.end;
+            covered++
+          ) {
+            exclusions.lines.add(covered);
+          }
+          break;
+        default: {
+          const arms =
+            exclusions.branchArms.get(statement.start) ?? new Set<number>();
+          arms.add(istanbul[1] === "if" ? 0 : 1);
+          exclusions.branchArms.set(statement.start, arms);
+        }
+      }
+    }
+
+    if (PRAGMA_NO_COVER.test(text)) {
+      exclusions.lines.add(line);
+      for (const blockLine of indentedBlock(sourceLines, index)) {
+        exclusions.lines.add(blockLine);
+      }
+    }
+
+    if (startsRange) excludingLines = true;
+    if (excludingLines) exclusions.lines.add(line);
+    if (excludingBranches) exclusions.branchLines.add(line);
+    if (endsRange) excludingLines = false;
+  }
+
+  return exclusions;
+}
+
+/**
+ * Drop the records `sources` exclude from the matching files of `report`.
+ * Files whose records were omitted are left alone. Each file that lost
+ * records gets an `excluded` count, and the report summary is recomputed.
+ */
+export function applyExclusions(
+  report: LcovReport,
+  sources: Map<string, string>,
+): LcovReport {
+  const files = new Map(report.files);
+  let changed = false;
+
+  for (const [path, source] of sources) {
+    const coverage = files.get(path);
+    if (!coverage || coverage.detailOmitted) continue;
+
+    const excluded = excludeRecords(coverage, findExclusions(source));
+    if (excluded) {
+      files.set(path, excluded);
+      changed = true;
+    }
+  }
+
+  return changed
+    ? { ...report, files, summary: aggregateSummary(files) }
+    : report;
+}
+
+function excludeRecords(
+  coverage: FileCoverage,
+  exclusions: SourceExclusions,
+): FileCoverage | undefined {
+  const isExcluded = (line: number) =>
+    exclusions.file || exclusions.lines.has(line);
+  const isBranchExcluded = (line: number) =>
+    isExcluded(line) || exclusions.branchLines.has(line);
+
+  const excludedArms = excludedArmsOf(coverage.branches, exclusions);
+
+  const lines = coverage.lines.filter((l) => !isExcluded(l.line));
+  const functions = coverage.functions.filter((f) => !isExcluded(f.line));
+  const branches = coverage.branches.filter(
+    (b) => !isBranchExcluded(b.line) && !excludedArms.has(b),
+  );
+  const mcdc = (coverage.mcdc ?? []).filter((m) => !isBranchExcluded(m.line));
+
+  const counts: ExclusionCounts = {
+    lines: coverage.lines.length - lines.length,
+    functions: coverage.functions.length - functions.length,
+    branches: coverage.branches.length - branches.length,
+  };
+  const removedMcdc = (coverage.mcdc?.length ?? 0) - mcdc.length;
+  if (counts.lines + counts.functions + counts.branches + removedMcdc === 0) {
+    return undefined;
+  }
+
+  const excludedNames = new Set(
+    coverage.functions.filter((f) => isExcluded(f.line)).map((f) => f.name),
+  );
+  const tests = coverage.tests?.map((test) => ({
+    ...test,
+    lines: test.lines.filter((line) => !isExcluded(line)),
+    functions: test.functions.filter((name) => !excludedNames.has(name)),
+  }));
+
+  return {
+    ...buildFileCoverage(coverage.path, functions, lines, branches, mcdc),
+    ...(tests && { tests }),
+    excluded: counts,
+  };
+}
+
+/**
+ * The branch records `ignore if`/`else` drop: the listed arms of the first
+ * block (lowest block number) on each hinted line, counting arms by branch
+ * number.
+ */
+function excludedArmsOf(
+  branches: BranchCoverage[],
+  exclusions: SourceExclusions,
+): Set<BranchCoverage> {
+  const excluded = new Set<BranchCoverage>();
+  for (const [line, arms] of exclusions.branchArms) {
+    const onLine = branches.filter((b) => b.line === line);
+    const block = Math.min(...onLine.map((b) => b.block));
+    onLine
+      .filter((b) => b.block === block)
+      .sort((a, b) => a.branch - b.branch)
+      .forEach((branch, arm) => {
+        if (arms.has(arm)) excluded.add(branch);
+      });
+  }
+  return excluded;
+}
+
+// Blank, or only a `//` or single-line `/* */` comment.
+const COMMENT_ONLY_LINE = /^\s*(?:\/\/.*|\/\*.*\*\/\s*)?$/;
+
+/**
+ * The line span of the statement an `ignore next` comment at `column` of line
+ * `index` applies to: the code after the comment on the same line, or else the
+ * next line holding code, extended until its braces balance. Stacked hints
+ * (`ignore if` above `ignore else`) thus reach the same statement.
+ */
+function nextStatement(
+  sourceLines: string[],
+  index: number,
+  column: number,
+): { start: number; end: number } {
+  // A line comment runs to the end of the line; a block comment may be
+  // followed by the statement itself.
+  const text = sourceLines[index] ?? "";
+  const commentEnd = text.indexOf("*/", column);
+  const rest = commentEnd === -1 ? "" : text.slice(commentEnd + 2);
+  let startIndex = index;
+  if (rest.trim() === "") {
+    startIndex = index + 1;
+    while (
+      startIndex < sourceLines.length &&
+      COMMENT_ONLY_LINE.test(sourceLines[startIndex] ?? "")
+    ) {
+      startIndex++;
+    }
+  }
+
+  let depth = 0;
+  let endIndex = startIndex;
+  for (; endIndex < sourceLines.length; endIndex++) {
+    const code = sourceLines[endIndex] ?? "";
+    depth += countOf(code, "{") - countOf(code, "}");
+    if (depth <= 0) break;
+  }
+
+  return {
+    start: startIndex + 1,
+    end: Math.min(endIndex, sourceLines.length - 1) + 1,
+  };
+}
+
+/**
+ * Lines of the block opened by line `index` (one ending in `:` before its
+ * comment), i.e. the following lines indented deeper than it.
+ */
+function indentedBlock(sourceLines: string[], index: number): number[] {
+  const header = sourceLines[index] ?? "";
+  if (!header.replace(/#.*$/, "").trimEnd().endsWith(":")) return [];
+
+  const indent = indentOf(header);
+  const block: number[] = [];
+  for (let next = index + 1; next < sourceLines.length; next++) {
+    const text = sourceLines[next] ?? "";
+    if (text.trim() !== "" && indentOf(text) <= indent) break;
+    block.push(next + 1);
+  }
+  return block;
+}
+
+function indentOf(text: string): number {
+  return text.length - text.trimStart().length;
+}
+
+function countOf(text: string, character: string): number {
+  return text.split(character).length - 1;
+}
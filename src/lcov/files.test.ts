@@ -0,0 +1,69 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import { resolveCoverageFiles } from "./files";
+
+describe("resolveCoverageFiles", () => {
+  let workspace: string;
+
+  const touch = (relativePath: string) => {
+    const filePath = path.join(workspace, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, "");
+  };
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), "coverage-files-"));
+    touch("packages/web/coverage/lcov.info");
+    touch("packages/api/coverage/lcov.info");
+    touch("packages/api/node_modules/dep/coverage/lcov.info");
+    touch("coverage/unit/lcov.info");
+    touch("coverage/integration/lcov.info");
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it("should expand globs relative to the working directory", () => {
+    expect(
+      resolveCoverageFiles(["./packages/*/coverage/lcov.info"], workspace),
+    ).toEqual([
+      "packages/api/coverage/lcov.info",
+      "packages/web/coverage/lcov.info",
+    ]);
+  });
+
+  it("should skip node_modules when walking for globstar patterns", () => {
+    expect(resolveCoverageFiles(["**/lcov.info"], workspace)).toEqual([
+      "coverage/integration/lcov.info",
+      "coverage/unit/lcov.info",
+      "packages/api/coverage/lcov.info",
+      "packages/web/coverage/lcov.info",
+    ]);
+  });
+
+  it("should keep plain paths and drop duplicates", () => {
+    expect(
+      resolveCoverageFiles(
+        [
+          "coverage/unit/lcov.info",
+          "coverage/{unit,integration}/lcov.info",
+          "missing/lcov.info",
+        ],
+        workspace,
+      ),
+    ).toEqual([
+      "coverage/unit/lcov.info",
+      "coverage/integration/lcov.info",
+      "missing/lcov.info",
+    ]);
+  });
+
+  it("should throw when a glob matches nothing", () => {
+    expect(() => resolveCoverageFiles(["reports/**/*.xml"], workspace)).toThrow(
+      "No coverage files match pattern: reports/**/*.xml",
+    );
+  });
+});
@@ -0,0 +1,59 @@
+import * as fs from "fs";
+import * as path from "path";
+import picomatch from "picomatch";
+
+// Directories that never hold the project's own coverage reports but can be
+// very large to walk.
+const SKIPPED_DIRECTORIES = new Set([".git", "node_modules"]);
+
+/**
+ * Expand coverage file patterns into the files to read. Plain paths are kept
+ * as given (a missing file is reported when it is read); patterns with glob
+ * syntax (`*`, `**`, `{a,b}`, ...) are matched relative to `cwd` and must match
+ * at least one file. The result is sorted per pattern and free of duplicates.
+ */
+export function resolveCoverageFiles(
+  patterns: string[],
+  cwd: string = process.cwd(),
+): string[] {
+  const files = new Set<string>();
+
+  for (const pattern of patterns) {
+    const normalized = pattern.replace(/\\/g, "/").replace(/^\.\//, "");
+    const scan = picomatch.scan(normalized);
+    if (!scan.isGlob) {
+      files.add(pattern);
+      continue;
+    }
+
+    const absolute = path.isAbsolute(normalized);
+    const isMatch = picomatch(normalized, { dot: true });
+    const matches = walkFiles(path.resolve(cwd, scan.base))
+      .map((file) =>
+        absolute
+          ? file.split(path.sep).join("/")
+          : path.relative(cwd, file).split(path.sep).join("/"),
+      )
+      .filter((file) => isMatch(file))
+      .sort();
+
+    if (matches.length === 0) {
+      throw new Error(`No coverage files match pattern: ${pattern}`);
+    }
+    matches.forEach((file) => files.add(file));
+  }
+
+  return [...files];
+}
+
+function walkFiles(directory: string): string[] {
+  if (!fs.existsSync(directory)) return [];
+
+  return fs.readdirSync(directory, { withFileTypes: true }).flatMap((entry) => {
+    const entryPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      return SKIPPED_DIRECTORIES.has(entry.name) ? [] : walkFiles(entryPath);
+    }
+    return entry.isFile() ? [entryPath] : [];
+  });
+}
@@ -0,0 +1,77 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import { parseGoCover } from "./gocover";
+
+describe("parseGoCover", () => {
+  const profile = `mode: count
+github.com/acme/shop/cart/cart.go:10.30,12.16 2 5
+github.com/acme/shop/cart/cart.go:12.16,14.3 1 0
+github.com/acme/shop/cart/cart.go:15.2,15.12 1 5
+github.com/acme/shop/cart/cart.go:20.1,20.1 0 0
+github.com/acme/shop/main.go:5.13,7.2 1 1
+`;
+
+  let workspace: string;
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), "gocover-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it("should expand blocks into lines, keeping the highest count per line", () => {
+    fs.writeFileSync(
+      path.join(workspace, "go.mod"),
+      "module github.com/acme/shop\n\ngo 1.22\n",
+    );
+
+    const result = parseGoCover(profile, workspace);
+    const file = result.files.get("cart/cart.go");
+
+    expect([...result.files.keys()]).toEqual(["cart/cart.go", "main.go"]);
+    expect(file!.lines).toEqual([
+      { line: 10, hit: 5 },
+      { line: 11, hit: 5 },
+      { line: 12, hit: 5 },
+      { line: 13, hit: 0 },
+      { line: 14, hit: 0 },
+      { line: 15, hit: 5 },
+    ]);
+    expect(file!.functions).toEqual([]);
+    expect(file!.branches).toEqual([]);
+    expect(file!.summary.linesFound).toBe(6);
+    expect(file!.summary.linesHit).toBe(4);
+    expect(result.summary.totalFiles).toBe(2);
+  });
+
+  it("should read set-mode profiles and skip repeated mode headers", () => {
+    fs.writeFileSync(path.join(workspace, "go.mod"), "module example.com/m\n");
+
+    const result = parseGoCover(
+      `mode: set
+example.com/m/a.go:1.1,1.10 1 1
+mode: set
+example.com/m/a.go:2.1,2.10 1 0
+`,
+      workspace,
+    );
+
+    expect(result.files.get("a.go")!.lines).toEqual([
+      { line: 1, hit: 1 },
+      { line: 2, hit: 0 },
+    ]);
+  });
+
+  it("should keep import paths when there is no go.mod", () => {
+    const result = parseGoCover(profile, workspace);
+
+    expect([...result.files.keys()]).toEqual([
+      "github.com/acme/shop/cart/cart.go",
+      "github.com/acme/shop/main.go",
+    ]);
+  });
+});
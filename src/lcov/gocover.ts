@@ -0,0 +1,84 @@
+import * as fs from "fs";
+import * as path from "path";
+
+import { toWorkspaceRelative } from "./paths";
+import { aggregateSummary, buildFileCoverage } from "./coverage";
+import type { FileCoverage, LcovReport, LineCoverage } from "./types";
+
+// `file:startLine.startCol,endLine.endCol numStmts count`
+const BLOCK = /^(.+):(\d+)\.\d+,(\d+)\.\d+\s+(\d+)\s+(\d+)$/;
+
+const MODULE_DIRECTIVE = /^module\s+"?([^"\s]+)"?/m;
+
+/**
+ * Parse a Go coverage profile (`go test -coverprofile`) into the
+ * {@link LcovReport} model.
+ *
+ * The profile lists statement blocks rather than lines. Every line a block
+ * spans becomes a {@link LineCoverage} entry, and a line shared by several
+ * blocks (e.g. `} else {`) takes the highest count among them. The `mode`
+ * header only changes what the counts mean (`set` records 0/1, `count` and
+ * `atomic` record executions), so all three are read the same way; repeated
+ * headers from concatenated profiles are skipped. Profiles carry no function
+ * or branch records.
+ *
+ * Files are named by import path (`github.com/org/repo/pkg/x.go`); the module
+ * path declared in the workspace's `go.mod` is stripped so they line up with
+ * the changeset.
+ */
+export function parseGoCover(
+  content: string,
+  workspace: string = process.cwd(),
+): LcovReport {
+  const modulePath = readModulePath(workspace);
+  const hitsByFile = new Map<string, Map<number, number>>();
+
+  for (const rawLine of content.split("\n")) {
+    const match = BLOCK.exec(rawLine.trim());
+    if (!match) continue;
+
+    const [, name = "", start, end, statements, count] = match;
+    if (parseInt(statements ?? "0", 10) === 0) continue;
+
+    const hits = hitsByFile.get(name) ?? new Map<number, number>();
+    hitsByFile.set(name, hits);
+
+    const hit = parseInt(count ?? "0", 10);
+    const endLine = parseInt(end ?? "0", 10);
+    for (let line = parseInt(start ?? "0", 10); line <= endLine; line++) {
+      hits.set(line, Math.max(hits.get(line) ?? 0, hit));
+    }
+  }
+
+  const files = new Map<string, FileCoverage>();
+  for (const [name, hits] of hitsByFile) {
+    const filePath = resolveImportPath(name, modulePath, workspace);
+    const lines: LineCoverage[] = [...hits]
+      .sort(([a], [b]) => a - b)
+      .map(([line, hit]) => ({ line, hit }));
+    files.set(filePath, buildFileCoverage(filePath, [], lines, []));
+  }
+
+  return { files, summary: aggregateSummary(files) };
+}
+
+function readModulePath(workspace: string): string | undefined {
+  const goMod = path.join(workspace, "go.mod");
+  if (!fs.existsSync(goMod)) return undefined;
+  return MODULE_DIRECTIVE.exec(fs.readFileSync(goMod, "utf8"))?.[1];
+}
+
+function resolveImportPath(
+  name: string,
+  modulePath: string | undefined,
+  workspace: string,
+): string {
+  if (modulePath && name.startsWith(`${modulePath}/`)) {
+    return name.slice(modulePath.length + 1);
+  }
+  // Packages built outside module mode are recorded by absolute path.
+  if (path.isAbsolute(name)) {
+    return toWorkspaceRelative(name, workspace) ?? name;
+  }
+  return name;
+}
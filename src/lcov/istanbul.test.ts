@@ -0,0 +1,85 @@
+import { parseIstanbul } from "./istanbul";
+
+describe("parseIstanbul", () => {
+  const workspace = "/home/runner/work/repo/repo";
+  const range = (startLine: number, endLine: number) => ({
+    start: { line: startLine, column: 0 },
+    end: { line: endLine, column: 1 },
+  });
+
+  const report = {
+    [`${workspace}/src/math.ts`]: {
+      path: `${workspace}/src/math.ts`,
+      statementMap: {
+        "0": range(2, 2),
+        "1": range(3, 3),
+        "2": range(3, 3),
+        "3": range(7, 7),
+        "4": range(10, 10),
+      },
+      fnMap: {
+        "0": { name: "add", decl: range(1, 1), loc: range(1, 4), line: 1 },
+        "1": { name: "", decl: range(6, 6), loc: range(6, 8), line: 6 },
+      },
+      branchMap: {
+        "0": {
+          type: "if",
+          loc: range(3, 3),
+          locations: [range(3, 3), range(3, 3)],
+          line: 3,
+        },
+      },
+      s: { "0": 4, "1": 0, "2": 3, "3": 0, "4": 1 },
+      f: { "0": 4, "1": 0 },
+      b: { "0": [3, 0] },
+    },
+  };
+
+  it("should map statements, branches and functions into the LCOV model", () => {
+    const result = parseIstanbul(JSON.stringify(report), workspace);
+    const file = result.files.get("src/math.ts");
+
+    expect(file).toBeDefined();
+    expect(file!.lines).toEqual([
+      { line: 2, hit: 4 },
+      { line: 3, hit: 3 },
+      { line: 7, hit: 0 },
+      { line: 10, hit: 1 },
+    ]);
+    expect(file!.branches).toEqual([
+      { line: 3, block: 0, branch: 0, taken: 3 },
+      { line: 3, block: 0, branch: 1, taken: 0 },
+    ]);
+    expect(file!.functions).toEqual([
+      { name: "add", line: 1, hit: 4, endLine: 4 },
+      { name: "(anonymous_1)", line: 6, hit: 0, endLine: 8 },
+    ]);
+    expect(file!.summary).toEqual({
+      functionsFound: 2,
+      functionsHit: 1,
+      linesFound: 4,
+      linesHit: 3,
+      branchesFound: 2,
+      branchesHit: 1,
+    });
+    expect(result.summary.totalFiles).toBe(1);
+  });
+
+  it("should keep paths outside the workspace as recorded", () => {
+    const result = parseIstanbul(
+      JSON.stringify({ "C:\\build\\src\\a.js": { s: {}, statementMap: {} } }),
+      workspace,
+    );
+
+    expect([...result.files.keys()]).toEqual(["C:/build/src/a.js"]);
+  });
+
+  it("should reject content that is not an Istanbul JSON object", () => {
+    expect(() => parseIstanbul("SF:src/a.ts", workspace)).toThrow(
+      /^Invalid Istanbul coverage JSON: /,
+    );
+    expect(() => parseIstanbul("[]", workspace)).toThrow(
+      "Invalid Istanbul coverage JSON: expected an object keyed by file path",
+    );
+  });
+});
@@ -0,0 +1,140 @@
+import { toErrorMessage } from "../errors";
+import { toWorkspaceRelative } from "./paths";
+import { aggregateSummary, buildFileCoverage } from "./coverage";
+import type {
+  BranchCoverage,
+  FileCoverage,
+  FunctionCoverage,
+  LcovReport,
+  LineCoverage,
+} from "./types";
+
+interface IstanbulPosition {
+  line: number;
+  column?: number | null;
+}
+
+interface IstanbulRange {
+  start: IstanbulPosition;
+  end: IstanbulPosition;
+}
+
+interface IstanbulFunction {
+  name?: string;
+  decl?: IstanbulRange;
+  loc?: IstanbulRange;
+  line?: number;
+}
+
+interface IstanbulBranch {
+  loc?: IstanbulRange;
+  line?: number;
+}
+
+/** One entry of `coverage-final.json`, as written by istanbul/nyc/c8/jest. */
+interface IstanbulFileCoverage {
+  path?: string;
+  statementMap?: Record<string, IstanbulRange>;
+  fnMap?: Record<string, IstanbulFunction>;
+  branchMap?: Record<string, IstanbulBranch>;
+  s?: Record<string, number>;
+  f?: Record<string, number>;
+  b?: Record<string, number[]>;
+}
+
+/**
+ * Parse an Istanbul JSON report (`coverage-final.json`) into the
+ * {@link LcovReport} model.
+ *
+ * Istanbul counts statements rather than lines; a line's hit count is the
+ * highest count of any statement starting on it, which is what Istanbul's own
+ * LCOV reporter emits. Unlike LCOV, functions carry their full source location,
+ * so each function keeps its end line and function spans no longer have to be
+ * inferred from the next function's declaration.
+ *
+ * Istanbul records absolute paths; those inside `workspace` are made relative
+ * so they line up with the changeset.
+ */
+export function parseIstanbul(
+  content: string,
+  workspace: string = process.cwd(),
+): LcovReport {
+  let data: Record<string, IstanbulFileCoverage>;
+  try {
+    data = JSON.parse(content) as Record<string, IstanbulFileCoverage>;
+  } catch (error) {
+    throw new Error(
+      `Invalid Istanbul coverage JSON: ${toErrorMessage(error)}`,
+      {
+        cause: error,
+      },
+    );
+  }
+  if (data === null || typeof data !== "object" || Array.isArray(data)) {
+    throw new Error(
+      "Invalid Istanbul coverage JSON: expected an object keyed by file path",
+    );
+  }
+
+  const files = new Map<string, FileCoverage>();
+  for (const [key, entry] of Object.entries(data)) {
+    if (entry === null || typeof entry !== "object") continue;
+
+    const rawPath = (entry.path ?? key).replace(/\\/g, "/");
+    const filePath = toWorkspaceRelative(rawPath, workspace) ?? rawPath;
+    files.set(
+      filePath,
+      buildFileCoverage(
+        filePath,
+        toFunctions(entry),
+        toLines(entry),
+        toBranches(entry),
+      ),
+    );
+  }
+
+  return { files, summary: aggregateSummary(files) };
+}
+
+function toLines(entry: IstanbulFileCoverage): LineCoverage[] {
+  const hitsByLine = new Map<number, number>();
+  for (const [id, range] of Object.entries(entry.statementMap ?? {})) {
+    const line = range.start.line;
+    const hit = entry.s?.[id] ?? 0;
+    hitsByLine.set(line, Math.max(hitsByLine.get(line) ?? 0, hit));
+  }
+
+  return [...hitsByLine]
+    .sort(([a], [b]) => a - b)
+    .map(([line, hit]) => ({ line, hit }));
+}
+
+function toFunctions(entry: IstanbulFileCoverage): FunctionCoverage[] {
+  const functions: FunctionCoverage[] = [];
+  for (const [id, func] of Object.entries(entry.fnMap ?? {})) {
+    const line = func.decl?.start.line ?? func.loc?.start.line ?? func.line;
+    if (line === undefined) continue;
+
+    const endLine = func.loc?.end.line;
+    functions.push({
+      name: func.name || `(anonymous_${id})`,
+      line,
+      hit: entry.f?.[id] ?? 0,
+      ...(endLine !== undefined && endLine >= line ? { endLine } : {}),
+    });
+  }
+  return functions;
+}
+
+function toBranches(entry: IstanbulFileCoverage): BranchCoverage[] {
+  const branches: BranchCoverage[] = [];
+  for (const [id, branch] of Object.entries(entry.branchMap ?? {})) {
+    const line = branch.loc?.start.line ?? branch.line;
+    if (line === undefined) continue;
+
+    (entry.b?.[id] ?? []).forEach((taken, index) => {
+      branches.push({ line, block: Number(id), branch: index, taken });
+    });
+  }
+  return branches;
+}
@@ -0,0 +1,103 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import { parseJacoco } from "./jacoco";
+
+describe("parseJacoco", () => {
+  const report = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<!DOCTYPE report PUBLIC "-//JACOCO//DTD Report 1.1//EN" "report.dtd">
+<report name="service">
+  <sessioninfo id="host-1" start="1" dump="2"/>
+  <package name="com/example">
+    <class name="com/example/Greeter" sourcefilename="Greeter.java">
+      <method name="&lt;init&gt;" desc="()V" line="3">
+        <counter type="INSTRUCTION" missed="0" covered="3"/>
+        <counter type="METHOD" missed="0" covered="1"/>
+      </method>
+      <method name="greet" desc="(Z)Ljava/lang/String;" line="5">
+        <counter type="INSTRUCTION" missed="4" covered="0"/>
+        <counter type="BRANCH" missed="2" covered="0"/>
+        <counter type="METHOD" missed="1" covered="0"/>
+      </method>
+      <counter type="METHOD" missed="1" covered="1"/>
+    </class>
+    <class name="com/example/Greeter$Inner" sourcefilename="Greeter.java">
+      <method name="run" desc="()V" line="12">
+        <counter type="METHOD" missed="0" covered="1"/>
+      </method>
+    </class>
+    <sourcefile name="Greeter.java">
+      <line nr="3" mi="0" ci="3" mb="0" cb="0"/>
+      <line nr="5" mi="2" ci="0" mb="1" cb="1"/>
+      <line nr="6" mi="2" ci="0" mb="0" cb="0"/>
+      <line nr="12" mi="0" ci="1" mb="0" cb="0"/>
+      <counter type="LINE" missed="2" covered="2"/>
+    </sourcefile>
+  </package>
+</report>`;
+
+  it("should map lines, branches and methods into the LCOV model", () => {
+    const result = parseJacoco(report, ["src/main/java"], "/nonexistent");
+    const file = result.files.get("src/main/java/com/example/Greeter.java");
+
+    expect(file).toBeDefined();
+    expect(file!.lines).toEqual([
+      { line: 3, hit: 3 },
+      { line: 5, hit: 0 },
+      { line: 6, hit: 0 },
+      { line: 12, hit: 1 },
+    ]);
+    expect(file!.branches).toEqual([
+      { line: 5, block: 0, branch: 0, taken: 1 },
+      { line: 5, block: 0, branch: 1, taken: 0 },
+    ]);
+    expect(file!.functions).toEqual([
+      { name: "<init>", line: 3, hit: 1 },
+      { name: "greet", line: 5, hit: 0 },
+      { name: "run", line: 12, hit: 1 },
+    ]);
+    expect(file!.summary).toEqual({
+      functionsFound: 3,
+      functionsHit: 2,
+      linesFound: 4,
+      linesHit: 2,
+      branchesFound: 2,
+      branchesHit: 1,
+    });
+    expect(result.summary.totalFiles).toBe(1);
+  });
+
+  it("should keep package-relative paths without source roots", () => {
+    const result = parseJacoco(report, [], "/nonexistent");
+
+    expect([...result.files.keys()]).toEqual(["com/example/Greeter.java"]);
+  });
+
+  describe("with a workspace on disk", () => {
+    let workspace: string;
+
+    beforeEach(() => {
+      workspace = fs.mkdtempSync(path.join(os.tmpdir(), "jacoco-"));
+      const dir = path.join(workspace, "service/src/main/java/com/example");
+      fs.mkdirSync(dir, { recursive: true });
+      fs.writeFileSync(path.join(dir, "Greeter.java"), "class Greeter {}\n");
+    });
+
+    afterEach(() => {
+      fs.rmSync(workspace, { recursive: true, force: true });
+    });
+
+    it("should pick the source root that contains the file", () => {
+      const result = parseJacoco(
+        report,
+        ["api/src/main/java", "service/src/main/java"],
+        workspace,
+      );
+
+      expect([...result.files.keys()]).toEqual([
+        "service/src/main/java/com/example/Greeter.java",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,169 @@
+import * as fs from "fs";
+import * as path from "path";
+
+import { aggregateSummary, buildFileCoverage } from "./coverage";
+import type {
+  BranchCoverage,
+  FileCoverage,
+  FunctionCoverage,
+  LcovReport,
+  LineCoverage,
+} from "./types";
+import { scanXml } from "./xml";
+
+/** Records collected for one `package/sourcefile` pair. */
+interface JacocoFile {
+  lines: LineCoverage[];
+  branches: BranchCoverage[];
+  functions: FunctionCoverage[];
+}
+
+/** A `<method>` being scanned; its hit comes from its METHOD counter. */
+interface CurrentMethod {
+  name: string;
+  line: number;
+  hit: number;
+}
+
+const int = (value: string | undefined): number => parseInt(value ?? "0", 10);
+
+/**
+ * Parse a JaCoCo XML report (`jacoco.xml`) into the {@link LcovReport} model.
+ *
+ * JaCoCo reports per-line instruction and branch counters rather than hit
+ * counts: a line's covered instructions (`ci`) stand in for its hit count, and
+ * its `mb`/`cb` counters expand into that many missed and covered branches.
+ * Methods come from `<method line>` and count as hit when their METHOD counter
+ * reports a covered method.
+ *
+ * Files are identified by package directory and source file name (e.g.
+ * `com/example/Foo.java`), which is relative to a source root rather than the
+ * repository. Each file is placed under the first of `sourceRoots` where it
+ * exists in `workspace`, falling back to the first root when none match.
+ */
+export function parseJacoco(
+  content: string,
+  sourceRoots: string[] = [],
+  workspace: string = process.cwd(),
+): LcovReport {
+  const filesByName = new Map<string, JacocoFile>();
+  let packageName = "";
+  let currentClassFile: JacocoFile | null = null;
+  let currentSourceFile: JacocoFile | null = null;
+  let currentMethod: CurrentMethod | null = null;
+
+  const fileFor = (sourceFileName: string): JacocoFile => {
+    const key = packageName
+      ? `${packageName}/${sourceFileName}`
+      : sourceFileName;
+    const file = filesByName.get(key) ?? {
+      lines: [],
+      branches: [],
+      functions: [],
+    };
+    filesByName.set(key, file);
+    return file;
+  };
+
+  scanXml(content, {
+    open: (name, attributes) => {
+      switch (name) {
+        case "package":
+          packageName = attributes.name ?? "";
+          break;
+        // Methods are declared on classes, which name their source file; an
+        // inner class shares its outer class's file.
+        case "class":
+          currentClassFile = attributes.sourcefilename
+            ? fileFor(attributes.sourcefilename)
+            : null;
+          break;
+        case "method":
+          if (currentClassFile && attributes.name && attributes.line) {
+            currentMethod = {
+              name: attributes.name,
+              line: int(attributes.line),
+              hit: 0,
+            };
+          }
+          break;
+        case "counter":
+          if (currentMethod && attributes.type === "METHOD") {
+            currentMethod.hit = int(attributes.covered);
+          }
+          break;
+        case "sourcefile":
+          currentSourceFile = attributes.name ? fileFor(attributes.name) : null;
+          break;
+        case "line":
+          if (currentSourceFile && attributes.nr) {
+            applyLine(currentSourceFile, attributes);
+          }
+          break;
+      }
+    },
+    close: (name) => {
+      switch (name) {
+        case "package":
+          packageName = "";
+          break;
+        case "class":
+          currentClassFile = null;
+          break;
+        case "method":
+          if (currentClassFile && currentMethod) {
+            currentClassFile.functions.push(currentMethod);
+          }
+          currentMethod = null;
+          break;
+        case "sourcefile":
+          currentSourceFile = null;
+          break;
+      }
+    },
+  });
+
+  const files = new Map<string, FileCoverage>();
+  for (const [name, file] of filesByName) {
+    const filePath = resolveSourcePath(name, sourceRoots, workspace);
+    files.set(
+      filePath,
+      buildFileCoverage(filePath, file.functions, file.lines, file.branches),
+    );
+  }
+
+  return { files, summary: aggregateSummary(files) };
+}
+
+function applyLine(file: JacocoFile, attributes: Record<string, string>) {
+  const line = int(attributes.nr);
+  file.lines.push({ line, hit: int(attributes.ci) });
+
+  const missedBranches = int(attributes.mb);
+  const coveredBranches = int(attributes.cb);
+  for (let branch = 0; branch < missedBranches + coveredBranches; branch++) {
+    file.branches.push({
+      line,
+      block: 0,
+      branch,
+      taken: branch < coveredBranches ? 1 : 0,
+    });
+  }
+}
+
+function resolveSourcePath(
+  name: string,
+  sourceRoots: string[],
+  workspace: string,
+): string {
+  const candidates = sourceRoots.map((root) =>
+    path.posix.join(root.replace(/\\/g, "/"), name),
+  );
+  return (
+    candidates.find((candidate) =>
+      fs.existsSync(path.join(workspace, candidate)),
+    ) ??
+    candidates[0] ??
+    name
+  );
+}
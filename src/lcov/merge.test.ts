@@ -0,0 +1,150 @@
+import { Readable } from "stream";
+
+import { mergeReports } from "./merge";
+import { LcovParser } from "./parser";
+
+describe("mergeReports", () => {
+  const unit = LcovParser.parse(`SF:src/cart.ts
+FN:1,addItem
+FN:10,clear
+FNDA:3,addItem
+FNDA:0,clear
+DA:2,3
+DA:3,0
+DA:11,0
+BRDA:2,0,0,3
+BRDA:2,0,1,0
+end_of_record
+SF:src/only-unit.ts
+DA:1,1
+end_of_record`);
+
+  const integration = LcovParser.parse(`SF:src/cart.ts
+FN:10,clear
+FN:20,checkout
+FNDA:2,clear
+FNDA:1,checkout
+DA:2,1
+DA:11,2
+DA:21,1
+BRDA:2,0,1,4
+BRDA:21,1,0,0
+end_of_record`);
+
+  it("should sum hits of files reported more than once", () => {
+    const merged = mergeReports([unit, integration]);
+    const cart = merged.files.get("src/cart.ts");
+
+    expect(cart!.lines).toEqual([
+      { line: 2, hit: 4 },
+      { line: 3, hit: 0 },
+      { line: 11, hit: 2 },
+      { line: 21, hit: 1 },
+    ]);
+    expect(cart!.functions).toEqual([
+      { name: "addItem", line: 1, hit: 3 },
+      { name: "clear", line: 10, hit: 2 },
+      { name: "checkout", line: 20, hit: 1 },
+    ]);
+    expect(cart!.branches).toEqual([
+      { line: 2, block: 0, branch: 0, taken: 3 },
+      { line: 2, block: 0, branch: 1, taken: 4 },
+      { line: 21, block: 1, branch: 0, taken: 0 },
+    ]);
+    expect(cart!.summary).toEqual({
+      functionsFound: 3,
+      functionsHit: 3,
+      linesFound: 4,
+      linesHit: 3,
+      branchesFound: 3,
+      branchesHit: 2,
+    });
+  });
+
+  it("should keep files reported once and recompute the report summary", () => {
+    const merged = mergeReports([unit, integration]);
+
+    expect(merged.files.get("src/only-unit.ts")).toBe(
+      unit.files.get("src/only-unit.ts"),
+    );
+    expect(merged.summary).toEqual({
+      totalFiles: 2,
+      functionsFound: 3,
+      functionsHit: 3,
+      linesFound: 5,
+      linesHit: 4,
+      branchesFound: 3,
+      branchesHit: 2,
+    });
+  });
+
+  it("should union per-test attribution by test name", () => {
+    const run = (test: string, line: number) =>
+      LcovParser.parse(`TN:${test}\nSF:src/a.ts\nDA:${line},1\nend_of_record`);
+
+    const merged = mergeReports([
+      run("unit", 1),
+      run("e2e", 5),
+      run("unit", 3),
+    ]);
+
+    expect(merged.files.get("src/a.ts")!.tests).toEqual([
+      { name: "unit", lines: [1, 3], functions: [] },
+      { name: "e2e", lines: [5], functions: [] },
+    ]);
+  });
+
+  it("should combine tallied files exactly", async () => {
+    const tallied = (content: string) =>
+      LcovParser.parseStream(Readable.from([content]), () => false);
+
+    const merged = mergeReports([
+      await tallied(
+        "SF:src/cart.ts\nFN:1,addItem\nFNDA:0,addItem\nDA:2,3\nDA:3,0\nBRDA:2,0,0,0\nend_of_record",
+      ),
+      await tallied(
+        "SF:src/cart.ts\nFN:1,addItem\nFNDA:1,addItem\nDA:3,2\nDA:4,0\nBRDA:2,0,1,1\nend_of_record",
+      ),
+    ]);
+
+    expect(merged.files.get("src/cart.ts")).toMatchObject({
+      lines: [],
+      detailOmitted: true,
+      summary: {
+        functionsFound: 1,
+        functionsHit: 1,
+        linesFound: 3,
+        linesHit: 2,
+        branchesFound: 2,
+        branchesHit: 1,
+      },
+    });
+  });
+
+  it("should combine files without detail by their highest counts", () => {
+    const countsOnly = (linesFound: number, linesHit: number) => ({
+      path: "src/big.cc",
+      functions: [],
+      lines: [],
+      branches: [],
+      summary: {
+        functionsFound: 0,
+        functionsHit: 0,
+        linesFound,
+        linesHit,
+        branchesFound: 0,
+        branchesHit: 0,
+      },
+      detailOmitted: true,
+    });
+    const report = (linesFound: number, linesHit: number) => ({
+      files: new Map([["src/big.cc", countsOnly(linesFound, linesHit)]]),
+      summary: { ...countsOnly(0, 0).summary, totalFiles: 1 },
+    });
+
+    const merged = mergeReports([report(100, 40), report(100, 70)]);
+
+    expect(merged.files.get("src/big.cc")).toEqual(countsOnly(100, 70));
+    expect(merged.summary.linesHit).toBe(70);
+  });
+});
@@ -0,0 +1,46 @@
+import { aggregateSummary, mergeFileCoverage } from "./coverage";
+import type { FileCoverage, LcovReport } from "./types";
+
+/**
+ * Collect file coverage keyed by path, combining entries that share a path
+ * with {@link mergeFileCoverage}. Paths keep their first-seen order.
+ */
+export function mergeFilesByPath(
+  entries: Iterable<FileCoverage>,
+): Map<string, FileCoverage> {
+  const coveragesByPath = new Map<string, FileCoverage[]>();
+  for (const coverage of entries) {
+    const coverages = coveragesByPath.get(coverage.path) ?? [];
+    coverages.push(coverage);
+    coveragesByPath.set(coverage.path, coverages);
+  }
+
+  const files = new Map<string, FileCoverage>();
+  for (const [filePath, coverages] of coveragesByPath) {
+    const [only] = coverages;
+    files.set(
+      filePath,
+      only && coverages.length === 1
+        ? only
+        : mergeFileCoverage(filePath, coverages),
+    );
+  }
+  return files;
+}
+
+/**
+ * Merge several reports into one, so coverage split across packages or test
+ * suites is analysed (and baseline-gated) as a single project. The
+ * diagnostics of every report are kept.
+ */
+export function mergeReports(reports: LcovReport[]): LcovReport {
+  const files = mergeFilesByPath(
+    reports.flatMap((report) => [...report.files.values()]),
+  );
+  const diagnostics = reports.flatMap((report) => report.diagnostics ?? []);
+  return {
+    files,
+    summary: aggregateSummary(files),
+    ...(diagnostics.length > 0 && { diagnostics }),
+  };
+}
@@ -1,26 +1,145 @@
 import * as fs from "fs";
 import * as path from "path";
+import type { Readable } from "stream";
 
+import type { CoverageFormat } from "../inputs";
+import { parseCobertura } from "./cobertura";
 import {
-  aggregateSummary,
-  applyRecordLine,
-  createParseState,
-  finalizeCurrentFile,
-} from "./records";
-import type { LcovReport } from "./types";
+  addToTally,
+  createTally,
+  tallyCoverage,
+  withoutDetail,
+} from "./coverage";
+import { type ConcreteCoverageFormat, detectCoverageFormat } from "./detect";
+import { applyExclusions } from "./exclusions";
+import { resolveCoverageFiles } from "./files";
+import { parseGoCover } from "./gocover";
+import { parseIstanbul } from "./istanbul";
+import { parseJacoco } from "./jacoco";
+import { mergeReports } from "./merge";
+import {
+  compilePathMappings,
+  normalizeCoveragePath,
+  normalizeReportPaths,
+} from "./paths";
+import { applyRecordLine, createParseState, finishParse } from "./records";
+import { openCoverageStream, readHead, readLines, readText } from "./stream";
+import type { CoverageParseOptions, FileCoverage, LcovReport } from "./types";
+
+/**
+ * Parsers for every supported input format. Each produces the same
+ * {@link LcovReport} model, so everything downstream is format-agnostic.
+ */
+const FORMAT_PARSERS: Record<
+  ConcreteCoverageFormat,
+  (content: string, options: CoverageParseOptions) => LcovReport
+> = {
+  lcov: (content) => LcovParser.parse(content),
+  cobertura: (content) => parseCobertura(content),
+  jacoco: (content, options) => parseJacoco(content, options.sourceRoots),
+  istanbul: (content) => parseIstanbul(content),
+  go: (content) => parseGoCover(content),
+};
 
 export class LcovParser {
   /**
-   * Parse an LCOV file from the filesystem into a structured report.
+   * Parse a coverage file from the filesystem into a structured report,
+   * reading it as `format` (LCOV unless stated otherwise). With `auto`, the
+   * format is detected from the start of the file; content that matches no
+   * supported format is rejected rather than read as an empty report.
+   * `.gz` files are decompressed transparently, and LCOV is read line by line.
+   * Files outside `detailPaths` keep only their summary; while an LCOV report
+   * is read, each of their blocks is reduced to a compact tally as it ends, so
+   * peak memory stays far below the report's size. Reported paths are
+   * normalised to repository paths (see {@link normalizeReportPaths}) so they
+   * match the changeset.
    */
-  static parseFile(filePath: string): LcovReport {
-    const absolutePath = path.resolve(filePath);
+  static async parseFile(
+    filePath: string,
+    format: CoverageFormat = "lcov",
+    options: CoverageParseOptions = {},
+  ): Promise<LcovReport> {
+    const keepDetail = detailFilter(options);
+    return omitDetail(
+      await parseReport(filePath, format, options, keepDetail),
+      keepDetail,
+    );
+  }
 
-    if (!fs.existsSync(absolutePath)) {
-      throw new Error(`LCOV file not found: ${absolutePath}`);
+  /**
+   * Parse every coverage file matched by `patterns` (plain paths or globs) and
+   * merge them into one report. A single match is returned as parsed. Files
+   * are parsed one after another to bound peak memory. Files outside
+   * `detailPaths` are reduced to tallies as each report is read, which still
+   * combine hits split across reports exactly.
+   */
+  static async parseFiles(
+    patterns: string[],
+    format: CoverageFormat = "lcov",
+    options: CoverageParseOptions = {},
+  ): Promise<LcovReport> {
+    const filePaths = resolveCoverageFiles(patterns);
+    const [onlyPath] = filePaths;
+    if (onlyPath !== undefined && filePaths.length === 1) {
+      return LcovParser.parseFile(onlyPath, format, options);
     }
 
-    return this.parse(fs.readFileSync(absolutePath, "utf8"));
+    const keepDetail = detailFilter(options);
+    const reports: LcovReport[] = [];
+    for (const filePath of filePaths) {
+      reports.push(await parseReport(filePath, format, options, keepDetail));
+    }
+    return omitDetail(mergeReports(reports), keepDetail);
+  }
+
+  /**
+   * Parse LCOV records from a text stream as they arrive. Files rejected by
+   * `keepDetail` keep only their summary counts and a tally that each of their
+   * blocks is folded into as it ends. `source` names the report in
+   * diagnostics.
+   */
+  static async parseStream(
+    stream: Readable,
+    keepDetail?: (path: string) => boolean,
+    source?: string,
+  ): Promise<LcovReport> {
+    const state = createParseState(keepDetail, source);
+
+    let lineNumber = 0;
+    for await (const rawLine of readLines(stream)) {
+      lineNumber++;
+      const line = rawLine.trim();
+      if (line.length > 0) {
+        applyRecordLine(state, line, lineNumber);
+      }
+    }
+
+    return finishParse(state);
+  }
+
+  /**
+   * Drop the records that exclusion pragmas (`LCOV_EXCL_LINE`,
+   * `istanbul ignore next`, `# pragma: no cover`, ...) exclude in the
+   * checked-out sources of `paths`, for reports exported without applying
+   * them. Paths missing from `workspace` are left as reported.
+   */
+  static applyExclusionPragmas(
+    report: LcovReport,
+    paths: string[],
+    workspace: string = process.cwd(),
+  ): LcovReport {
+    const sources = new Map<string, string>();
+    for (const repoPath of paths) {
+      try {
+        sources.set(
+          repoPath,
+          fs.readFileSync(path.join(workspace, repoPath), "utf8"),
+        );
+      } catch {
+        // Deleted or not checked out; nothing to exclude from.
+      }
+    }
+    return applyExclusions(report, sources);
   }
 
   /**
@@ -29,19 +148,120 @@ export class LcovParser {
   static parse(content: string): LcovReport {
     const state = createParseState();
 
-    for (const rawLine of content.split("\n")) {
+    for (const [index, rawLine] of content.split("\n").entries()) {
       const line = rawLine.trim();
       if (line.length > 0) {
-        applyRecordLine(state, line);
+        applyRecordLine(state, line, index + 1);
       }
     }
 
-    // Handle a trailing file that doesn't end with end_of_record.
-    finalizeCurrentFile(state);
+    return finishParse(state);
+  }
+}
+
+/**
+ * Read one coverage file as `format`, keeping the records of the files
+ * `keepDetail` accepts, or of every file when it is absent. Other files keep
+ * their tally until the caller drops it with {@link omitDetail}.
+ */
+async function parseReport(
+  filePath: string,
+  format: CoverageFormat,
+  options: CoverageParseOptions,
+  keepDetail?: (path: string) => boolean,
+): Promise<LcovReport> {
+  const absolutePath = path.resolve(filePath);
+
+  if (!fs.existsSync(absolutePath)) {
+    throw new Error(`LCOV file not found: ${absolutePath}`);
+  }
+
+  const mappings = compilePathMappings(options.pathMappings ?? []);
+  const resolvedFormat =
+    format === "auto"
+      ? resolveFormat(absolutePath, await readHead(absolutePath))
+      : format;
+  // `keepDetail` takes repository paths, but reported paths are only
+  // normalised once the report is read.
+  const keepReported =
+    keepDetail &&
+    ((reportedPath: string) =>
+      keepDetail(normalizeCoveragePath(reportedPath, mappings, process.cwd())));
+  // LCOV records are tallied as each block ends; the other formats must be
+  // read whole, so their records are tallied once parsed.
+  const report =
+    resolvedFormat === "lcov"
+      ? await LcovParser.parseStream(
+          openCoverageStream(absolutePath),
+          keepReported,
+          filePath,
+        )
+      : tallyDetail(
+          FORMAT_PARSERS[resolvedFormat](await readText(absolutePath), options),
+          keepReported,
+        );
+
+  return normalizeReportPaths(report, mappings);
+}
+
+/** The `detailPaths` option as a predicate, or undefined to keep every file. */
+function detailFilter(
+  options: CoverageParseOptions,
+): ((path: string) => boolean) | undefined {
+  const detailPaths = options.detailPaths && new Set(options.detailPaths);
+  return detailPaths && ((repoPath: string) => detailPaths.has(repoPath));
+}
+
+/** Reduce the files `keepDetail` rejects to their tallies. */
+function tallyDetail(
+  report: LcovReport,
+  keepDetail: ((path: string) => boolean) | undefined,
+): LcovReport {
+  if (!keepDetail) return report;
+
+  const files = new Map<string, FileCoverage>();
+  for (const [filePath, coverage] of report.files) {
+    if (keepDetail(filePath)) {
+      files.set(filePath, coverage);
+      continue;
+    }
+    const tally = createTally();
+    addToTally(tally, coverage);
+    files.set(filePath, tallyCoverage(filePath, tally));
+  }
+  return { ...report, files };
+}
+
+/**
+ * Drop the records of files `keepDetail` rejects, and the tallies that stood
+ * in for them while reports were merged; counts are unaffected.
+ */
+function omitDetail(
+  report: LcovReport,
+  keepDetail: ((path: string) => boolean) | undefined,
+): LcovReport {
+  if (!keepDetail) return report;
+
+  const files = new Map<string, FileCoverage>();
+  for (const [filePath, coverage] of report.files) {
+    files.set(
+      filePath,
+      !coverage.detailOmitted && keepDetail(filePath)
+        ? coverage
+        : withoutDetail(coverage),
+    );
+  }
+  return { ...report, files };
+}
 
-    return {
-      files: state.files,
-      summary: aggregateSummary(state.files),
-    };
+function resolveFormat(filePath: string, head: string): ConcreteCoverageFormat {
+  const detection = detectCoverageFormat(head);
+  if (detection.format === undefined) {
+    throw new Error(
+      `Unable to detect the coverage format of ${filePath}: found ${detection.detected}. ` +
+        `Expected one of: ${Object.keys(FORMAT_PARSERS).join(", ")}. ` +
+        `Set coverage-format explicitly if the report is in a supported format.`,
+    );
   }
+  return detection.format;
 }
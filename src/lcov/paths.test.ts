@@ -0,0 +1,133 @@
+import { LcovParser } from "./parser";
+import {
+  compilePathMappings,
+  normalizeCoveragePath,
+  normalizeReportPaths,
+  toWorkspaceRelative,
+} from "./paths";
+
+describe("toWorkspaceRelative", () => {
+  const workspace = "/home/runner/work/repo/repo";
+
+  it("should make paths inside the workspace relative", () => {
+    expect(toWorkspaceRelative(`${workspace}/src/a.ts`, workspace)).toBe(
+      "src/a.ts",
+    );
+    expect(toWorkspaceRelative("./src/b.ts", workspace)).toBe("src/b.ts");
+  });
+
+  it("should return undefined outside the workspace", () => {
+    expect(toWorkspaceRelative("/tmp/a.ts", workspace)).toBeUndefined();
+    expect(toWorkspaceRelative("../other/a.ts", workspace)).toBeUndefined();
+  });
+});
+
+describe("normalizeCoveragePath", () => {
+  const workspace = "/home/runner/work/repo/repo";
+
+  it.each([
+    [`${workspace}/src/a.ts`, "src/a.ts"],
+    ["./src/a.ts", "src/a.ts"],
+    ["src\\win\\a.ts", "src/win/a.ts"],
+    ["/builds/other/src/a.ts", "/builds/other/src/a.ts"],
+  ])("should normalise %s without rules", (reported, expected) => {
+    expect(normalizeCoveragePath(reported, [], workspace)).toBe(expected);
+  });
+
+  it("should apply the first matching prefix rule", () => {
+    const mappings = compilePathMappings([
+      "packages/api/=>",
+      "packages/=>libs/",
+      "=>packages/web/",
+    ]);
+
+    expect(
+      normalizeCoveragePath("packages/api/src/a.ts", mappings, workspace),
+    ).toBe("src/a.ts");
+    expect(
+      normalizeCoveragePath("packages/ui/src/b.ts", mappings, workspace),
+    ).toBe("libs/ui/src/b.ts");
+    expect(normalizeCoveragePath("src/c.ts", mappings, workspace)).toBe(
+      "packages/web/src/c.ts",
+    );
+  });
+
+  it("should apply rules after stripping the workspace prefix", () => {
+    const mappings = compilePathMappings(["/app/=>service/"]);
+
+    expect(normalizeCoveragePath("/app/main.py", mappings, workspace)).toBe(
+      "service/main.py",
+    );
+    expect(
+      normalizeCoveragePath(`${workspace}/app/main.py`, mappings, workspace),
+    ).toBe("app/main.py");
+  });
+
+  it("should support regex rules with group references", () => {
+    const mappings = compilePathMappings(["regex:^dist/(.*)\\.js$=>src/$1.ts"]);
+
+    expect(normalizeCoveragePath("dist/lib/a.js", mappings, workspace)).toBe(
+      "src/lib/a.ts",
+    );
+    expect(normalizeCoveragePath("lib/a.js", mappings, workspace)).toBe(
+      "lib/a.js",
+    );
+  });
+});
+
+describe("compilePathMappings", () => {
+  it("should reject rules without a separator", () => {
+    expect(() => compilePathMappings(["packages/api/"])).toThrow(
+      'Invalid path mapping "packages/api/". Expected the form "from=>to".',
+    );
+  });
+
+  it("should reject invalid regular expressions", () => {
+    expect(() => compilePathMappings(["regex:(unclosed=>x"])).toThrow(
+      /^Invalid path mapping "regex:\(unclosed=>x": /,
+    );
+  });
+});
+
+describe("normalizeReportPaths", () => {
+  it("should return the report untouched when no path changes", () => {
+    const report = LcovParser.parse("SF:src/a.ts\nDA:1,1\nend_of_record\n");
+
+    expect(normalizeReportPaths(report, [], "/repo")).toBe(report);
+  });
+
+  it("should re-key files and merge those that collide", () => {
+    const report = LcovParser.parse(`SF:/repo/src/a.ts
+DA:1,1
+DA:2,0
+end_of_record
+SF:./src/a.ts
+DA:2,2
+end_of_record
+SF:packages\\api\\src\\b.ts
+DA:1,0
+end_of_record
+`);
+
+    const normalized = normalizeReportPaths(
+      report,
+      compilePathMappings(["packages/api/=>"]),
+      "/repo",
+    );
+
+    expect([...normalized.files.keys()]).toEqual(["src/a.ts", "src/b.ts"]);
+    expect(normalized.files.get("src/a.ts")).toMatchObject({
+      path: "src/a.ts",
+      lines: [
+        { line: 1, hit: 1 },
+        { line: 2, hit: 2 },
+      ],
+    });
+    expect(normalized.files.get("src/b.ts")?.path).toBe("src/b.ts");
+    expect(normalized.summary).toMatchObject({
+      totalFiles: 2,
+      linesFound: 3,
+      linesHit: 2,
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import * as path from "path";
+
+import { toErrorMessage } from "../errors";
+import { aggregateSummary } from "./coverage";
+import { mergeFilesByPath } from "./merge";
+import type { LcovReport } from "./types";
+
+/**
+ * Express `filePath` relative to `workspace` with forward slashes, or return
+ * undefined when it lies outside the workspace. Relative inputs are resolved
+ * against the workspace first. Coverage tools often record absolute paths from
+ * the machine that ran the tests; only paths inside the checkout can be
+ * matched against the changeset.
+ */
+export function toWorkspaceRelative(
+  filePath: string,
+  workspace: string,
+): string | undefined {
+  const absolute = path.resolve(workspace, filePath.replace(/\\/g, "/"));
+  const relative = path.relative(workspace, absolute);
+  if (!relative || relative.startsWith("..") || path.isAbsolute(relative)) {
+    return undefined;
+  }
+  return relative.split(path.sep).join("/");
+}
+
+/** A compiled `from=>to` rewrite rule for reported file paths. */
+export interface PathMapping {
+  /** Returns the rewritten path, or undefined when the rule does not apply. */
+  apply: (filePath: string) => string | undefined;
+}
+
+const REGEX_PREFIX = "regex:";
+
+/**
+ * Compile `from=>to` rules. A plain `from` is a path prefix replaced by `to`
+ * (`packages/api/=>` drops the prefix, `=>packages/api/` adds it). A `from`
+ * starting with `regex:` is a regular expression and `to` may use `$1`-style
+ * group references.
+ */
+export function compilePathMappings(rules: string[]): PathMapping[] {
+  return rules.map((rule) => {
+    const separator = rule.indexOf("=>");
+    if (separator === -1) {
+      throw new Error(
+        `Invalid path mapping "${rule}". Expected the form "from=>to".`,
+      );
+    }
+    const from = rule.slice(0, separator).trim();
+    const to = rule.slice(separator + 2).trim();
+
+    if (from.startsWith(REGEX_PREFIX)) {
+      let pattern: RegExp;
+      try {
+        pattern = new RegExp(from.slice(REGEX_PREFIX.length));
+      } catch (error) {
+        throw new Error(
+          `Invalid path mapping "${rule}": ${toErrorMessage(error)}`,
+          { cause: error },
+        );
+      }
+      return {
+        apply: (filePath) =>
+          pattern.test(filePath) ? filePath.replace(pattern, to) : undefined,
+      };
+    }
+
+    const prefix = from.replace(/\\/g, "/");
+    return {
+      apply: (filePath) =>
+        filePath.startsWith(prefix)
+          ? to + filePath.slice(prefix.length)
+          : undefined,
+    };
+  });
+}
+
+/**
+ * Map a reported path onto the repository path the changeset uses: slashes are
+ * normalised, paths inside `workspace` (absolute or `./`-prefixed) are made
+ * workspace-relative, then the first matching rule in `mappings` is applied.
+ */
+export function normalizeCoveragePath(
+  filePath: string,
+  mappings: PathMapping[],
+  workspace: string,
+): string {
+  const normalized =
+    toWorkspaceRelative(filePath, workspace) ?? filePath.replace(/\\/g, "/");
+
+  for (const mapping of mappings) {
+    const mapped = mapping.apply(normalized);
+    if (mapped !== undefined) {
+      return toWorkspaceRelative(mapped, workspace) ?? mapped;
+    }
+  }
+  return normalized;
+}
+
+/**
+ * Re-key a report by {@link normalizeCoveragePath}. Files that end up at the
+ * same path (e.g. `./src/a.ts` and `src/a.ts`) are merged rather than one
+ * silently replacing the other.
+ */
+export function normalizeReportPaths(
+  report: LcovReport,
+  mappings: PathMapping[],
+  workspace: string = process.cwd(),
+): LcovReport {
+  let changed = false;
+  const renamed = [...report.files].map(([filePath, coverage]) => {
+    const normalized = normalizeCoveragePath(filePath, mappings, workspace);
+    changed ||= normalized !== filePath;
+    return { ...coverage, path: normalized };
+  });
+  if (!changed) return report;
+
+  const files = mergeFilesByPath(renamed);
+  return { ...report, files, summary: aggregateSummary(files) };
+}
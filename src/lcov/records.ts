@@ -1,9 +1,21 @@
+import {
+  addToTally,
+  aggregateSummary,
+  buildFileCoverage,
+  createTally,
+  mergeFileCoverage,
+  tallyCoverage,
+} from "./coverage";
 import type {
   BranchCoverage,
-  CoverageCounts,
+  CoverageTally,
   FileCoverage,
   FunctionCoverage,
+  LcovDiagnostic,
+  LcovReport,
   LineCoverage,
+  McdcCoverage,
+  TestCoverage,
 } from "./types";
 
 /**
@@ -15,46 +27,155 @@ interface CurrentFile {
   functions: FunctionCoverage[];
   lines: LineCoverage[];
   branches: BranchCoverage[];
+  mcdc: McdcCoverage[];
   /**
    * Maps the per-file function index used by modern LCOV 2.x FNL/FNA records
-   * to the line on which the function starts. Empty for legacy reports.
+   * to the lines on which the function starts and ends. Empty for legacy
+   * reports.
    */
-  functionLineByIndex: Map<number, number>;
+  functionLocationByIndex: Map<number, FunctionLocation>;
+  /** FNL indexes with at least one hit FNA alias, for checking FNH. */
+  hitFunctionIndexes: Set<number>;
+  /** Summary records (LF, LH, ...) the block declares, for validation. */
+  declaredCounts: Map<SummaryToken, { value: number; line: number }>;
+}
+
+/** Where a function starts and, when the report says, where it ends. */
+interface FunctionLocation {
+  line: number;
+  endLine?: number;
+}
+
+/** Summary records whose values are checked against the parsed records. */
+type SummaryToken = "LF" | "LH" | "FNF" | "FNH" | "BRF" | "BRH" | "MCF" | "MCH";
+
+/** Lines and functions one test hit in one file, accumulated across blocks. */
+interface TestHits {
+  lines: Set<number>;
+  functions: Set<string>;
 }
 
 /** Running state threaded through the per-record handlers. */
 export interface ParseState {
-  files: Map<string, FileCoverage>;
+  /**
+   * Finished blocks keyed by file path. Concatenated reports and per-test
+   * blocks repeat a path, so the blocks are combined once parsing finishes.
+   * The blocks of files `keepDetail` rejects are folded into a tally as they
+   * end instead, so their records are never all held at once.
+   */
+  blocksByPath: Map<string, FileCoverage[] | CoverageTally>;
   current: CurrentFile | null;
+  /** Decides per file whether its records are kept. */
+  keepDetail?: (path: string) => boolean;
+  /** Name from the latest `TN:` record; empty when the report names no test. */
+  testName: string;
+  /**
+   * Per-test hits keyed by file path, then test name. A per-test report
+   * repeats a file once for every test that ran it, so attribution is
+   * collected here and attached when parsing finishes.
+   */
+  testsByPath: Map<string, Map<string, TestHits>>;
+  /** Report file being read, named in diagnostics. */
+  source?: string;
+  /** 1-based report line of the record being applied. */
+  lineNumber: number;
+  diagnostics: LcovDiagnostic[];
 }
 
-export function createParseState(): ParseState {
-  return { files: new Map<string, FileCoverage>(), current: null };
+export function createParseState(
+  keepDetail?: (path: string) => boolean,
+  source?: string,
+): ParseState {
+  return {
+    blocksByPath: new Map(),
+    current: null,
+    keepDetail,
+    testName: "",
+    testsByPath: new Map(),
+    source,
+    lineNumber: 0,
+    diagnostics: [],
+  };
+}
+
+function diagnose(state: ParseState, message: string, line = state.lineNumber) {
+  state.diagnostics.push({
+    ...(state.source !== undefined && { source: state.source }),
+    line,
+    message,
+  });
 }
 
 /**
  * Handles a single LCOV record. `payload` is the text after the `TOKEN:`
  * prefix (empty for tokens without a colon, such as `end_of_record`).
  */
-type RecordHandler = (state: ParseState, payload: string) => void;
+type RecordHandler = (
+  state: ParseState,
+  payload: string,
+  token: string,
+) => void;
 
 /** A handler that only runs while a file record is open. */
-type FileRecordHandler = (file: CurrentFile, payload: string) => void;
+type FileRecordHandler = (
+  file: CurrentFile,
+  payload: string,
+  state: ParseState,
+  token: string,
+) => void;
 
 /**
- * Wrap a {@link FileRecordHandler} so it is skipped when no SF record has
- * opened a file yet, collapsing the otherwise-repeated null guard.
+ * Wrap a {@link FileRecordHandler} so it is skipped, with a diagnostic, when
+ * no SF record has opened a file yet, collapsing the otherwise-repeated null
+ * guard.
  */
 function withinFile(handler: FileRecordHandler): RecordHandler {
-  return (state, payload) => {
+  return (state, payload, token) => {
     if (state.current) {
-      handler(state.current, payload);
+      handler(state.current, payload, state, token);
+    } else {
+      diagnose(state, `${token} record outside any SF block`);
     }
   };
 }
 
 const int = (value: string): number => parseInt(value, 10);
 
+const COUNT = /^\d+$/;
+const NEGATIVE_COUNT = /^-\d+$/;
+
+/**
+ * Some gcov/geninfo versions write negative execution counts; the record is
+ * still instrumented, so the count is read as zero hits rather than rejected.
+ * A `-` count (a branch never reached) reads as zero too.
+ */
+function hitCount(field: string | undefined): string | undefined {
+  return field === "-" || (field !== undefined && NEGATIVE_COUNT.test(field))
+    ? "0"
+    : field;
+}
+
+/**
+ * Parse the leading integer fields of a record. Returns undefined, after
+ * recording a diagnostic, when a field is missing or not a whole number.
+ */
+function counts(
+  state: ParseState,
+  token: string,
+  payload: string,
+  fields: (string | undefined)[],
+): number[] | undefined {
+  const values: number[] = [];
+  for (const field of fields) {
+    if (field === undefined || !COUNT.test(field)) {
+      diagnose(state, `Malformed ${token} record "${token}:${payload}"`);
+      return undefined;
+    }
+    values.push(int(field));
+  }
+  return values;
+}
+
 /**
  * Split an LCOV record payload into its leading numeric/fixed fields and a
  * trailing free-form name. LCOV function and test names may themselves contain
@@ -73,14 +194,72 @@ function splitTrailingName(
 }
 
 function startNewFile(state: ParseState, path: string): void {
+  if (state.current) {
+    diagnose(
+      state,
+      `SF record for ${path} starts before end_of_record closed ${state.current.path}`,
+    );
+  }
   finalizeCurrentFile(state);
   state.current = {
     path,
     functions: [],
     lines: [],
     branches: [],
-    functionLineByIndex: new Map<number, number>(),
+    mcdc: [],
+    functionLocationByIndex: new Map<number, FunctionLocation>(),
+    hitFunctionIndexes: new Set<number>(),
+    declaredCounts: new Map(),
+  };
+}
+
+const SUMMARY_LABELS: Record<SummaryToken, string> = {
+  LF: "instrumented lines",
+  LH: "hit lines",
+  FNF: "functions",
+  FNH: "hit functions",
+  BRF: "branches",
+  BRH: "taken branches",
+  MCF: "MC/DC condition outcomes",
+  MCH: "covered MC/DC condition outcomes",
+};
+
+/**
+ * Compare the block's declared summary records with the counts derived from
+ * its records. Lines are counted once per line number, as lcov does for
+ * templated code instrumented several times; LCOV 2.x functions are counted
+ * by FNL location, so aliases sharing one location count once.
+ */
+function checkDeclaredCounts(state: ParseState, file: CurrentFile): void {
+  if (file.declaredCounts.size === 0) return;
+
+  const maxHitByLine = new Map<number, number>();
+  for (const { line, hit } of file.lines) {
+    maxHitByLine.set(line, Math.max(maxHitByLine.get(line) ?? 0, hit));
+  }
+  const byIndex = file.functionLocationByIndex.size > 0;
+  const computed: Record<SummaryToken, number> = {
+    LF: maxHitByLine.size,
+    LH: [...maxHitByLine.values()].filter((hit) => hit > 0).length,
+    FNF: byIndex ? file.functionLocationByIndex.size : file.functions.length,
+    FNH: byIndex
+      ? file.hitFunctionIndexes.size
+      : file.functions.filter((f) => f.hit > 0).length,
+    BRF: file.branches.length,
+    BRH: file.branches.filter((b) => b.taken > 0).length,
+    MCF: file.mcdc.length,
+    MCH: file.mcdc.filter((m) => m.taken > 0).length,
   };
+
+  for (const [token, declared] of file.declaredCounts) {
+    if (declared.value !== computed[token]) {
+      diagnose(
+        state,
+        `${token}:${declared.value} disagrees with the ${computed[token]} ${SUMMARY_LABELS[token]} recorded for ${file.path}`,
+        declared.line,
+      );
+    }
+  }
 }
 
 export function finalizeCurrentFile(state: ParseState): void {
@@ -89,23 +268,123 @@ export function finalizeCurrentFile(state: ParseState): void {
     return;
   }
 
-  state.files.set(current.path, {
-    path: current.path,
-    functions: current.functions,
-    lines: current.lines,
-    branches: current.branches,
-    summary: {
-      functionsFound: current.functions.length,
-      functionsHit: current.functions.filter((f) => f.hit > 0).length,
-      linesFound: current.lines.length,
-      linesHit: current.lines.filter((l) => l.hit > 0).length,
-      branchesFound: current.branches.length,
-      branchesHit: current.branches.filter((b) => b.taken > 0).length,
-    },
-  });
+  checkDeclaredCounts(state, current);
+  const coverage = buildFileCoverage(
+    current.path,
+    current.functions,
+    current.lines,
+    current.branches,
+    current.mcdc,
+  );
+  const previous = state.blocksByPath.get(current.path);
+  if (keepsDetail(state, current.path)) {
+    if (state.testName) recordTestHits(state, current);
+    const blocks = Array.isArray(previous) ? previous : [];
+    blocks.push(coverage);
+    state.blocksByPath.set(current.path, blocks);
+  } else {
+    const tally =
+      previous && !Array.isArray(previous) ? previous : createTally();
+    addToTally(tally, coverage);
+    state.blocksByPath.set(current.path, tally);
+  }
   state.current = null;
 }
 
+function keepsDetail(state: ParseState, path: string): boolean {
+  return !state.keepDetail || state.keepDetail(path);
+}
+
+function recordTestHits(state: ParseState, current: CurrentFile): void {
+  const tests = state.testsByPath.get(current.path) ?? new Map();
+  state.testsByPath.set(current.path, tests);
+
+  const hits: TestHits = tests.get(state.testName) ?? {
+    lines: new Set(),
+    functions: new Set(),
+  };
+  tests.set(state.testName, hits);
+
+  for (const line of current.lines) {
+    if (line.hit > 0) hits.lines.add(line.line);
+  }
+  for (const func of current.functions) {
+    if (func.hit > 0) hits.functions.add(func.name);
+  }
+}
+
+/**
+ * Close the trailing file record (reports may omit the final
+ * `end_of_record`), combine the blocks of each file, attach per-test
+ * attribution and total the report. Files `keepDetail` rejects keep only their
+ * summary and tally.
+ */
+export function finishParse(state: ParseState): LcovReport {
+  if (state.current) {
+    diagnose(
+      state,
+      `Report ends before end_of_record closed ${state.current.path}`,
+    );
+  }
+  finalizeCurrentFile(state);
+
+  const files = new Map<string, FileCoverage>();
+  for (const [path, blocks] of state.blocksByPath) {
+    if (!Array.isArray(blocks)) {
+      files.set(path, tallyCoverage(path, blocks));
+      continue;
+    }
+    const [only] = blocks;
+    const coverage =
+      only && blocks.length === 1 ? only : mergeFileCoverage(path, blocks);
+
+    const tests = state.testsByPath.get(path);
+    files.set(
+      path,
+      tests
+        ? {
+            ...coverage,
+            tests: [...tests].map(
+              ([name, hits]): TestCoverage => ({
+                name,
+                lines: [...hits.lines].sort((a, b) => a - b),
+                functions: [...hits.functions],
+              }),
+            ),
+          }
+        : coverage,
+    );
+  }
+
+  return {
+    files,
+    summary: aggregateSummary(files),
+    ...(state.diagnostics.length > 0 && { diagnostics: state.diagnostics }),
+  };
+}
+
+const FN_WITH_END_LINE = /^\d+,\d+,/;
+
+/**
+ * Build a function's location, dropping (with a diagnostic) an end line that
+ * precedes the start line.
+ */
+function functionLocation(
+  state: ParseState,
+  line: number,
+  endLine: number | undefined,
+): FunctionLocation {
+  if (endLine === undefined) return { line };
+  if (endLine < line) {
+    diagnose(
+      state,
+      `Function end line ${endLine} precedes its start line ${line}`,
+    );
+    return { line };
+  }
+  return { line, endLine };
+}
+
 /**
  * Dispatch table keyed by the LCOV record token (the text before the first
  * colon). Using a lookup map keeps record handling flat and order-independent,
@@ -115,120 +394,224 @@ export function finalizeCurrentFile(state: ParseState): void {
  * Spec: https://github.com/linux-test-project/lcov/blob/master/man/geninfo.1
  */
 const RECORD_HANDLERS: Record<string, RecordHandler> = {
+  // Test name: TN:<name>. Names the test that produced the blocks that follow
+  // it, until the next TN record.
+  TN: (state, payload) => {
+    state.testName = payload.trim();
+  },
+
   // Source file - start of a new file record.
   SF: (state, payload) => startNewFile(state, payload),
 
-  // Modern LCOV 2.x function location: FNL:<index>,<start_line>,<end_line>
-  FNL: withinFile((file, payload) => {
-    const [indexStr, startStr] = payload.split(",");
-    if (indexStr !== undefined && startStr !== undefined) {
-      file.functionLineByIndex.set(int(indexStr), int(startStr));
+  // Format version: VER:<version>. Informational only.
+  VER: () => {},
+
+  // Modern LCOV 2.x function location: FNL:<index>,<start_line>[,<end_line>]
+  FNL: withinFile((file, payload, state, token) => {
+    const [indexStr, startStr, endStr] = payload.split(",");
+    const values = counts(state, token, payload, [
+      indexStr,
+      startStr,
+      ...(endStr !== undefined ? [endStr] : []),
+    ]);
+    if (values) {
+      const [index = 0, line = 0, endLine] = values;
+      file.functionLocationByIndex.set(
+        index,
+        functionLocation(state, line, endLine),
+      );
     }
   }),
 
   // Modern LCOV 2.x function data: FNA:<index>,<hit>,<name>
   // A single FNL location may carry several aliased FNA records, each a
   // distinct function name sharing the same line range.
-  FNA: withinFile((file, payload) => {
+  FNA: withinFile((file, payload, state, token) => {
     const { fields, name } = splitTrailingName(payload, 2);
-    const [indexStr, hitStr] = fields;
-    if (indexStr !== undefined && hitStr !== undefined && name.length > 0) {
-      file.functions.push({
-        name,
-        line: file.functionLineByIndex.get(int(indexStr)) ?? 0,
-        hit: int(hitStr),
-      });
+    const values = counts(state, token, payload, [
+      fields[0],
+      hitCount(fields[1]),
+    ]);
+    if (!values) return;
+    if (name.length === 0) {
+      diagnose(state, "FNA record without a function name");
+      return;
     }
+    const [index = 0, hit = 0] = values;
+    const location = file.functionLocationByIndex.get(index);
+    if (!location) {
+      diagnose(state, `FNA record refers to unknown FNL index ${index}`);
+    }
+    if (hit > 0) file.hitFunctionIndexes.add(index);
+    file.functions.push({ name, ...(location ?? { line: 0 }), hit });
   }),
 
-  // Legacy function definition: FN:<line>,<name>
-  FN: withinFile((file, payload) => {
-    const { fields, name } = splitTrailingName(payload, 1);
-    const [lineStr] = fields;
-    if (lineStr !== undefined && name.length > 0) {
-      file.functions.push({ name, line: int(lineStr), hit: 0 });
+  // Legacy function definition: FN:<line>[,<end_line>],<name>. Function
+  // names never start with a digit, so a second numeric field is the end line
+  // that lcov 2.x may add.
+  FN: withinFile((file, payload, state, token) => {
+    const { fields, name } = splitTrailingName(
+      payload,
+      FN_WITH_END_LINE.test(payload) ? 2 : 1,
+    );
+    const values = counts(state, token, payload, fields);
+    if (!values) return;
+    if (name.length === 0) {
+      diagnose(state, "FN record without a function name");
+      return;
     }
+    const [line = 0, endLine] = values;
+    file.functions.push({
+      name,
+      ...functionLocation(state, line, endLine),
+      hit: 0,
+    });
   }),
 
   // Legacy function data: FNDA:<hit>,<name>
-  FNDA: withinFile((file, payload) => {
+  FNDA: withinFile((file, payload, state, token) => {
     const { fields, name } = splitTrailingName(payload, 1);
-    const [hitStr] = fields;
-    if (hitStr !== undefined && name.length > 0) {
-      const func = file.functions.find((f) => f.name === name);
-      if (func) {
-        func.hit = int(hitStr);
-      }
+    const values = counts(state, token, payload, [hitCount(fields[0])]);
+    if (!values) return;
+    const func = file.functions.find((f) => f.name === name);
+    if (func) {
+      func.hit = values[0] ?? 0;
+    } else {
+      diagnose(state, `FNDA record names unknown function "${name}"`);
     }
   }),
 
-  // Line data: DA:<line>,<hit>
-  DA: withinFile((file, payload) => {
-    const [lineStr, hitStr] = payload.split(",");
-    if (lineStr !== undefined && hitStr !== undefined) {
-      file.lines.push({ line: int(lineStr), hit: int(hitStr) });
+  // Line data: DA:<line>,<hit>[,<checksum>]
+  DA: withinFile((file, payload, state, token) => {
+    const [lineStr, hitStr, checksum] = payload.split(",");
+    const values = counts(state, token, payload, [lineStr, hitCount(hitStr)]);
+    if (values) {
+      const [line = 0, hit = 0] = values;
+      file.lines.push({ line, hit, ...(checksum && { checksum }) });
     }
   }),
 
-  // Branch data: BRDA:<line>,<block>,<branch>,<taken>
-  BRDA: withinFile((file, payload) => {
-    const [lineStr, blockStr, branchStr, takenStr] = payload.split(",");
-    if (
-      lineStr !== undefined &&
-      blockStr !== undefined &&
-      branchStr !== undefined &&
-      takenStr !== undefined
-    ) {
-      file.branches.push({
-        line: int(lineStr),
-        block: int(blockStr),
-        branch: int(branchStr),
-        // A `-` taken count means the branch was never reached.
-        taken: takenStr === "-" ? 0 : int(takenStr),
-      });
+  // Branch data: BRDA:<line>,[e]<block>,<branch>,<taken>
+  // LCOV 2.x marks exception branches with an `e` block prefix and may name
+  // the branch by an expression, which can itself contain commas.
+  BRDA: withinFile((file, payload, state, token) => {
+    const parts = payload.split(",");
+    const [lineStr, blockField] = parts;
+    const branchStr = parts.slice(2, -1).join(",");
+    const takenStr = parts.length >= 4 ? parts[parts.length - 1] : undefined;
+    const exception = blockField?.startsWith("e") ?? false;
+    const values = counts(state, token, payload, [
+      lineStr,
+      exception ? blockField?.substring(1) : blockField,
+      hitCount(takenStr),
+    ]);
+    if (!values) return;
+    if (branchStr.length === 0) {
+      diagnose(state, `Malformed ${token} record "${token}:${payload}"`);
+      return;
+    }
+    const [line = 0, block = 0, taken = 0] = values;
+    const numbered = COUNT.test(branchStr);
+    file.branches.push({
+      line,
+      block,
+      branch: numbered
+        ? int(branchStr)
+        : file.branches.filter(
+            (b) =>
+              b.line === line &&
+              b.block === block &&
+              (b.exception ?? false) === exception,
+          ).length,
+      taken,
+      ...(exception && { exception }),
+      ...(!numbered && { expression: branchStr }),
+    });
+  }),
+
+  // LCOV 2.2 MC/DC data:
+  // MCDC:<line>,<group_size>,<sense>,<taken>,<index>,<expression>
+  // `sense` is `t` or `f`; the expression may contain commas.
+  MCDC: withinFile((file, payload, state, token) => {
+    const { fields, name: expression } = splitTrailingName(payload, 5);
+    const [lineStr, groupSizeStr, sense, takenStr, indexStr] = fields;
+    const values = counts(state, token, payload, [
+      lineStr,
+      groupSizeStr,
+      hitCount(takenStr),
+      indexStr,
+    ]);
+    if (!values) return;
+    if (sense !== "t" && sense !== "f") {
+      diagnose(state, `Malformed ${token} record "${token}:${payload}"`);
+      return;
     }
+    const [line = 0, groupSize = 0, taken = 0, index = 0] = values;
+    file.mcdc.push({
+      line,
+      groupSize,
+      index,
+      sense: sense === "t",
+      taken,
+      expression,
+    });
   }),
 
+  // Declared summaries. Coverage is always computed from the records above;
+  // these are kept only to check the report against itself.
+  LF: summaryRecord("LF"),
+  LH: summaryRecord("LH"),
+  FNF: summaryRecord("FNF"),
+  FNH: summaryRecord("FNH"),
+  BRF: summaryRecord("BRF"),
+  BRH: summaryRecord("BRH"),
+  MCF: summaryRecord("MCF"),
+  MCH: summaryRecord("MCH"),
+
   // End of the current file record.
-  end_of_record: (state) => finalizeCurrentFile(state),
+  end_of_record: (state) => {
+    if (!state.current) {
+      diagnose(state, "end_of_record without a preceding SF record");
+    }
+    finalizeCurrentFile(state);
+  },
 };
 
+function summaryRecord(token: SummaryToken): RecordHandler {
+  return withinFile((file, payload, state) => {
+    const values = counts(state, token, payload, [payload]);
+    if (values) {
+      file.declaredCounts.set(token, {
+        value: values[0] ?? 0,
+        line: state.lineNumber,
+      });
+    }
+  });
+}
+
 /**
  * Apply a single LCOV line to the running state. Lines are `TOKEN:payload`;
  * tokens without a payload (e.g. `end_of_record`) have no colon. Unknown
- * tokens are ignored, keeping the parser tolerant of summary records (LF, LH,
- * FNF, ...) it does not need.
+ * tokens are skipped with a diagnostic. `lineNumber` locates the line in the
+ * report for diagnostics.
  */
-export function applyRecordLine(state: ParseState, line: string): void {
+export function applyRecordLine(
+  state: ParseState,
+  line: string,
+  lineNumber: number,
+): void {
+  state.lineNumber = lineNumber;
   const colonIndex = line.indexOf(":");
   const token = colonIndex === -1 ? line : line.substring(0, colonIndex);
   const payload = colonIndex === -1 ? "" : line.substring(colonIndex + 1);
 
-  RECORD_HANDLERS[token]?.(state, payload);
-}
-
-/** Reduce per-file summaries into the report-wide totals. */
-export function aggregateSummary(
-  files: Map<string, FileCoverage>,
-): CoverageCounts & { totalFiles: number } {
-  const totals = {
-    totalFiles: files.size,
-    functionsFound: 0,
-    functionsHit: 0,
-    linesFound: 0,
-    linesHit: 0,
-    branchesFound: 0,
-    branchesHit: 0,
-  };
-
-  for (const { summary } of files.values()) {
-    totals.functionsFound += summary.functionsFound;
-    totals.functionsHit += summary.functionsHit;
-    totals.linesFound += summary.linesFound;
-    totals.linesHit += summary.linesHit;
-    totals.branchesFound += summary.branchesFound;
-    totals.branchesHit += summary.branchesHit;
+  // Only the table's own tokens: `toString` or `__proto__` are not records.
+  const handler = Object.hasOwn(RECORD_HANDLERS, token)
+    ? RECORD_HANDLERS[token]
+    : undefined;
+  if (handler) {
+    handler(state, payload, token);
+  } else {
+    diagnose(state, `Unknown record "${line}"`);
   }
-
-  return totals;
 }
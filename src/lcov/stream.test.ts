@@ -0,0 +1,27 @@
+import { Readable } from "stream";
+
+import { readLines } from "./stream";
+
+describe("readLines", () => {
+  const collect = async (chunks: string[]) => {
+    const lines: string[] = [];
+    for await (const line of readLines(Readable.from(chunks))) {
+      lines.push(line);
+    }
+    return lines;
+  };
+
+  it("should reassemble lines split across chunks", async () => {
+    expect(
+      await collect(["SF:src/a", ".ts\nDA:1,", "1\nend_of_record\n"]),
+    ).toEqual(["SF:src/a.ts", "DA:1,1", "end_of_record"]);
+  });
+
+  it("should yield a trailing line without a newline", async () => {
+    expect(await collect(["DA:1,1\nDA:2,0"])).toEqual(["DA:1,1", "DA:2,0"]);
+  });
+
+  it("should yield nothing for an empty stream", async () => {
+    expect(await collect([])).toEqual([]);
+  });
+});
@@ -0,0 +1,56 @@
+import * as fs from "fs";
+import { pipeline, type Readable } from "stream";
+import * as zlib from "zlib";
+
+// Enough of a report to recognise its format without reading all of it.
+const HEAD_LENGTH = 64 * 1024;
+
+/**
+ * Open a coverage file as a UTF-8 text stream. Files ending in `.gz` are
+ * decompressed on the fly, so compressed reports never have to be unpacked
+ * on disk or held in memory.
+ */
+export function openCoverageStream(filePath: string): Readable {
+  const file = fs.createReadStream(filePath);
+  // pipeline() forwards a read error to the gunzip stream, so consumers see
+  // failures from either stage.
+  const stream = filePath.endsWith(".gz")
+    ? pipeline(file, zlib.createGunzip(), () => {})
+    : file;
+  return stream.setEncoding("utf8");
+}
+
+/**
+ * Yield the lines of a text stream one at a time, holding at most one chunk
+ * plus a partial line in memory.
+ */
+export async function* readLines(stream: Readable): AsyncGenerator<string> {
+  let partial = "";
+  for await (const chunk of stream) {
+    const lines = (partial + String(chunk)).split("\n");
+    partial = lines.pop() ?? "";
+    yield* lines;
+  }
+  if (partial.length > 0) {
+    yield partial;
+  }
+}
+
+/** Read the beginning of a coverage file, e.g. to detect its format. */
+export async function readHead(filePath: string): Promise<string> {
+  let head = "";
+  for await (const chunk of openCoverageStream(filePath)) {
+    head += String(chunk);
+    if (head.length >= HEAD_LENGTH) break;
+  }
+  return head;
+}
+
+/** Read a whole coverage file, for formats that cannot be parsed line by line. */
+export async function readText(filePath: string): Promise<string> {
+  let text = "";
+  for await (const chunk of openCoverageStream(filePath)) {
+    text += String(chunk);
+  }
+  return text;
+}
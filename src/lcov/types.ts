@@ -2,11 +2,18 @@ export interface FunctionCoverage {
   name: string;
   line: number;
   hit: number;
+  /** Last line of the function body, when the report records it. */
+  endLine?: number;
 }
 
 export interface LineCoverage {
   line: number;
   hit: number;
+  /**
+   * MD5 digest of the source line the report was produced from (the optional
+   * third `DA` field), as unpadded base64 or hex.
+   */
+  checksum?: string;
 }
 
 export interface BranchCoverage {
@@ -14,6 +21,43 @@ export interface BranchCoverage {
   block: number;
   branch: number;
   taken: number;
+  /** Set for LCOV 2.x exception branches (an `e`-prefixed block id). */
+  exception?: boolean;
+  /**
+   * Branch id of LCOV 2.x records that name the branch by expression rather
+   * than by number; `branch` then holds its position within the block.
+   */
+  expression?: string;
+}
+
+/**
+ * One outcome of a condition under modified condition/decision coverage
+ * (LCOV 2.2 `MCDC:` records). Each condition has a record per sense: whether
+ * flipping it to true, and to false, was shown to change the decision.
+ */
+export interface McdcCoverage {
+  line: number;
+  /** Number of conditions in the decision. */
+  groupSize: number;
+  /** The condition's position in the decision. */
+  index: number;
+  /** `true` for the record covering the condition's true sense. */
+  sense: boolean;
+  taken: number;
+  /** Source text of the condition, when the report records it. */
+  expression: string;
+}
+
+/**
+ * The lines and functions one named test executed in a file, from the `TN:`
+ * record heading each block of a per-test LCOV report.
+ */
+export interface TestCoverage {
+  name: string;
+  /** Lines the test hit, ascending. */
+  lines: number[];
+  /** Functions the test hit, by name. */
+  functions: string[];
 }
 
 /** Aggregate found/hit counts shared by file- and report-level summaries. */
@@ -24,6 +68,9 @@ export interface CoverageCounts {
   linesHit: number;
   branchesFound: number;
   branchesHit: number;
+  /** MC/DC condition outcomes; present only when the report records any. */
+  mcdcFound?: number;
+  mcdcHit?: number;
 }
 
 export interface FileCoverage {
@@ -31,10 +78,87 @@ export interface FileCoverage {
   functions: FunctionCoverage[];
   lines: LineCoverage[];
   branches: BranchCoverage[];
+  /** MC/DC records; present only when the report records any for the file. */
+  mcdc?: McdcCoverage[];
   summary: CoverageCounts;
+  /**
+   * Set when the records were dropped to save memory (the file is outside the
+   * changeset); only `summary` describes the file's coverage.
+   */
+  detailOmitted?: boolean;
+  /**
+   * Compact hits of a file whose records were dropped while its report was
+   * still being read, so copies of the file from other blocks or reports can
+   * be combined exactly. Removed once every report is merged.
+   */
+  tally?: CoverageTally;
+  /**
+   * Per-test attribution, present only when the report names its tests
+   * (`TN:` records with a non-empty name).
+   */
+  tests?: TestCoverage[];
+  /**
+   * Records removed by exclusion pragmas in the source; present only when
+   * pragmas were applied and removed something.
+   */
+  excluded?: ExclusionCounts;
+}
+
+/**
+ * Which lines, functions, branches and MC/DC outcomes of a file were hit,
+ * keyed as `mergeFileCoverage` combines records. Enough to count found and hit
+ * records without holding the records themselves.
+ */
+export interface CoverageTally {
+  /** `line * 2`, plus 1 when the line was hit, ascending by line. */
+  lines: number[];
+  functions: Map<string, boolean>;
+  branches: Map<string, boolean>;
+  mcdc: Map<string, boolean>;
+}
+
+/** Records dropped from a file by source exclusion pragmas. */
+export interface ExclusionCounts {
+  lines: number;
+  functions: number;
+  branches: number;
+}
+
+/** A problem found while reading an LCOV report, located by report line. */
+export interface LcovDiagnostic {
+  /** Report file the problem is in; absent for content parsed from memory. */
+  source?: string;
+  line: number;
+  message: string;
 }
 
 export interface LcovReport {
   files: Map<string, FileCoverage>;
   summary: CoverageCounts & { totalFiles: number };
+  /**
+   * Malformed, inconsistent or unrecognised LCOV records, which the parser
+   * skips. Absent when there are none and for the other formats.
+   */
+  diagnostics?: LcovDiagnostic[];
+}
+
+/** Format-specific settings for reading a coverage report. */
+export interface CoverageParseOptions {
+  /**
+   * Repository directories that JaCoCo's package-relative source paths are
+   * resolved against, e.g. `src/main/java`.
+   */
+  sourceRoots?: string[];
+  /**
+   * `from=>to` rules rewriting reported paths into repository paths, applied
+   * after workspace prefixes are stripped. `from` is a path prefix, or a
+   * regular expression when written as `regex:<pattern>`.
+   */
+  pathMappings?: string[];
+  /**
+   * Repository paths whose line, function and branch records are kept. When
+   * set, every other file keeps only its summary counts, which is enough for
+   * report-wide totals. Unset keeps every record.
+   */
+  detailPaths?: string[];
 }
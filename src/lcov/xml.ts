@@ -0,0 +1,98 @@
+/**
+ * Callbacks invoked by {@link scanXml} as it walks a document. Coverage XML
+ * formats are flat, attribute-heavy element trees, so a forward-only scan is
+ * enough and avoids materialising a DOM for reports that can be very large.
+ */
+export interface XmlHandlers {
+  open: (name: string, attributes: Record<string, string>) => void;
+  close?: (name: string) => void;
+  text?: (text: string) => void;
+}
+
+// Comments, CDATA, processing instructions and DOCTYPE declarations come first
+// so they are consumed before the generic element alternative. Attribute values
+// are matched as quoted strings because `>` is legal inside them.
+const TOKEN =
+  /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<[?!][^>]*>|<(\/?)([^\s/>]+)((?:[^>"']|"[^"]*"|'[^']*')*?)(\/?)>/g;
+
+const ATTRIBUTE = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+// Highest Unicode code point; numeric references beyond it are left as text.
+const MAX_CODE_POINT = 0x10ffff;
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, body: string) => {
+    if (body.startsWith("#")) {
+      const codePoint =
+        body[1] === "x" || body[1] === "X"
+          ? parseInt(body.slice(2), 16)
+          : parseInt(body.slice(1), 10);
+      return codePoint <= MAX_CODE_POINT
+        ? String.fromCodePoint(codePoint)
+        : entity;
+    }
+    return Object.hasOwn(ENTITIES, body) ? (ENTITIES[body] ?? entity) : entity;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(ATTRIBUTE)) {
+    const [, name, doubleQuoted, singleQuoted] = match;
+    if (name !== undefined) {
+      attributes[name] = decodeEntities(doubleQuoted ?? singleQuoted ?? "");
+    }
+  }
+  return attributes;
+}
+
+/**
+ * Scan an XML document, reporting element starts/ends and non-blank text in
+ * document order. This is deliberately not a validating parser: malformed
+ * markup is skipped rather than rejected, matching the tolerant LCOV parser.
+ */
+export function scanXml(content: string, handlers: XmlHandlers): void {
+  let lastIndex = 0;
+
+  const emitText = (raw: string) => {
+    if (handlers.text && raw.trim().length > 0) {
+      handlers.text(decodeEntities(raw.trim()));
+    }
+  };
+
+  for (const match of content.matchAll(TOKEN)) {
+    emitText(content.slice(lastIndex, match.index));
+    lastIndex = match.index + match[0].length;
+
+    const [, cdata, closing, name, attributeSource, selfClosing] = match;
+    if (cdata !== undefined) {
+      if (handlers.text && cdata.trim().length > 0) {
+        handlers.text(cdata.trim());
+      }
+      continue;
+    }
+    if (name === undefined) continue;
+
+    if (closing) {
+      handlers.close?.(name);
+      continue;
+    }
+
+    // A self-closing element is reported as an open immediately followed by
+    // its close, so handlers never need to distinguish the two forms.
+    handlers.open(name, parseAttributes(attributeSource ?? ""));
+    if (selfClosing === "/") {
+      handlers.close?.(name);
+    }
+  }
+
+  emitText(content.slice(lastIndex));
+}
@@ -0,0 +1,130 @@
+import { CoverageAnalyzer } from "./coverageAnalyzer";
+import { Changeset } from "./changeset";
+import { LcovParser } from "./lcov";
+import { PathDiagnostics } from "./pathDiagnostics";
+
+describe("PathDiagnostics", () => {
+  const changesetOf = (paths: string[]): Changeset => ({
+    baseCommit: "abc123",
+    headCommit: "def456",
+    targetBranch: "main",
+    files: paths.map((path) => ({ path, status: "modified" as const })),
+    totalFiles: paths.length,
+  });
+
+  const reportOf = (paths: string[]) =>
+    LcovParser.parse(
+      paths.map((path) => `SF:${path}\nDA:1,1\nend_of_record`).join("\n"),
+    );
+
+  const diagnose = (changed: string[], reported: string[]) => {
+    const lcovReport = reportOf(reported);
+    const analysis = CoverageAnalyzer.analyze(changesetOf(changed), lcovReport);
+    return {
+      unmatched: PathDiagnostics.findUnmatchedFiles(analysis, lcovReport),
+      warnings: PathDiagnostics.warnings(analysis, lcovReport),
+    };
+  };
+
+  it("should suggest stripping a prefix the report adds", () => {
+    const { unmatched, warnings } = diagnose(
+      ["src/foo.ts", "src/bar.ts"],
+      ["/home/runner/work/repo/repo/src/foo.ts", "src/bar.ts"],
+    );
+
+    expect(unmatched).toEqual([
+      {
+        path: "src/foo.ts",
+        candidate: "/home/runner/work/repo/repo/src/foo.ts",
+        suggestedMapping: "/home/runner/work/repo/repo/=>",
+      },
+    ]);
+    expect(warnings).toEqual([
+      "`src/foo.ts` has no coverage data, but the report has `/home/runner/work/repo/repo/src/foo.ts`; consider the path-mappings rule `/home/runner/work/repo/repo/=>`",
+    ]);
+  });
+
+  it("should suggest adding a prefix the report lacks", () => {
+    const { unmatched } = diagnose(["packages/api/src/a.ts"], ["src/a.ts"]);
+
+    expect(unmatched).toEqual([
+      {
+        path: "packages/api/src/a.ts",
+        candidate: "src/a.ts",
+        suggestedMapping: "=>packages/api/",
+      },
+    ]);
+  });
+
+  it("should prefer the longest report path a changed path ends with", () => {
+    const { unmatched } = diagnose(
+      ["packages/api/src/a.ts"],
+      ["a.ts", "src/a.ts", "api/src/a.ts"],
+    );
+
+    expect(unmatched).toEqual([
+      {
+        path: "packages/api/src/a.ts",
+        candidate: "api/src/a.ts",
+        suggestedMapping: "=>packages/",
+      },
+    ]);
+  });
+
+  it("should not offer a bare file name as a candidate", () => {
+    const { unmatched } = diagnose(["packages/foo/src/index.ts"], ["index.ts"]);
+
+    expect(unmatched).toEqual([{ path: "packages/foo/src/index.ts" }]);
+  });
+
+  it("should point out paths that differ only in letter case", () => {
+    const { warnings } = diagnose(["src/Widget.tsx"], ["src/widget.tsx"]);
+
+    expect(warnings).toEqual([
+      "`src/Widget.tsx` has no coverage data, but the report has `src/widget.tsx`, which matches apart from letter case",
+    ]);
+  });
+
+  it("should point out paths that differ in both letter case and prefix", () => {
+    const { warnings } = diagnose(["src/lib/foo.ts"], ["Lib/Foo.ts"]);
+
+    expect(warnings).toEqual([
+      "`src/lib/foo.ts` has no coverage data, but the report has `Lib/Foo.ts`, which differs in letter case and in its directory prefix",
+    ]);
+  });
+
+  it("should not offer report paths that belong to another changed file", () => {
+    const { unmatched } = diagnose(
+      ["src/index.ts", "packages/a/src/index.ts"],
+      ["packages/a/src/index.ts"],
+    );
+
+    expect(unmatched).toEqual([{ path: "src/index.ts" }]);
+  });
+
+  it("should warn once when no changed file matches and there are no candidates", () => {
+    const { unmatched, warnings } = diagnose(
+      ["lib/a.rb", "lib/b.rb"],
+      ["app/x.rb", "app/y.rb", "app/z.rb"],
+    );
+
+    expect(unmatched.map((file) => file.path)).toEqual([
+      "lib/a.rb",
+      "lib/b.rb",
+    ]);
+    expect(warnings).toEqual([
+      "None of the 2 changed files appear in the coverage report (3 files). " +
+        "If they are tested, the report's paths may not match repository paths; see the path-mappings input.",
+    ]);
+  });
+
+  it("should stay quiet when some files match and others are simply untested", () => {
+    const { unmatched, warnings } = diagnose(
+      ["src/a.ts", "src/new.ts"],
+      ["src/a.ts"],
+    );
+
+    expect(unmatched).toEqual([{ path: "src/new.ts" }]);
+    expect(warnings).toEqual([]);
+  });
+});
@@ -0,0 +1,115 @@
+import { CoverageAnalysis } from "./coverageAnalyzer";
+import { LcovReport } from "./lcov";
+
+export interface UnmatchedFile {
+  path: string;
+  // A report path that most likely refers to the same file, found by suffix
+  // or case-insensitive comparison.
+  candidate?: string;
+  // A path-mappings rule that maps the candidate onto the changed path. Absent
+  // when the paths differ in letter case, which no prefix rule can fix.
+  suggestedMapping?: string;
+}
+
+export class PathDiagnostics {
+  /**
+   * List the changed files the report has no coverage for, each with the
+   * closest report path when one exists. Report paths that exactly match
+   * another changed file are never offered as candidates.
+   */
+  static findUnmatchedFiles(
+    analysis: CoverageAnalysis,
+    lcovReport: LcovReport,
+  ): UnmatchedFile[] {
+    const changedPaths = new Set(analysis.changedFiles.map((f) => f.path));
+    const reportPaths = [...lcovReport.files.keys()].filter(
+      (reportPath) => !changedPaths.has(reportPath),
+    );
+
+    return analysis.changedFiles
+      .filter((file) => !file.coverage && file.status !== "deleted")
+      .map((file) => this.findCandidate(file.path, reportPaths));
+  }
+
+  /**
+   * Human-readable warnings for unmatched files: one per file with a likely
+   * candidate, or a single general one when the report has data but matched
+   * none of the changed files.
+   */
+  static warnings(
+    analysis: CoverageAnalysis,
+    lcovReport: LcovReport,
+    unmatchedFiles = this.findUnmatchedFiles(analysis, lcovReport),
+  ): string[] {
+    const warnings = unmatchedFiles
+      .filter((file) => file.candidate)
+      .map((file) => this.describe(file));
+
+    const matchedNone =
+      unmatchedFiles.length > 0 &&
+      unmatchedFiles.length === analysis.changedFiles.length;
+    if (warnings.length === 0 && matchedNone && lcovReport.files.size > 0) {
+      warnings.push(
+        `None of the ${unmatchedFiles.length} changed files appear in the coverage report (${lcovReport.files.size} files). ` +
+          "If they are tested, the report's paths may not match repository paths; see the path-mappings input.",
+      );
+    }
+    return warnings;
+  }
+
+  private static describe(file: UnmatchedFile): string {
+    const prefix = `\`${file.path}\` has no coverage data, but the report has \`${file.candidate}\``;
+    if (file.suggestedMapping !== undefined) {
+      return `${prefix}; consider the path-mappings rule \`${file.suggestedMapping}\``;
+    }
+    // A case-insensitive suffix match also differs by a directory prefix,
+    // which fixing the letter case alone would not resolve.
+    return file.path.toLowerCase() === file.candidate?.toLowerCase()
+      ? `${prefix}, which matches apart from letter case`
+      : `${prefix}, which differs in letter case and in its directory prefix`;
+  }
+
+  private static findCandidate(
+    changedPath: string,
+    reportPaths: string[],
+  ): UnmatchedFile {
+    // The report path carries an extra prefix (absolute or monorepo root).
+    const longer = reportPaths.find((p) => p.endsWith(`/${changedPath}`));
+    if (longer) {
+      const prefix = longer.slice(0, longer.length - changedPath.length);
+      return {
+        path: changedPath,
+        candidate: longer,
+        suggestedMapping: `${prefix}=>`,
+      };
+    }
+
+    // The report path is relative to a subdirectory (e.g. a package root). A
+    // bare file name such as `index.ts` would match unrelated files, so the
+    // path must keep a directory, and the longest match is the likeliest.
+    const [shorter] = reportPaths
+      .filter((p) => p.includes("/") && changedPath.endsWith(`/${p}`))
+      .sort((a, b) => b.length - a.length);
+    if (shorter) {
+      const prefix = changedPath.slice(0, changedPath.length - shorter.length);
+      return {
+        path: changedPath,
+        candidate: shorter,
+        suggestedMapping: `=>${prefix}`,
+      };
+    }
+
+    const lowerChanged = changedPath.toLowerCase();
+    const caseInsensitive = reportPaths.find((p) => {
+      const lower = p.toLowerCase();
+      return (
+        lower === lowerChanged ||
+        lower.endsWith(`/${lowerChanged}`) ||
+        (lower.includes("/") && lowerChanged.endsWith(`/${lower}`))
+      );
+    });
+    return caseInsensitive
+      ? { path: changedPath, candidate: caseInsensitive }
+      : { path: changedPath };
+  }
+}
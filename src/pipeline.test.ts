@@ -50,6 +50,8 @@ import * as github from "@actions/github";
 import {
   detectChangeset,
   parseLcovReport,
+  verifySourceChecksums,
+  applyExclusionPragmas,
   analyzeCoverageAndGating,
   postPrComment,
   writeJobSummary,
@@ -62,6 +64,7 @@ import { CoverageAnalyzer } from "./coverageAnalyzer";
 import { PrCommentService, renderCoverageReport } from "./prComment";
 import { CoverageGating } from "./coverageGating";
 import { ArtifactService } from "./artifactService";
+import { SourceChecksums } from "./sourceChecksums";
 
 // Mock all the modules
 jest.mock("@actions/core");
@@ -131,6 +134,8 @@ describe("detectChangeset", () => {
       undefined,
       "src/**/*.ts",
       "**/*.test.ts",
+      undefined,
+      undefined,
     );
     expect(mockedChangesetService.outputChangeset).toHaveBeenCalledWith(
       mockChangeset,
@@ -156,6 +161,8 @@ describe("detectChangeset", () => {
       undefined,
       undefined,
       undefined,
+      undefined,
+      undefined,
     );
     expect(result).toBe(mockChangeset);
   });
@@ -179,18 +186,20 @@ describe("parseLcovReport", () => {
         branchesHit: 8,
       },
     };
-    mockedLcovParser.parseFile.mockReturnValue(mockReport);
+    mockedLcovParser.parseFiles.mockResolvedValue(mockReport);
 
-    const result = await parseLcovReport("coverage/lcov.info");
+    const result = await parseLcovReport(["coverage/lcov.info"]);
 
     expect(mockedCore.startGroup).toHaveBeenCalledWith(
       "📊 Parsing LCOV report",
     );
     expect(mockedCore.info).toHaveBeenCalledWith(
-      "📂 Reading LCOV file: coverage/lcov.info",
+      "📂 Reading lcov coverage files: coverage/lcov.info",
     );
-    expect(mockedLcovParser.parseFile).toHaveBeenCalledWith(
-      "coverage/lcov.info",
+    expect(mockedLcovParser.parseFiles).toHaveBeenCalledWith(
+      ["coverage/lcov.info"],
+      "lcov",
+      {},
     );
     expect(mockedCore.info).toHaveBeenCalledWith(
       "✅ Parsed 5 files from LCOV report",
@@ -201,6 +210,210 @@ describe("parseLcovReport", () => {
     expect(mockedCore.endGroup).toHaveBeenCalled();
     expect(result).toBe(mockReport);
   });
+
+  it("should note when the format is detected from content", async () => {
+    mockedLcovParser.parseFiles.mockResolvedValue({
+      files: new Map(),
+      summary: {
+        totalFiles: 0,
+        linesFound: 0,
+        linesHit: 0,
+        functionsFound: 0,
+        functionsHit: 0,
+        branchesFound: 0,
+        branchesHit: 0,
+      },
+    });
+
+    await parseLcovReport(["coverage/cover.out"], "auto");
+
+    expect(mockedCore.info).toHaveBeenCalledWith(
+      "📂 Reading coverage files (format detected from content): coverage/cover.out",
+    );
+    expect(mockedLcovParser.parseFiles).toHaveBeenCalledWith(
+      ["coverage/cover.out"],
+      "auto",
+      {},
+    );
+  });
+
+  describe("LCOV validation", () => {
+    const reportWithDiagnostics = {
+      files: new Map(),
+      summary: {
+        totalFiles: 0,
+        linesFound: 0,
+        linesHit: 0,
+        functionsFound: 0,
+        functionsHit: 0,
+        branchesFound: 0,
+        branchesHit: 0,
+      },
+      diagnostics: [
+        {
+          source: "coverage/lcov.info",
+          line: 4,
+          message: 'Malformed DA record "DA:x,1"',
+        },
+        { line: 9, message: "Report ends before end_of_record closed a.ts" },
+      ],
+    };
+
+    it("should log diagnostics in a group and warn in lenient mode", async () => {
+      mockedLcovParser.parseFiles.mockResolvedValue(reportWithDiagnostics);
+
+      const result = await parseLcovReport(["coverage/lcov.info"], "lcov");
+
+      expect(result).toBe(reportWithDiagnostics);
+      expect(mockedCore.startGroup).toHaveBeenCalledWith(
+        "🩺 LCOV validation: 2 issues",
+      );
+      expect(mockedCore.info).toHaveBeenCalledWith(
+        'coverage/lcov.info:4: Malformed DA record "DA:x,1"',
+      );
+      expect(mockedCore.info).toHaveBeenCalledWith(
+        "line 9: Report ends before end_of_record closed a.ts",
+      );
+      expect(mockedCore.warning).toHaveBeenCalledWith(
+        expect.stringContaining("LCOV validation found 2 issues"),
+      );
+    });
+
+    it("should fail with the list in strict mode", async () => {
+      mockedLcovParser.parseFiles.mockResolvedValue(reportWithDiagnostics);
+
+      await expect(
+        parseLcovReport(["coverage/lcov.info"], "lcov", {}, "strict"),
+      ).rejects.toThrow(
+        "LCOV validation failed with 2 issues:\n" +
+          '  coverage/lcov.info:4: Malformed DA record "DA:x,1"\n' +
+          "  line 9: Report ends before end_of_record closed a.ts",
+      );
+      expect(mockedCore.warning).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe("verifySourceChecksums", () => {
+  const changeset = {
+    baseCommit: "abc123",
+    headCommit: "def456",
+    targetBranch: "main",
+    files: [{ path: "src/a.c", status: "modified" as const }],
+    totalFiles: 1,
+  };
+  const lcovReport = {
+    files: new Map(),
+    summary: {
+      totalFiles: 0,
+      linesFound: 0,
+      linesHit: 0,
+      functionsFound: 0,
+      functionsHit: 0,
+      branchesFound: 0,
+      branchesHit: 0,
+    },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest
+      .spyOn(SourceChecksums, "verify")
+      .mockReturnValue([{ path: "src/a.c", lines: [2], checkedLines: 3 }]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should log mismatching files and warn by default", async () => {
+    await verifySourceChecksums(changeset, lcovReport);
+
+    expect(mockedCore.startGroup).toHaveBeenCalledWith(
+      "🔏 Source checksums: 1 stale",
+    );
+    expect(mockedCore.info).toHaveBeenCalledWith(
+      "src/a.c: 1 of 3 checksummed lines differ from the checked-out source (line 2)",
+    );
+    expect(mockedCore.warning).toHaveBeenCalledWith(
+      expect.stringContaining(
+        "Coverage report does not match the checked-out source of 1 changed file: src/a.c",
+      ),
+    );
+  });
+
+  it("should fail with the list when configured to", async () => {
+    await expect(
+      verifySourceChecksums(changeset, lcovReport, "fail"),
+    ).rejects.toThrow(
+      "Coverage report does not match the checked-out source of 1 changed file:\n" +
+        "  src/a.c: 1 of 3 checksummed lines differ from the checked-out source (line 2)",
+    );
+    expect(mockedCore.warning).not.toHaveBeenCalled();
+  });
+
+  it("should skip the check when ignored", async () => {
+    await verifySourceChecksums(changeset, lcovReport, "ignore");
+
+    expect(SourceChecksums.verify).not.toHaveBeenCalled();
+  });
+});
+
+describe("applyExclusionPragmas", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should apply pragmas to the changed files that still exist", async () => {
+    const changeset = {
+      baseCommit: "abc123",
+      headCommit: "def456",
+      targetBranch: "main",
+      files: [
+        { path: "src/a.c", status: "modified" as const },
+        { path: "src/gone.c", status: "deleted" as const },
+      ],
+      totalFiles: 2,
+    };
+    const summary = {
+      totalFiles: 1,
+      linesFound: 1,
+      linesHit: 1,
+      functionsFound: 0,
+      functionsHit: 0,
+      branchesFound: 0,
+      branchesHit: 0,
+    };
+    const lcovReport = { files: new Map(), summary };
+    const excludedReport = {
+      files: new Map([
+        [
+          "src/a.c",
+          {
+            path: "src/a.c",
+            functions: [],
+            lines: [{ line: 1, hit: 1 }],
+            branches: [],
+            summary,
+            excluded: { lines: 2, functions: 1, branches: 0 },
+          },
+        ],
+      ]),
+      summary,
+    };
+    mockedLcovParser.applyExclusionPragmas.mockReturnValue(excludedReport);
+
+    const result = await applyExclusionPragmas(changeset, lcovReport);
+
+    expect(result).toBe(excludedReport);
+    expect(mockedLcovParser.applyExclusionPragmas).toHaveBeenCalledWith(
+      lcovReport,
+      ["src/a.c"],
+    );
+    expect(mockedCore.info).toHaveBeenCalledWith(
+      "✂️ Excluded 2 lines, 1 functions and 0 branches in 1 changed file",
+    );
+  });
 });
 
 describe("analyzeCoverageAndGating", () => {
@@ -283,21 +496,181 @@ describe("analyzeCoverageAndGating", () => {
       mockLcovReport,
       "threshold",
       80,
+      undefined,
     );
     expect(mockedCore.info).toHaveBeenCalledWith("Gating formatted");
     expect(mockedCore.setOutput).toHaveBeenCalledWith(
       "coverage-percentage",
       85.5,
     );
+    // No patch coverage in the analysis: the output falls back to the
+    // whole-file percentage.
+    expect(mockedCore.setOutput).toHaveBeenCalledWith(
+      "patch-coverage-percentage",
+      85.5,
+    );
     expect(mockedCore.setOutput).toHaveBeenCalledWith("meets-threshold", true);
     expect(mockedCore.setOutput).toHaveBeenCalledWith("files-analyzed", 1);
     expect(mockedCore.setOutput).toHaveBeenCalledWith("files-with-coverage", 1);
+    expect(mockedCore.setOutput).toHaveBeenCalledWith("unmatched-files", "[]");
+    expect(mockedCore.setOutput).toHaveBeenCalledWith("stale-files", "[]");
     expect(mockedCore.endGroup).toHaveBeenCalled();
     expect(result).toEqual({
       analysis: mockAnalysis,
       gatingResult: mockGatingResult,
     });
   });
+
+  it("should output patch coverage when the analysis carries it", async () => {
+    const mockChangeset = {
+      baseCommit: "abc123",
+      headCommit: "def456",
+      targetBranch: "main",
+      files: [
+        { path: "file1.ts", status: "modified" as const, changedLines: [3] },
+      ],
+      totalFiles: 1,
+    };
+    const metrics = (overall: number) => ({
+      overallCoveragePercentage: overall,
+      totalLines: 10,
+      coveredLines: 5,
+      totalFunctions: 0,
+      coveredFunctions: 0,
+      totalBranches: 0,
+      coveredBranches: 0,
+      linesCoveragePercentage: overall,
+      functionsCoveragePercentage: 100,
+      branchesCoveragePercentage: 100,
+    });
+    mockedCoverageAnalyzer.analyze.mockReturnValue({
+      changeset: mockChangeset,
+      changedFiles: [],
+      summary: {
+        totalChangedFiles: 1,
+        filesWithCoverage: 1,
+        filesWithoutCoverage: 0,
+        overallCoverage: metrics(50),
+        patchCoverage: metrics(100),
+      },
+    });
+    mockedCoverageGating.evaluate.mockReturnValue({
+      meetsThreshold: true,
+      threshold: 80,
+      mode: "standard",
+      prCoveragePercentage: 50,
+      description: "Coverage meets threshold",
+    });
+
+    await analyzeCoverageAndGating(
+      mockChangeset,
+      {
+        files: new Map(),
+        summary: {
+          totalFiles: 1,
+          linesFound: 10,
+          linesHit: 5,
+          functionsFound: 0,
+          functionsHit: 0,
+          branchesFound: 0,
+          branchesHit: 0,
+        },
+      },
+      "threshold",
+      80,
+    );
+
+    expect(mockedCore.setOutput).toHaveBeenCalledWith(
+      "coverage-percentage",
+      50,
+    );
+    expect(mockedCore.setOutput).toHaveBeenCalledWith(
+      "patch-coverage-percentage",
+      100,
+    );
+  });
+
+  it("should warn about and output changed files missing from the report", async () => {
+    const mockChangeset = {
+      baseCommit: "abc123",
+      headCommit: "def456",
+      targetBranch: "main",
+      files: [{ path: "src/a.ts", status: "modified" as const }],
+      totalFiles: 1,
+    };
+    const emptyMetrics = {
+      overallCoveragePercentage: 0,
+      totalLines: 0,
+      coveredLines: 0,
+      totalFunctions: 0,
+      coveredFunctions: 0,
+      totalBranches: 0,
+      coveredBranches: 0,
+      linesCoveragePercentage: 0,
+      functionsCoveragePercentage: 0,
+      branchesCoveragePercentage: 0,
+    };
+    const summary = {
+      totalFiles: 1,
+      linesFound: 1,
+      linesHit: 1,
+      functionsFound: 0,
+      functionsHit: 0,
+      branchesFound: 0,
+      branchesHit: 0,
+    };
+    mockedCoverageAnalyzer.analyze.mockReturnValue({
+      changeset: mockChangeset,
+      changedFiles: [
+        { path: "src/a.ts", status: "modified", analysis: emptyMetrics },
+      ],
+      summary: {
+        totalChangedFiles: 1,
+        filesWithCoverage: 0,
+        filesWithoutCoverage: 1,
+        overallCoverage: emptyMetrics,
+      },
+    });
+    mockedCoverageGating.evaluate.mockReturnValue({
+      meetsThreshold: false,
+      threshold: 80,
+      mode: "standard",
+      prCoveragePercentage: 0,
+      description: "Coverage below threshold",
+    });
+
+    const { analysis } = await analyzeCoverageAndGating(
+      mockChangeset,
+      {
+        files: new Map([
+          [
+            "/work/repo/src/a.ts",
+            {
+              path: "/work/repo/src/a.ts",
+              functions: [],
+              lines: [{ line: 1, hit: 1 }],
+              branches: [],
+              summary,
+            },
+          ],
+        ]),
+        summary,
+      },
+      "threshold",
+      80,
+    );
+
+    expect(mockedCore.warning).toHaveBeenCalledWith(
+      "`src/a.ts` has no coverage data, but the report has `/work/repo/src/a.ts`; consider the path-mappings rule `/work/repo/=>`",
+    );
+    expect(mockedCore.setOutput).toHaveBeenCalledWith(
+      "unmatched-files",
+      '["src/a.ts"]',
+    );
+    expect(analysis.pathWarnings).toEqual([
+      "`src/a.ts` has no coverage data, but the report has `/work/repo/src/a.ts`; consider the path-mappings rule `/work/repo/=>`",
+    ]);
+  });
 });
 
 describe("postPrComment", () => {
@@ -1,18 +1,34 @@
 import * as core from "@actions/core";
 import * as github from "@actions/github";
-import { ChangesetService } from "./changesetService";
-import { LcovParser, LcovReport } from "./lcov";
+import { ChangesetService, ChangesetOptions } from "./changesetService";
+import {
+  CoverageParseOptions,
+  LcovDiagnostic,
+  LcovParser,
+  LcovReport,
+} from "./lcov";
 import { CoverageAnalyzer, CoverageAnalysis } from "./coverageAnalyzer";
 import { Changeset } from "./changeset";
+import { RefInputs } from "./git";
 import { PrCommentService, renderCoverageReport } from "./prComment";
 import { CoverageGating, GatingResult } from "./coverageGating";
 import { TreemapGenerator } from "./treemap/treemapGenerator";
 import { ArtifactService, ArtifactInfo } from "./artifactService";
 import { ChecksService } from "./checksService";
-import { GateMode } from "./inputs";
+import {
+  ChecksumMismatchAction,
+  CoverageFormat,
+  GateMode,
+  LcovValidation,
+} from "./inputs";
 import { toErrorMessage } from "./errors";
+import { PathDiagnostics } from "./pathDiagnostics";
+import { ReportFreshness } from "./reportFreshness";
+import { SourceChecksums } from "./sourceChecksums";
 const TREEMAP_OUTPUT_PATH = "./coverage-treemap.png";
 const ARTIFACT_RETENTION_DAYS = 30;
+// Diagnostics spelled out in a strict-mode failure; the log group has them all.
+const MAX_FAILURE_DIAGNOSTICS = 20;
 
 /**
  * Runs `fn` inside a collapsible log group, guaranteeing the group is closed
@@ -36,6 +52,8 @@ export async function detectChangeset(
   targetBranch: string,
   sourceCodePattern?: string,
   testCodePattern?: string,
+  refs?: RefInputs,
+  changesetOptions?: ChangesetOptions,
 ): Promise<Changeset> {
   return withGroup("🕵️‍♂️ Determining changeset", async () => {
     const changeset = await ChangesetService.detectCodeChanges(
@@ -43,17 +61,32 @@ export async function detectChangeset(
       undefined,
       sourceCodePattern,
       testCodePattern,
+      refs,
+      changesetOptions,
     );
     ChangesetService.outputChangeset(changeset);
     return changeset;
   });
 }
 
-export async function parseLcovReport(lcovFile: string): Promise<LcovReport> {
-  return withGroup("📊 Parsing LCOV report", async () => {
-    core.info(`📂 Reading LCOV file: ${lcovFile}`);
+export async function parseLcovReport(
+  lcovFiles: string[],
+  coverageFormat: CoverageFormat = "lcov",
+  parseOptions: CoverageParseOptions = {},
+  validation: LcovValidation = "lenient",
+): Promise<LcovReport> {
+  const report = await withGroup("📊 Parsing LCOV report", async () => {
+    core.info(
+      coverageFormat === "auto"
+        ? `📂 Reading coverage files (format detected from content): ${lcovFiles.join(", ")}`
+        : `📂 Reading ${coverageFormat} coverage files: ${lcovFiles.join(", ")}`,
+    );
 
-    const report = LcovParser.parseFile(lcovFile);
+    const report = await LcovParser.parseFiles(
+      lcovFiles,
+      coverageFormat,
+      parseOptions,
+    );
 
     core.info(`✅ Parsed ${report.summary.totalFiles} files from LCOV report`);
     core.info(
@@ -62,6 +95,114 @@ export async function parseLcovReport(lcovFile: string): Promise<LcovReport> {
 
     return report;
   });
+
+  await reportLcovDiagnostics(report.diagnostics ?? [], validation);
+  return report;
+}
+
+/**
+ * Log every LCOV diagnostic in its own group. Lenient validation only warns
+ * that there were some; strict validation fails with the list.
+ */
+async function reportLcovDiagnostics(
+  diagnostics: LcovDiagnostic[],
+  validation: LcovValidation,
+): Promise<void> {
+  if (diagnostics.length === 0) return;
+
+  const lines = diagnostics.map(formatLcovDiagnostic);
+  await withGroup(
+    `🩺 LCOV validation: ${diagnostics.length} ${diagnostics.length === 1 ? "issue" : "issues"}`,
+    () => lines.forEach((line) => core.info(line)),
+  );
+
+  if (validation === "strict") {
+    const listed = lines.slice(0, MAX_FAILURE_DIAGNOSTICS);
+    const more = lines.length - listed.length;
+    throw new Error(
+      [
+        `LCOV validation failed with ${lines.length} ${lines.length === 1 ? "issue" : "issues"}:`,
+        ...listed.map((line) => `  ${line}`),
+        ...(more > 0 ? [`  ... and ${more} more`] : []),
+      ].join("\n"),
+    );
+  }
+
+  core.warning(
+    `LCOV validation found ${lines.length} ${lines.length === 1 ? "issue" : "issues"}; see the "LCOV validation" log group. Set lcov-validation: strict to fail the run on them.`,
+  );
+}
+
+function formatLcovDiagnostic(diagnostic: LcovDiagnostic): string {
+  const location =
+    diagnostic.source !== undefined
+      ? `${diagnostic.source}:${diagnostic.line}`
+      : `line ${diagnostic.line}`;
+  return `${location}: ${diagnostic.message}`;
+}
+
+/**
+ * Check the report's `DA` source checksums against the checked-out changed
+ * files. A mismatch means the coverage came from other source than the head
+ * commit, e.g. a stale artifact restored from a cache.
+ */
+export async function verifySourceChecksums(
+  changeset: Changeset,
+  lcovReport: LcovReport,
+  action: ChecksumMismatchAction = "warn",
+): Promise<void> {
+  if (action === "ignore") return;
+
+  const mismatches = SourceChecksums.verify(changeset, lcovReport);
+  if (mismatches.length === 0) return;
+
+  const lines = mismatches.map((mismatch) =>
+    SourceChecksums.describe(mismatch),
+  );
+  const summary = `Coverage report does not match the checked-out source of ${mismatches.length} changed ${mismatches.length === 1 ? "file" : "files"}`;
+  await withGroup(`🔏 Source checksums: ${mismatches.length} stale`, () =>
+    lines.forEach((line) => core.info(line)),
+  );
+
+  if (action === "fail") {
+    throw new Error(
+      [`${summary}:`, ...lines.map((line) => `  ${line}`)].join("\n"),
+    );
+  }
+
+  core.warning(
+    `${summary}: ${mismatches.map((mismatch) => mismatch.path).join(", ")}. Set checksum-mismatch: fail to fail the run on it.`,
+  );
+}
+
+/**
+ * Remove the records excluded by pragmas in the checked-out changed files, for
+ * reports whose tools did not apply them before export.
+ */
+export async function applyExclusionPragmas(
+  changeset: Changeset,
+  lcovReport: LcovReport,
+): Promise<LcovReport> {
+  return withGroup("🙈 Applying source exclusion pragmas", () => {
+    const report = LcovParser.applyExclusionPragmas(
+      lcovReport,
+      changeset.files
+        .filter((file) => file.status !== "deleted")
+        .map((file) => file.path),
+    );
+
+    const excluded = [...report.files.values()].flatMap((file) =>
+      file.excluded ? [file.excluded] : [],
+    );
+    const total = (key: "lines" | "functions" | "branches") =>
+      excluded.reduce((sum, counts) => sum + counts[key], 0);
+    core.info(
+      excluded.length > 0
+        ? `✂️ Excluded ${total("lines")} lines, ${total("functions")} functions and ${total("branches")} branches in ${excluded.length} changed ${excluded.length === 1 ? "file" : "files"}`
+        : "✅ No exclusion pragmas apply to the changed files",
+    );
+    return report;
+  });
 }
 
 export async function analyzeCoverageAndGating(
@@ -69,17 +210,44 @@ export async function analyzeCoverageAndGating(
   lcovReport: LcovReport,
   gateMode: GateMode,
   threshold: number,
+  mcdcThreshold?: number,
 ): Promise<{ analysis: CoverageAnalysis; gatingResult: GatingResult }> {
   return withGroup("🔍 Analyzing coverage for changed files", async () => {
-    const analysis = CoverageAnalyzer.analyze(changeset, lcovReport);
+    const analyzed = CoverageAnalyzer.analyze(changeset, lcovReport);
+    const staleFiles = ReportFreshness.findStaleFiles(analyzed);
+    const unmatchedFiles = PathDiagnostics.findUnmatchedFiles(
+      analyzed,
+      lcovReport,
+    );
+    // Computed once here and carried on the analysis, so the log, the PR
+    // comment and the check summary show the same hints.
+    const pathWarnings = PathDiagnostics.warnings(
+      analyzed,
+      lcovReport,
+      unmatchedFiles,
+    );
+    const analysis: CoverageAnalysis = {
+      ...analyzed,
+      ...(staleFiles.length > 0 && { staleFiles }),
+      ...(pathWarnings.length > 0 && { pathWarnings }),
+    };
 
     core.info(CoverageAnalyzer.format(analysis));
 
+    for (const staleFile of staleFiles) {
+      core.warning(ReportFreshness.describe(staleFile));
+    }
+
+    for (const warning of pathWarnings) {
+      core.warning(warning);
+    }
+
     const gatingResult = CoverageGating.evaluate(
       analysis,
       lcovReport,
       gateMode,
       threshold,
+      mcdcThreshold,
     );
 
     core.info(CoverageGating.format(gatingResult));
@@ -88,19 +256,43 @@ export async function analyzeCoverageAndGating(
       "coverage-percentage",
       analysis.summary.overallCoverage.overallCoveragePercentage,
     );
+    // Without line-level diff data patch coverage is the whole-file figure.
+    core.setOutput(
+      "patch-coverage-percentage",
+      (analysis.summary.patchCoverage ?? analysis.summary.overallCoverage)
+        .overallCoveragePercentage,
+    );
     core.setOutput("meets-threshold", gatingResult.meetsThreshold);
     core.setOutput("files-analyzed", analysis.summary.totalChangedFiles);
     core.setOutput("files-with-coverage", analysis.summary.filesWithCoverage);
+    core.setOutput(
+      "unmatched-files",
+      JSON.stringify(unmatchedFiles.map((file) => file.path)),
+    );
+    core.setOutput(
+      "stale-files",
+      JSON.stringify(staleFiles.map((file) => file.path)),
+    );
 
     return { analysis, gatingResult };
   });
 }
 
+/**
+ * Whether the run belongs to a pull request, the only place a PR comment can
+ * go. Push, merge queue and manual runs report through the job summary.
+ */
+export function isPullRequestEvent(): boolean {
+  return Boolean(github.context.payload.pull_request);
+}
+
 export function buildTreemapSubtitle(): string {
   // The commit of the repository the action runs in. On pull_request events
-  // GITHUB_SHA is a synthetic merge commit, so prefer the PR head sha.
+  // GITHUB_SHA is a synthetic merge commit, so prefer the PR head sha; merge
+  // queue runs name the queue's head commit.
   const sha =
     github.context.payload.pull_request?.head?.sha ||
+    github.context.payload.merge_group?.head_sha ||
     process.env.GITHUB_SHA ||
     "";
   const shortSha = sha ? sha.substring(0, 7) : "unknown";
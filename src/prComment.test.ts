@@ -668,6 +668,197 @@ describe("PrCommentService", () => {
     });
   });
 
+  describe("changed lines coverage", () => {
+    const buildBody = (data: Partial<CommentData>): string => {
+      const service = new PrCommentService({ githubToken: "test-token" });
+      const commentData: CommentData = {
+        totalCoverage: { linesHit: 800, linesFound: 1000, percentage: 80 },
+        changedFilesCoverage: { linesHit: 40, linesFound: 50, percentage: 80 },
+        coverageDifference: 0,
+        fileBreakdown: [],
+        hasFunctionData: true,
+        ...data,
+      };
+      const gatingResult: GatingResult = {
+        meetsThreshold: true,
+        threshold: 75,
+        mode: "standard",
+        prCoveragePercentage: 80,
+        description: "standard",
+      };
+      return (
+        service as unknown as {
+          generateCommentBody: (
+            data: CommentData,
+            gatingResult: GatingResult,
+          ) => string;
+        }
+      ).generateCommentBody.bind(service)(commentData, gatingResult);
+    };
+
+    test("adds a Changed Lines row and column when patch data exists", () => {
+      const result = buildBody({
+        changedLinesCoverage: {
+          linesHit: 3,
+          linesFound: 4,
+          percentage: 75,
+          recordsFound: 4,
+        },
+        fileBreakdown: [
+          {
+            filename: "src/example.ts",
+            linesHit: 40,
+            linesFound: 50,
+            percentage: 80,
+            changedLines: {
+              linesHit: 3,
+              linesFound: 4,
+              percentage: 75,
+              recordsFound: 4,
+            },
+          },
+        ],
+      });
+
+      expect(result).toContain("| **Changed Lines** | 75% | 3/4 |");
+      expect(result).toContain("| File | Coverage | Lines | Changed Lines |");
+      expect(result).toContain(
+        "✅ `src/example.ts` | 80% | 40/50 | 75% (3/4) |",
+      );
+    });
+
+    test("renders dashes when the diff touched no coverable lines", () => {
+      const result = buildBody({
+        changedLinesCoverage: {
+          linesHit: 0,
+          linesFound: 0,
+          percentage: 100,
+          recordsFound: 0,
+        },
+        fileBreakdown: [
+          {
+            filename: "src/example.ts",
+            linesHit: 40,
+            linesFound: 50,
+            percentage: 80,
+            changedLines: {
+              linesHit: 0,
+              linesFound: 0,
+              percentage: 100,
+              recordsFound: 0,
+            },
+          },
+        ],
+      });
+
+      expect(result).toContain("| **Changed Lines** | – | – |");
+      expect(result).toContain("✅ `src/example.ts` | 80% | 40/50 | – |");
+    });
+
+    test("describes and applies the patch gate per changed lines", () => {
+      const service = new PrCommentService({ githubToken: "test-token" });
+      const commentData: CommentData = {
+        totalCoverage: { linesHit: 800, linesFound: 1000, percentage: 80 },
+        changedFilesCoverage: { linesHit: 10, linesFound: 50, percentage: 20 },
+        changedLinesCoverage: {
+          linesHit: 4,
+          linesFound: 4,
+          percentage: 100,
+          recordsFound: 4,
+        },
+        coverageDifference: -60,
+        fileBreakdown: [
+          {
+            filename: "src/legacy.ts",
+            linesHit: 10,
+            linesFound: 50,
+            percentage: 20,
+            changedLines: {
+              linesHit: 4,
+              linesFound: 4,
+              percentage: 100,
+              recordsFound: 4,
+            },
+          },
+        ],
+        hasFunctionData: true,
+      };
+      const gatingResult: GatingResult = {
+        meetsThreshold: true,
+        threshold: 80,
+        mode: "patch",
+        prCoveragePercentage: 100,
+        description: "patch",
+      };
+      const result = (
+        service as unknown as {
+          generateCommentBody: (
+            data: CommentData,
+            gatingResult: GatingResult,
+          ) => string;
+        }
+      ).generateCommentBody.bind(service)(commentData, gatingResult);
+
+      expect(result).toContain(
+        "| **Threshold** | ✅ 80% of changed lines | - |",
+      );
+      expect(result).toContain("✅ `src/legacy.ts` | 20% | 10/50");
+    });
+
+    test("shows a failed patch gate when only a changed function counts", () => {
+      const service = new PrCommentService({ githubToken: "test-token" });
+      const commentData: CommentData = {
+        totalCoverage: { linesHit: 800, linesFound: 1000, percentage: 80 },
+        changedFilesCoverage: { linesHit: 0, linesFound: 5, percentage: 0 },
+        changedLinesCoverage: {
+          linesHit: 0,
+          linesFound: 0,
+          percentage: 0,
+          recordsFound: 1,
+        },
+        coverageDifference: -80,
+        fileBreakdown: [],
+        hasFunctionData: true,
+      };
+      const gatingResult: GatingResult = {
+        meetsThreshold: false,
+        threshold: 80,
+        mode: "patch",
+        prCoveragePercentage: 0,
+        description: "patch",
+      };
+      const result = (
+        service as unknown as {
+          generateCommentBody: (
+            data: CommentData,
+            gatingResult: GatingResult,
+          ) => string;
+        }
+      ).generateCommentBody.bind(service)(commentData, gatingResult);
+
+      expect(result).toContain("| **Changed Lines** | 0% | 0/0 |");
+      expect(result).toContain(
+        "| **Threshold** | ❌ 80% of changed lines | - |",
+      );
+    });
+
+    test("omits the Changed Lines row and column without patch data", () => {
+      const result = buildBody({
+        fileBreakdown: [
+          {
+            filename: "src/example.ts",
+            linesHit: 40,
+            linesFound: 50,
+            percentage: 80,
+          },
+        ],
+      });
+
+      expect(result).not.toContain("Changed Lines");
+      expect(result).toContain("✅ `src/example.ts` | 80% | 40/50 |\n");
+    });
+  });
+
   describe("findExistingComment", () => {
     let mockOctokit: any;
     let prCommentService: PrCommentService;
@@ -1042,5 +1233,148 @@ describe("renderCoverageReport", () => {
     );
 
     expect(result).not.toContain("### 🔍 Inline Coverage Annotations");
+    expect(result).not.toContain("### ⚠️ Coverage Path Mismatch");
+  });
+
+  test("warns about changed files whose coverage sits under another path", () => {
+    const result = renderCoverageReport(
+      {
+        ...mockAnalysis,
+        pathWarnings: [
+          "`src/missing.ts` has no coverage data, but the report has `/builds/app/src/missing.ts`; consider the path-mappings rule `/builds/app/=>`",
+        ],
+      },
+      mockLcovReport,
+      gatingResult,
+    );
+
+    expect(result).toContain(
+      "### ⚠️ Coverage Path Mismatch\n\n" +
+        "- `src/missing.ts` has no coverage data, but the report has `/builds/app/src/missing.ts`; consider the path-mappings rule `/builds/app/=>`\n",
+    );
+  });
+
+  test("lists changed files whose coverage looks stale", () => {
+    const result = renderCoverageReport(
+      {
+        ...mockAnalysis,
+        staleFiles: [
+          {
+            path: "src/example.ts",
+            reason: "past-end-of-file",
+            lastReportedLine: 90,
+            lineCount: 40,
+          },
+        ],
+      },
+      mockLcovReport,
+      gatingResult,
+    );
+
+    expect(result).toContain(
+      "### ⏳ Possibly Stale Coverage\n\n" +
+        "- `src/example.ts` has coverage for line 90, but the file has 40 lines; the report was probably generated from an older commit\n",
+    );
+  });
+
+  test("lists what source pragmas excluded from each changed file", () => {
+    const [exampleFile] = mockAnalysis.changedFiles;
+    const result = renderCoverageReport(
+      {
+        ...mockAnalysis,
+        changedFiles: [
+          {
+            ...exampleFile!,
+            coverage: {
+              ...exampleFile!.coverage!,
+              excluded: { lines: 4, functions: 1, branches: 2 },
+            },
+          },
+        ],
+      },
+      mockLcovReport,
+      gatingResult,
+    );
+
+    expect(result).toContain(
+      "### 🙈 Excluded by Source Pragmas\n\n" +
+        "| File | Lines | Functions | Branches |\n" +
+        "|------|-------|-----------|----------|\n" +
+        "| `src/example.ts` | 4 | 1 | 2 |\n",
+    );
+  });
+
+  test("lists the tests exercising each changed file", () => {
+    const [exampleFile] = mockAnalysis.changedFiles;
+    const result = renderCoverageReport(
+      {
+        ...mockAnalysis,
+        changedFiles: [
+          {
+            ...exampleFile!,
+            testAttribution: {
+              tests: ["a", "b|c", "`d`", "e", "f", "g"],
+              untestedLines: [3, 4, 5, 9],
+            },
+          },
+          {
+            ...exampleFile!,
+            path: "src/other.ts",
+            testAttribution: { tests: [], untestedLines: [2] },
+          },
+          {
+            ...exampleFile!,
+            path: "src/types.ts",
+            testAttribution: { tests: [], untestedLines: [] },
+          },
+        ],
+      },
+      mockLcovReport,
+      gatingResult,
+    );
+
+    expect(result).toContain(
+      "### 🧪 Tests Exercising Changed Files\n\n" +
+        "| File | Tests | Untested Changed Lines |\n" +
+        "|------|-------|------------------------|\n" +
+        "| `src/example.ts` | `a`, `b\\|c`, `` `d` ``, `e`, `f` (+1 more) | 3-5, 9 |\n" +
+        "| `src/other.ts` | ⚠️ None | 2 |\n\n",
+    );
+  });
+
+  test("shows MC/DC rows and a file column when the report has MC/DC data", () => {
+    const [exampleFile] = mockAnalysis.changedFiles;
+    const mcdcMetrics = {
+      ...exampleFile!.analysis,
+      totalConditions: 4,
+      coveredConditions: 3,
+      mcdcCoveragePercentage: 75,
+    };
+    const result = renderCoverageReport(
+      {
+        ...mockAnalysis,
+        changedFiles: [{ ...exampleFile!, analysis: mcdcMetrics }],
+        summary: { ...mockAnalysis.summary, overallCoverage: mcdcMetrics },
+      },
+      mockLcovReport,
+      {
+        ...gatingResult,
+        mcdc: { threshold: 80, percentage: 75, meetsThreshold: false },
+      },
+    );
+
+    expect(result).toContain("| **MC/DC Conditions** | 75% | 3/4 |");
+    expect(result).toContain("| **MC/DC Threshold** | ❌ 80% | - |");
+    expect(result).toContain("| MC/DC |");
+  });
+
+  test("omits the tests section when the report names no tests", () => {
+    const result = renderCoverageReport(
+      mockAnalysis,
+      mockLcovReport,
+      gatingResult,
+    );
+
+    expect(result).not.toContain("### 🧪 Tests Exercising Changed Files");
   });
 });
@@ -1,10 +1,11 @@
 import * as core from "@actions/core";
 import * as github from "@actions/github";
-import { CoverageAnalysis } from "./coverageAnalyzer";
+import { CoverageAnalysis, CoverageMetrics } from "./coverageAnalyzer";
 import { LcovReport } from "./lcov";
 import { GatingResult } from "./coverageGating";
 import { ArtifactInfo } from "./artifactService";
 import { formatFileSize } from "./formatBytes";
+import { ReportFreshness } from "./reportFreshness";
 
 export { formatFileSize } from "./formatBytes";
 
@@ -24,14 +25,77 @@ export interface CommentData {
     linesFound: number;
     percentage: number;
   };
+  // Coverage of only the changed lines; absent without line-level diff data.
+  changedLinesCoverage?: PatchCell;
+  // MC/DC condition coverage of the changed files; absent when the report has
+  // no MC/DC records for them.
+  changedFilesMcdc?: McdcCell;
   coverageDifference: number;
   fileBreakdown: Array<{
     filename: string;
     linesHit: number;
     linesFound: number;
     percentage: number;
+    changedLines?: PatchCell;
+    mcdc?: McdcCell;
   }>;
   hasFunctionData: boolean;
+  // Likely path mismatches between the report and the changeset; absent when
+  // there is nothing to warn about.
+  pathWarnings?: string[];
+  // Changed files whose coverage looks out of date; absent when none do.
+  staleWarnings?: string[];
+  // Records that source pragmas removed from each changed file; absent when
+  // pragmas were not applied or removed nothing.
+  exclusions?: Array<{
+    filename: string;
+    lines: number;
+    functions: number;
+    branches: number;
+  }>;
+  // Which tests exercised each changed file; absent when the report does not
+  // attribute coverage to named tests.
+  testBreakdown?: Array<{
+    filename: string;
+    tests: string[];
+    untestedLines: number[];
+  }>;
+}
+
+interface PatchCell {
+  linesHit: number;
+  linesFound: number;
+  percentage: number;
+  // Lines, functions and branches the percentage is taken over; a changed
+  // comment inside a function counts the function without any line.
+  recordsFound: number;
+}
+
+function patchCell(metrics: CoverageMetrics): PatchCell {
+  return {
+    linesHit: metrics.coveredLines,
+    linesFound: metrics.totalLines,
+    percentage: metrics.overallCoveragePercentage,
+    recordsFound:
+      metrics.totalLines + metrics.totalFunctions + metrics.totalBranches,
+  };
+}
+
+interface McdcCell {
+  conditionsHit: number;
+  conditionsFound: number;
+  percentage: number;
+}
+
+function mcdcCell(metrics: CoverageMetrics): McdcCell | undefined {
+  return metrics.totalConditions !== undefined &&
+    metrics.mcdcCoveragePercentage !== undefined
+    ? {
+        conditionsHit: metrics.coveredConditions ?? 0,
+        conditionsFound: metrics.totalConditions,
+        percentage: metrics.mcdcCoveragePercentage,
+      }
+    : undefined;
 }
 
 export class PrCommentService {
@@ -68,6 +132,9 @@ export class PrCommentService {
       percentage: analysis.summary.overallCoverage.overallCoveragePercentage,
     };
 
+    const { patchCoverage } = analysis.summary;
+    const changedLinesCoverage = patchCoverage && patchCell(patchCoverage);
+
     const coverageDifference =
       Math.round(
         (changedFilesCoverage.percentage - totalCoverage.percentage) * 100,
@@ -80,14 +147,46 @@ export class PrCommentService {
         linesHit: file.analysis.coveredLines,
         linesFound: file.analysis.totalLines,
         percentage: file.analysis.overallCoveragePercentage,
+        changedLines: file.patchAnalysis && patchCell(file.patchAnalysis),
+        mcdc: mcdcCell(file.analysis),
       }));
 
+    const changedFilesMcdc = mcdcCell(analysis.summary.overallCoverage);
+
+    const pathWarnings = analysis.pathWarnings ?? [];
+    const staleWarnings = (analysis.staleFiles ?? []).map((file) =>
+      ReportFreshness.describe(file),
+    );
+
+    const exclusions = analysis.changedFiles.flatMap((file) =>
+      file.coverage?.excluded
+        ? [{ filename: file.path, ...file.coverage.excluded }]
+        : [],
+    );
+
+    // A file whose changed lines have no DA record (comments, imports,
+    // type-only code) has nothing for a test to exercise, so it is left out
+    // rather than listed with no tests.
+    const testBreakdown = analysis.changedFiles.flatMap((file) =>
+      file.testAttribution &&
+      (file.testAttribution.tests.length > 0 ||
+        file.testAttribution.untestedLines.length > 0)
+        ? [{ filename: file.path, ...file.testAttribution }]
+        : [],
+    );
+
     return {
       totalCoverage,
       changedFilesCoverage,
+      changedLinesCoverage,
+      ...(changedFilesMcdc && { changedFilesMcdc }),
       coverageDifference,
       fileBreakdown,
       hasFunctionData: lcovReport.summary.functionsFound > 0,
+      ...(pathWarnings.length > 0 && { pathWarnings }),
+      ...(staleWarnings.length > 0 && { staleWarnings }),
+      ...(exclusions.length > 0 && { exclusions }),
+      ...(testBreakdown.length > 0 && { testBreakdown }),
     };
   }
 
@@ -253,7 +352,17 @@ function buildCommentBody(
       ? "Gating disabled"
       : gatingResult.mode === "baseline"
         ? `≥ Project Avg (${gatingResult.overallProjectCoveragePercentage}%)`
-        : `${gatingResult.threshold}%`;
+        : gatingResult.mode === "patch"
+          ? `${gatingResult.threshold}% of changed lines`
+          : `${gatingResult.threshold}%`;
+
+  // Patch gating is decided by the records on changed lines alone (including
+  // functions a changed line falls inside), so a PR that touches none has
+  // nothing to gate even if its files do.
+  const hasGatedLines =
+    gatingResult.mode === "patch" && data.changedLinesCoverage
+      ? data.changedLinesCoverage.recordsFound > 0
+      : hasChangedLines;
 
   const changedFilesCell = hasChangedLines
     ? `${data.changedFilesCoverage.percentage}% | ${formatLines(
@@ -275,7 +384,7 @@ function buildCommentBody(
   const thresholdCell =
     gatingResult.mode === "disabled"
       ? `ℹ️ ${thresholdDisplay}`
-      : hasChangedLines
+      : hasGatedLines
         ? `${gatingResult.meetsThreshold ? "✅" : "❌"} ${thresholdDisplay}`
         : `➖ ${thresholdDisplay} (no changed lines)`;
 
@@ -291,14 +400,61 @@ function buildCommentBody(
     data.totalCoverage.linesFound,
   )} |\n`;
   markdown += `| **Changed Files** | ${changedFilesCell} |\n`;
+  if (data.changedLinesCoverage) {
+    markdown += `| **Changed Lines** | ${formatPatchCell(
+      data.changedLinesCoverage,
+    )} |\n`;
+  }
+  if (data.changedFilesMcdc) {
+    markdown += `| **MC/DC Conditions** | ${
+      data.changedFilesMcdc.percentage
+    }% | ${formatLines(
+      data.changedFilesMcdc.conditionsHit,
+      data.changedFilesMcdc.conditionsFound,
+    )} |\n`;
+  }
   markdown += `| **Difference** | ${differenceCell} | - |\n`;
-  markdown += `| **Threshold** | ${thresholdCell} | - |\n\n`;
+  markdown += `| **Threshold** | ${thresholdCell} | - |\n`;
+  if (gatingResult.mcdc) {
+    markdown += `| **MC/DC Threshold** | ${
+      gatingResult.mcdc.meetsThreshold ? "✅" : "❌"
+    } ${gatingResult.mcdc.threshold}% | - |\n`;
+  }
+  markdown += `\n`;
+
+  // Unmatched paths are the usual cause of "no coverage data", so point at
+  // the fix before the file table reports those files as uncovered.
+  if (data.pathWarnings) {
+    markdown += `### ⚠️ Coverage Path Mismatch\n\n`;
+    for (const warning of data.pathWarnings) {
+      markdown += `- ${warning}\n`;
+    }
+    markdown += `\n`;
+  }
+
+  if (data.staleWarnings) {
+    markdown += `### ⏳ Possibly Stale Coverage\n\n`;
+    for (const warning of data.staleWarnings) {
+      markdown += `- ${warning}\n`;
+    }
+    markdown += `\n`;
+  }
 
   // File breakdown if there are any files with coverage data
   if (data.fileBreakdown.length > 0) {
+    // Only add the patch column when diff data exists, so the table keeps its
+    // original shape on the degraded (whole-file) path.
+    const hasPatchData = data.fileBreakdown.some((file) => file.changedLines);
+    const hasMcdcData = data.fileBreakdown.some((file) => file.mcdc);
+
     markdown += `### Changed Files Coverage\n\n`;
-    markdown += `| File | Coverage | Lines |\n`;
-    markdown += `|------|----------|-------|\n`;
+    markdown += `| File | Coverage | Lines |`;
+    markdown += hasPatchData ? ` Changed Lines |` : ``;
+    markdown += hasMcdcData ? ` MC/DC |` : ``;
+    markdown += `\n|------|----------|-------|`;
+    markdown += hasPatchData ? `---------------|` : ``;
+    markdown += hasMcdcData ? `-------|` : ``;
+    markdown += `\n`;
 
     for (const file of data.fileBreakdown) {
       let fileEmoji: string;
@@ -308,12 +464,56 @@ function buildCommentBody(
         const fileThresholdMet =
           gatingResult.mode === "baseline"
             ? file.percentage >= gatingResult.overallProjectCoveragePercentage!
-            : file.percentage >= gatingResult.threshold;
+            : gatingResult.mode === "patch"
+              ? (file.changedLines?.percentage ?? file.percentage) >=
+                gatingResult.threshold
+              : file.percentage >= gatingResult.threshold;
         fileEmoji = fileThresholdMet ? "✅" : "❌";
       }
       markdown += `| ${fileEmoji} \`${file.filename}\` | ${
         file.percentage
-      }% | ${formatLines(file.linesHit, file.linesFound)} |\n`;
+      }% | ${formatLines(file.linesHit, file.linesFound)} |`;
+      if (hasPatchData) {
+        const patch = file.changedLines;
+        markdown +=
+          patch && patch.linesFound > 0
+            ? ` ${patch.percentage}% (${formatLines(
+                patch.linesHit,
+                patch.linesFound,
+              )}) |`
+            : ` – |`;
+      }
+      if (hasMcdcData) {
+        markdown += file.mcdc
+          ? ` ${file.mcdc.percentage}% (${formatLines(
+              file.mcdc.conditionsHit,
+              file.mcdc.conditionsFound,
+            )}) |`
+          : ` – |`;
+      }
+      markdown += `\n`;
+    }
+    markdown += `\n`;
+  }
+
+  if (data.exclusions) {
+    markdown += `### 🙈 Excluded by Source Pragmas\n\n`;
+    markdown += `| File | Lines | Functions | Branches |\n`;
+    markdown += `|------|-------|-----------|----------|\n`;
+    for (const file of data.exclusions) {
+      markdown += `| \`${file.filename}\` | ${file.lines} | ${file.functions} | ${file.branches} |\n`;
+    }
+    markdown += `\n`;
+  }
+
+  if (data.testBreakdown) {
+    markdown += `### 🧪 Tests Exercising Changed Files\n\n`;
+    markdown += `| File | Tests | Untested Changed Lines |\n`;
+    markdown += `|------|-------|------------------------|\n`;
+    for (const file of data.testBreakdown) {
+      markdown += `| \`${file.filename}\` | ${formatTestNames(
+        file.tests,
+      )} | ${file.untestedLines.length > 0 ? formatLineRanges(file.untestedLines) : "–"} |\n`;
     }
     markdown += `\n`;
   }
@@ -357,6 +557,62 @@ function formatLines(linesHit: number, linesFound: number): string {
   return `${formatLineCount(linesHit)}/${formatLineCount(linesFound)}`;
 }
 
+// Test names listed per file before the rest collapse into "+N more".
+const MAX_LISTED_TESTS = 5;
+
+/** List test names for a table cell, escaping pipes that would split it. */
+function formatTestNames(tests: string[]): string {
+  if (tests.length === 0) return "⚠️ None";
+  const listed = tests
+    .slice(0, MAX_LISTED_TESTS)
+    .map((name) => codeSpan(name.replace(/\|/g, "\\|")))
+    .join(", ");
+  const more = tests.length - MAX_LISTED_TESTS;
+  return more > 0 ? `${listed} (+${more} more)` : listed;
+}
+
+/**
+ * Wrap `text` in an inline code span whose backtick fence is longer than any
+ * run of backticks inside it, padding with spaces when the text starts or ends
+ * with a backtick, as CommonMark requires.
+ */
+function codeSpan(text: string): string {
+  const longestRun = Math.max(
+    0,
+    ...(text.match(/`+/g) ?? []).map((run) => run.length),
+  );
+  const fence = "`".repeat(longestRun + 1);
+  const padding = text.startsWith("`") || text.endsWith("`") ? " " : "";
+  return `${fence}${padding}${text}${padding}${fence}`;
+}
+
+/** Collapse sorted line numbers into ranges, e.g. [3, 4, 5, 9] -> "3-5, 9". */
+function formatLineRanges(lines: number[]): string {
+  const ranges: Array<[number, number]> = [];
+  for (const line of lines) {
+    const last = ranges[ranges.length - 1];
+    if (last && line === last[1] + 1) {
+      last[1] = line;
+    } else {
+      ranges.push([line, line]);
+    }
+  }
+  return ranges
+    .map(([start, end]) => (start === end ? `${start}` : `${start}-${end}`))
+    .join(", ");
+}
+
+/**
+ * Render the `coverage | lines` cells for changed-line coverage, with
+ * placeholders when the diff touched no coverable lines, functions or
+ * branches.
+ */
+function formatPatchCell(patch: PatchCell): string {
+  return patch.recordsFound > 0
+    ? `${patch.percentage}% | ${formatLines(patch.linesHit, patch.linesFound)}`
+    : `– | –`;
+}
+
 /**
  * Get the download URL for artifacts
  */
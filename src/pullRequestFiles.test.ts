@@ -0,0 +1,129 @@
+import { PullRequestFiles } from "./pullRequestFiles";
+import * as core from "@actions/core";
+
+jest.mock("@actions/core");
+jest.mock("@actions/github", () => ({
+  context: {
+    repo: { owner: "testowner", repo: "testrepo" },
+    payload: {},
+  },
+  getOctokit: jest.fn(),
+}));
+
+import { context, getOctokit } from "@actions/github";
+
+const mockedCore = core as jest.Mocked<typeof core>;
+
+describe("PullRequestFiles", () => {
+  const paginate = jest.fn();
+  const listFiles = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (context as unknown as { payload: object }).payload = {
+      pull_request: { number: 42 },
+    };
+    (getOctokit as jest.Mock).mockReturnValue({
+      paginate,
+      rest: { pulls: { listFiles } },
+    });
+  });
+
+  describe("isAvailable", () => {
+    it("should be available on pull request events only", () => {
+      expect(PullRequestFiles.isAvailable()).toBe(true);
+
+      (context as unknown as { payload: object }).payload = {};
+      expect(PullRequestFiles.isAvailable()).toBe(false);
+    });
+  });
+
+  describe("list", () => {
+    it("should page through the pull request's files", async () => {
+      paginate.mockResolvedValue([]);
+
+      await PullRequestFiles.list("test-token");
+
+      expect(getOctokit).toHaveBeenCalledWith("test-token");
+      expect(paginate).toHaveBeenCalledWith(listFiles, {
+        owner: "testowner",
+        repo: "testrepo",
+        pull_number: 42,
+        per_page: 100,
+      });
+    });
+
+    it("should map statuses and parse the changed lines of each patch", async () => {
+      paginate.mockResolvedValue([
+        {
+          filename: "src/new.ts",
+          status: "added",
+          changes: 2,
+          patch: "@@ -0,0 +1,2 @@\n+a\n+b",
+        },
+        {
+          filename: "src/edited.ts",
+          status: "modified",
+          changes: 2,
+          patch: "@@ -3,3 +3,3 @@\n x\n-y\n+z\n w",
+        },
+        {
+          filename: "src/moved.ts",
+          status: "renamed",
+          previous_filename: "src/old.ts",
+          changes: 0,
+        },
+        {
+          filename: "src/copy.ts",
+          status: "copied",
+          previous_filename: "src/original.ts",
+          changes: 1,
+          patch: "@@ -1 +1 @@\n-a\n+b",
+        },
+        { filename: "src/gone.ts", status: "removed", changes: 4 },
+      ]);
+
+      const files = await PullRequestFiles.list("test-token");
+
+      expect(files).toEqual([
+        { path: "src/new.ts", status: "added", changedLines: [1, 2] },
+        { path: "src/edited.ts", status: "modified", changedLines: [4] },
+        {
+          path: "src/moved.ts",
+          status: "renamed",
+          previousPath: "src/old.ts",
+          changedLines: [],
+        },
+        {
+          path: "src/copy.ts",
+          status: "copied",
+          previousPath: "src/original.ts",
+          changedLines: [1],
+        },
+      ]);
+      expect(mockedCore.warning).not.toHaveBeenCalled();
+    });
+
+    it("should leave out the changed lines of files GitHub sends no patch for", async () => {
+      paginate.mockResolvedValue([
+        { filename: "src/huge.ts", status: "modified", changes: 5000 },
+      ]);
+
+      const files = await PullRequestFiles.list("test-token");
+
+      expect(files).toEqual([{ path: "src/huge.ts", status: "modified" }]);
+      expect(mockedCore.warning).toHaveBeenCalledWith(
+        expect.stringContaining("src/huge.ts"),
+      );
+    });
+
+    it("should fail outside pull request events", async () => {
+      (context as unknown as { payload: object }).payload = {};
+
+      await expect(PullRequestFiles.list("test-token")).rejects.toThrow(
+        "only available on pull request events",
+      );
+      expect(paginate).not.toHaveBeenCalled();
+    });
+  });
+});
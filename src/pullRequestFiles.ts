@@ -0,0 +1,112 @@
+import * as core from "@actions/core";
+import * as github from "@actions/github";
+import { FileChange } from "./changeset";
+import { GitUtils } from "./git";
+
+// The fields of a `pulls.listFiles` entry the changeset needs.
+interface PullRequestFile {
+  filename: string;
+  status: string;
+  previous_filename?: string;
+  changes: number;
+  patch?: string;
+}
+
+export class PullRequestFiles {
+  /** Whether the run belongs to a pull request whose files can be listed. */
+  static isAvailable(): boolean {
+    return github.context.payload.pull_request !== undefined;
+  }
+
+  /**
+   * List the pull request's changed files through the GitHub API, with the
+   * lines each one adds parsed from its patch. No git history is needed, so
+   * this works on a `fetch-depth: 1` checkout. GitHub leaves out the patch of
+   * binary and very large diffs; those files are treated as changed as a
+   * whole. The API lists at most 3000 files per pull request.
+   */
+  static async list(githubToken: string): Promise<FileChange[]> {
+    const { context } = github;
+    const pullRequest = context.payload.pull_request;
+    if (!pullRequest) {
+      throw new Error(
+        "The pull request files API is only available on pull request events",
+      );
+    }
+
+    core.info(
+      `🛰️ Listing the files of pull request #${pullRequest.number} through the GitHub API`,
+    );
+
+    const octokit = github.getOctokit(githubToken);
+    const entries: PullRequestFile[] = await octokit.paginate(
+      octokit.rest.pulls.listFiles,
+      {
+        owner: context.repo.owner,
+        repo: context.repo.repo,
+        pull_number: pullRequest.number,
+        per_page: 100,
+      },
+    );
+
+    const files = entries.flatMap((entry) =>
+      PullRequestFiles.toFileChange(entry),
+    );
+
+    core.info(`📊 Found ${files.length} changed files`);
+    files.forEach((file) =>
+      core.info(
+        file.previousPath
+          ? `  - ${file.path} (${file.status} from ${file.previousPath})`
+          : `  - ${file.path}`,
+      ),
+    );
+
+    const withoutPatch = files.filter((file) => !file.changedLines);
+    if (withoutPatch.length > 0) {
+      core.warning(
+        `⚠️ GitHub returned no patch for ${withoutPatch.length} file(s), so they are treated as changed as a whole: ` +
+          withoutPatch.map((file) => file.path).join(", "),
+      );
+    }
+
+    return files;
+  }
+
+  // Mirrors GitUtils.getChangedFiles: removed and unchanged entries are left
+  // out, and renames and copies keep their source path.
+  private static toFileChange(entry: PullRequestFile): FileChange[] {
+    // A pure rename has neither changes nor a patch.
+    const changedLines =
+      entry.patch !== undefined
+        ? GitUtils.parsePatchLines(entry.patch)
+        : entry.changes === 0
+          ? []
+          : undefined;
+    const base = {
+      path: entry.filename,
+      ...(changedLines && { changedLines }),
+    };
+
+    switch (entry.status) {
+      case "added":
+        return [{ ...base, status: "added" }];
+      case "modified":
+      case "changed":
+        return [{ ...base, status: "modified" }];
+      case "renamed":
+      case "copied":
+        return [
+          {
+            ...base,
+            status: entry.status,
+            ...(entry.previous_filename && {
+              previousPath: entry.previous_filename,
+            }),
+          },
+        ];
+      default:
+        return [];
+    }
+  }
+}
@@ -0,0 +1,176 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import { ChangesetUtils } from "./changeset";
+import { CoverageAnalyzer } from "./coverageAnalyzer";
+import { LcovParser } from "./lcov";
+import { ReportFreshness } from "./reportFreshness";
+
+describe("ReportFreshness", () => {
+  let workspace: string;
+
+  const source = [
+    "function add(a, b) {",
+    "  const sum = a + b;",
+    "  // log the result",
+    "  console.log(sum);",
+    "  return sum;",
+    "}",
+    "",
+  ].join("\n");
+
+  const findStaleFiles = (lcov: string, changedLines: number[]) =>
+    ReportFreshness.findStaleFiles(
+      CoverageAnalyzer.analyze(
+        ChangesetUtils.createChangeset(
+          ["src/add.js"],
+          "abc123",
+          "def456",
+          "main",
+          new Map([["src/add.js", changedLines]]),
+        ),
+        LcovParser.parse(lcov),
+      ),
+      workspace,
+    );
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), "freshness-"));
+    fs.mkdirSync(path.join(workspace, "src"));
+    fs.writeFileSync(path.join(workspace, "src/add.js"), source);
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it("should flag DA records past the end of the file", () => {
+    const staleFiles = findStaleFiles(
+      "SF:src/add.js\nDA:2,1\nDA:9,1\nend_of_record",
+      [2],
+    );
+
+    expect(staleFiles).toEqual([
+      {
+        path: "src/add.js",
+        reason: "past-end-of-file",
+        lastReportedLine: 9,
+        lineCount: 6,
+      },
+    ]);
+    expect(ReportFreshness.describe(staleFiles[0]!)).toBe(
+      "`src/add.js` has coverage for line 9, but the file has 6 lines; the report was probably generated from an older commit",
+    );
+  });
+
+  it("should flag added code without records between instrumented lines", () => {
+    const staleFiles = findStaleFiles(
+      "SF:src/add.js\nDA:1,1\nDA:2,1\nDA:5,1\nend_of_record",
+      [3, 4],
+    );
+
+    expect(staleFiles).toEqual([
+      { path: "src/add.js", reason: "changes-not-instrumented", lines: [4] },
+    ]);
+    expect(ReportFreshness.describe(staleFiles[0]!)).toContain(
+      "has no coverage records on its added code (line 4)",
+    );
+  });
+
+  it("should not flag added comments or changes with instrumented lines", () => {
+    expect(
+      findStaleFiles("SF:src/add.js\nDA:2,1\nDA:4,1\nend_of_record", [3]),
+    ).toEqual([]);
+    expect(
+      findStaleFiles(
+        "SF:src/add.js\nDA:2,1\nDA:4,0\nDA:5,1\nend_of_record",
+        [4],
+      ),
+    ).toEqual([]);
+  });
+
+  it("should not flag added code at the edge of the instrumented lines", () => {
+    expect(
+      findStaleFiles("SF:src/add.js\nDA:1,1\nDA:2,1\nend_of_record", [4]),
+    ).toEqual([]);
+  });
+
+  it("should not flag added lines that continue a multi-line statement", () => {
+    fs.writeFileSync(
+      path.join(workspace, "src/add.js"),
+      [
+        "function build(a) {",
+        "  const config = {",
+        "    name: a,",
+        "    retries: 3,",
+        "  };",
+        "  return register(",
+        "    config,",
+        "    a * 2,",
+        "  );",
+        "}",
+        "",
+      ].join("\n"),
+    );
+
+    expect(
+      findStaleFiles(
+        "SF:src/add.js\nDA:1,1\nDA:2,1\nDA:6,1\nDA:10,1\nend_of_record",
+        [4, 8],
+      ),
+    ).toEqual([]);
+  });
+
+  it("should not flag added lines excluded by LCOV_EXCL_LINE", () => {
+    fs.writeFileSync(
+      path.join(workspace, "src/add.js"),
+      [
+        "function add(a, b) {",
+        "  const sum = a + b;",
+        "  debugTrace(sum); // LCOV_EXCL_LINE",
+        "  return sum;",
+        "}",
+        "",
+      ].join("\n"),
+    );
+
+    expect(
+      findStaleFiles(
+        "SF:src/add.js\nDA:1,1\nDA:2,1\nDA:4,1\nend_of_record",
+        [3],
+      ),
+    ).toEqual([]);
+  });
+
+  it("should treat lines inside block comments as comments but not dereferences", () => {
+    fs.writeFileSync(
+      path.join(workspace, "src/add.js"),
+      [
+        "int add(int *a, int b) {",
+        "  int sum = b;",
+        "  /* add the",
+        "     pointed-to value */",
+        "  *a = sum;",
+        "  return sum;",
+        "}",
+        "",
+      ].join("\n"),
+    );
+
+    expect(
+      findStaleFiles(
+        "SF:src/add.js\nDA:1,1\nDA:2,1\nDA:6,1\nend_of_record",
+        [3, 4],
+      ),
+    ).toEqual([]);
+    expect(
+      findStaleFiles(
+        "SF:src/add.js\nDA:1,1\nDA:2,1\nDA:6,1\nend_of_record",
+        [5],
+      ),
+    ).toEqual([
+      { path: "src/add.js", reason: "changes-not-instrumented", lines: [5] },
+    ]);
+  });
+});
@@ -0,0 +1,224 @@
+import * as path from "path";
+
+import { CoverageAnalysis, FileChangeWithCoverage } from "./coverageAnalyzer";
+import { findExclusions } from "./lcov/exclusions";
+import { readSourceLines } from "./sourceLines";
+
+export type StaleFile =
+  | {
+      path: string;
+      reason: "past-end-of-file";
+      // Highest line the report has a DA record for, and the checked-out
+      // file's length.
+      lastReportedLine: number;
+      lineCount: number;
+    }
+  | {
+      path: string;
+      reason: "changes-not-instrumented";
+      // Added code lines without a DA record despite instrumented neighbours.
+      lines: number[];
+    };
+
+// How far from an added line an instrumented line still counts as its
+// neighbour.
+const NEIGHBOUR_DISTANCE = 3;
+
+// Lines no coverage tool instruments once comments are stripped: blank lines,
+// preprocessor or shell-style comments and lone brackets or punctuation.
+const UNINSTRUMENTABLE_LINE = /^\s*(?:#|--|[{}()[\];,]*\s*$)/;
+
+// Code ending like this carries on to the next line.
+const CONTINUES_ON_NEXT_LINE = /(?:[,=+\-*/%&|^!~?<>.]|&&|\|\|)$/;
+
+// Code starting like this carries on from the previous line. A `*` followed
+// by an operand is a dereference, not a multiplication.
+const CONTINUES_PREVIOUS_LINE = /^(?:\?|\.(?!\.)|:|&&|\|\||[-+*/%]\s|[,)\]}])/;
+
+// Code before a `{` that makes it an object or composite literal rather than a
+// block.
+const OPENS_LITERAL = /(?:[=(,:?[]|\breturn)$/;
+
+export class ReportFreshness {
+  /**
+   * Flag changed files whose coverage was most likely produced from an older
+   * commit: the report has DA records past the end of the checked-out file, or
+   * the added code has no DA record although the lines around it do. Files are
+   * read from `workspace`; the second check still runs when one is missing.
+   */
+  static findStaleFiles(
+    analysis: CoverageAnalysis,
+    workspace: string = process.cwd(),
+  ): StaleFile[] {
+    return analysis.changedFiles.flatMap((file) => {
+      if (file.status === "deleted" || !file.coverage) return [];
+      const stale = this.checkFile(file, workspace);
+      return stale ? [stale] : [];
+    });
+  }
+
+  static describe(file: StaleFile): string {
+    return file.reason === "past-end-of-file"
+      ? `\`${file.path}\` has coverage for line ${file.lastReportedLine}, but the file has ${file.lineCount} lines; the report was probably generated from an older commit`
+      : `\`${file.path}\` has no coverage records on its added code (${file.lines.length === 1 ? "line" : "lines"} ${file.lines.join(", ")}) while the surrounding lines are instrumented; the report was probably generated before the change`;
+  }
+
+  private static checkFile(
+    file: FileChangeWithCoverage,
+    workspace: string,
+  ): StaleFile | undefined {
+    const lines = file.coverage?.lines ?? [];
+    if (lines.length === 0) return undefined;
+
+    const source = readSourceLines(path.join(workspace, file.path));
+    const lastReportedLine = lines.reduce(
+      (last, line) => Math.max(last, line.line),
+      0,
+    );
+    if (source && lastReportedLine > source.length) {
+      return {
+        path: file.path,
+        reason: "past-end-of-file",
+        lastReportedLine,
+        lineCount: source.length,
+      };
+    }
+
+    // Without the source there is no telling which added lines are code.
+    if (!source) return undefined;
+
+    // Lines excluded by LCOV_EXCL markers or the exclusion pragmas have no DA
+    // record by design, whether the generator or the exclusion-pragmas input
+    // (`file.coverage.excluded`) removed it.
+    const exclusions = findExclusions(source.join("\n"));
+    if (exclusions.file) return undefined;
+
+    const startsStatement = findStatementStarts(source);
+    const changedLines = new Set(file.changedLines ?? []);
+    const addedCode = [...changedLines].filter(
+      (line) => startsStatement[line - 1] && !exclusions.lines.has(line),
+    );
+    const instrumented = new Set(lines.map((line) => line.line));
+    if (
+      addedCode.length === 0 ||
+      addedCode.some((line) => instrumented.has(line))
+    ) {
+      return undefined;
+    }
+
+    // Walk away from the line, skipping the rest of the change, until an
+    // unchanged instrumented line turns up or the distance runs out.
+    const hasNeighbour = (line: number, step: number) => {
+      let neighbour = line;
+      for (let distance = 0; distance < NEIGHBOUR_DISTANCE; ) {
+        neighbour += step;
+        if (neighbour < 1) return false;
+        if (changedLines.has(neighbour)) continue;
+        if (instrumented.has(neighbour)) return true;
+        distance++;
+      }
+      return false;
+    };
+    const surrounded = addedCode.some(
+      (line) => hasNeighbour(line, -1) && hasNeighbour(line, 1),
+    );
+    return surrounded
+      ? {
+          path: file.path,
+          reason: "changes-not-instrumented",
+          lines: addedCode,
+        }
+      : undefined;
+  }
+}
+
+/**
+ * Whether each line starts a statement a coverage tool would give a DA record:
+ * it holds code outside comments, and it does not continue the line before it
+ * (inside brackets, an object literal or a list, or after a trailing
+ * operator). Strings are blanked out before brackets are counted.
+ */
+function findStatementStarts(sourceLines: string[]): boolean[] {
+  const open: Array<"(" | "[" | "block" | "literal"> = [];
+  let inBlockComment = false;
+  let previousCode = "";
+
+  return sourceLines.map((text) => {
+    const stripped = stripCommentsAndStrings(text, inBlockComment);
+    inBlockComment = stripped.inBlockComment;
+    const code = stripped.code.trim();
+    if (UNINSTRUMENTABLE_LINE.test(code)) {
+      trackBrackets(code, previousCode, open);
+      if (code !== "") previousCode = code;
+      return false;
+    }
+
+    const enclosing = open[open.length - 1];
+    const continuation =
+      (enclosing !== undefined && enclosing !== "block") ||
+      CONTINUES_ON_NEXT_LINE.test(previousCode) ||
+      CONTINUES_PREVIOUS_LINE.test(code) ||
+      // A list element: no statement ends in a comma.
+      code.endsWith(",");
+
+    trackBrackets(code, previousCode, open);
+    previousCode = code;
+    return !continuation;
+  });
+}
+
+function trackBrackets(
+  code: string,
+  previousCode: string,
+  open: Array<"(" | "[" | "block" | "literal">,
+): void {
+  for (let index = 0; index < code.length; index++) {
+    const char = code.charAt(index);
+    if (char === "(" || char === "[") {
+      open.push(char);
+    } else if (char === "{") {
+      const before = code.slice(0, index).trimEnd() || previousCode;
+      open.push(OPENS_LITERAL.test(before) ? "literal" : "block");
+    } else if (char === ")" || char === "]" || char === "}") {
+      open.pop();
+    }
+  }
+}
+
+// The code of a line with comments removed and string contents emptied,
+// carrying block comment state over from the previous line.
+function stripCommentsAndStrings(
+  text: string,
+  inBlockComment: boolean,
+): { code: string; inBlockComment: boolean } {
+  let code = "";
+  let quote: string | undefined;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text.charAt(index);
+    const pair = text.slice(index, index + 2);
+
+    if (inBlockComment) {
+      if (pair === "*/") {
+        inBlockComment = false;
+        index++;
+      }
+    } else if (quote) {
+      if (char === "\\") index++;
+      else if (char === quote) {
+        quote = undefined;
+        code += char;
+      }
+    } else if (pair === "/*") {
+      inBlockComment = true;
+      index++;
+    } else if (pair === "//") {
+      break;
+    } else {
+      if (char === '"' || char === "'" || char === "`") quote = char;
+      code += char;
+    }
+  }
+
+  return { code, inBlockComment };
+}
@@ -0,0 +1,110 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import { Changeset } from "./changeset";
+import { LcovParser } from "./lcov";
+import { SourceChecksums } from "./sourceChecksums";
+
+describe("SourceChecksums", () => {
+  let workspace: string;
+
+  // geninfo's md5_base64: unpadded base64 of the line without its newline.
+  const base64 = (text: string) =>
+    crypto.createHash("md5").update(text).digest("base64").replace(/=+$/, "");
+  const hex = (text: string) =>
+    crypto.createHash("md5").update(text).digest("hex");
+
+  const changesetOf = (
+    files: { path: string; status: "modified" | "deleted" }[],
+  ): Changeset => ({
+    baseCommit: "abc123",
+    headCommit: "def456",
+    targetBranch: "main",
+    files,
+    totalFiles: files.length,
+  });
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), "checksums-"));
+    fs.mkdirSync(path.join(workspace, "src"));
+    fs.writeFileSync(
+      path.join(workspace, "src/a.c"),
+      "int a() {\r\n  return 1;\r\n}\r\n",
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it("should accept base64 and hex checksums of the checked-out lines", () => {
+    const report = LcovParser.parse(
+      `SF:src/a.c\nDA:1,1,${base64("int a() {")}\nDA:2,1,${hex("  return 1;")}\nend_of_record`,
+    );
+
+    expect(
+      SourceChecksums.verify(
+        changesetOf([{ path: "src/a.c", status: "modified" }]),
+        report,
+        workspace,
+      ),
+    ).toEqual([]);
+  });
+
+  it("should report lines that changed or lie past the end of the file", () => {
+    const report = LcovParser.parse(
+      `SF:src/a.c\nDA:1,1,${base64("int a() {")}\nDA:2,1,${base64("  return 0;")}\nDA:40,1,${base64("}")}\nend_of_record`,
+    );
+
+    const mismatches = SourceChecksums.verify(
+      changesetOf([{ path: "src/a.c", status: "modified" }]),
+      report,
+      workspace,
+    );
+
+    expect(mismatches).toEqual([
+      { path: "src/a.c", lines: [2, 40], checkedLines: 3 },
+    ]);
+    expect(SourceChecksums.describe(mismatches[0]!)).toBe(
+      "src/a.c: 2 of 3 checksummed lines differ from the checked-out source (lines 2, 40)",
+    );
+  });
+
+  it("should not match the empty line a trailing newline leaves", () => {
+    const report = LcovParser.parse(
+      `SF:src/a.c\nDA:4,1,${base64("")}\nend_of_record`,
+    );
+
+    expect(
+      SourceChecksums.verify(
+        changesetOf([{ path: "src/a.c", status: "modified" }]),
+        report,
+        workspace,
+      ),
+    ).toEqual([{ path: "src/a.c", lines: [4], checkedLines: 1 }]);
+  });
+
+  it("should skip files without checksums, deleted files and missing files", () => {
+    const report = LcovParser.parse(
+      [
+        "SF:src/a.c\nDA:2,1\nend_of_record",
+        `SF:src/gone.c\nDA:1,1,${base64("x")}\nend_of_record`,
+        `SF:src/missing.c\nDA:1,1,${base64("x")}\nend_of_record`,
+      ].join("\n"),
+    );
+
+    expect(
+      SourceChecksums.verify(
+        changesetOf([
+          { path: "src/a.c", status: "modified" },
+          { path: "src/gone.c", status: "deleted" },
+          { path: "src/missing.c", status: "modified" },
+        ]),
+        report,
+        workspace,
+      ),
+    ).toEqual([]);
+  });
+});
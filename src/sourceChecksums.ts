@@ -0,0 +1,87 @@
+import * as crypto from "crypto";
+import * as path from "path";
+
+import { Changeset } from "./changeset";
+import { LcovReport } from "./lcov";
+import { readSourceLines } from "./sourceLines";
+
+export interface ChecksumMismatch {
+  path: string;
+  /** Lines whose recorded checksum differs from the checked-out source. */
+  lines: number[];
+  /** Lines of the file the report carried a checksum for. */
+  checkedLines: number;
+}
+
+// Mismatching line numbers spelled out per file before eliding the rest.
+const MAX_LISTED_LINES = 10;
+
+export class SourceChecksums {
+  /**
+   * Compare the `DA` checksums recorded for each changed file with the file as
+   * checked out in `workspace`, returning the files whose coverage was produced
+   * from different source. Files without checksums, deleted files and files
+   * missing from the workspace are skipped.
+   */
+  static verify(
+    changeset: Changeset,
+    lcovReport: LcovReport,
+    workspace: string = process.cwd(),
+  ): ChecksumMismatch[] {
+    const mismatches: ChecksumMismatch[] = [];
+
+    for (const file of changeset.files) {
+      if (file.status === "deleted") continue;
+
+      const checked = (lcovReport.files.get(file.path)?.lines ?? []).filter(
+        (line) => line.checksum !== undefined,
+      );
+      if (checked.length === 0) continue;
+
+      const source = readSourceLines(path.join(workspace, file.path));
+      if (!source) continue;
+
+      const lines = checked
+        .filter(
+          (line) =>
+            !checksumMatches(line.checksum ?? "", source[line.line - 1]),
+        )
+        .map((line) => line.line);
+      if (lines.length > 0) {
+        mismatches.push({
+          path: file.path,
+          lines,
+          checkedLines: checked.length,
+        });
+      }
+    }
+
+    return mismatches;
+  }
+
+  static describe(mismatch: ChecksumMismatch): string {
+    const listed = mismatch.lines.slice(0, MAX_LISTED_LINES).join(", ");
+    const more = mismatch.lines.length - MAX_LISTED_LINES;
+    return (
+      `${mismatch.path}: ${mismatch.lines.length} of ${mismatch.checkedLines} checksummed lines differ from the checked-out source ` +
+      `(${mismatch.lines.length === 1 ? "line" : "lines"} ${listed}${more > 0 ? `, +${more} more` : ""})`
+    );
+  }
+}
+
+/**
+ * geninfo records `md5_base64` of the line without its newline and without
+ * base64 padding; other generators write the digest in hex. A line past the
+ * end of the file never matches.
+ */
+function checksumMatches(checksum: string, text: string | undefined): boolean {
+  if (text === undefined) return false;
+
+  const digest = crypto.createHash("md5").update(text).digest();
+  if (/^[0-9a-f]{32}$/i.test(checksum)) {
+    return checksum.toLowerCase() === digest.toString("hex");
+  }
+  return (
+    checksum.replace(/=+$/, "") === digest.toString("base64").replace(/=+$/, "")
+  );
+}
@@ -0,0 +1,18 @@
+import * as fs from "fs";
+
+/**
+ * Read a checked-out source file as its lines, without the empty entry a
+ * trailing newline leaves, so the count matches the file's line numbers.
+ * Returns undefined when the file cannot be read.
+ */
+export function readSourceLines(filePath: string): string[] | undefined {
+  let content: string;
+  try {
+    content = fs.readFileSync(filePath, "utf8");
+  } catch {
+    return undefined;
+  }
+  const lines = content.split(/\r?\n/);
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
@@ -455,6 +455,81 @@ describe("generateTreemapData", () => {
     expect(fullFn?.coverage).toBe("full");
   });
 
+  it("should bound a function by its recorded end line", () => {
+    const mockAnalysis: CoverageAnalysis = {
+      changeset: {
+        baseCommit: "abc123",
+        headCommit: "def456",
+        targetBranch: "main",
+        files: [],
+        totalFiles: 1,
+      },
+      changedFiles: [
+        {
+          path: "src/spans.ts",
+          status: "modified",
+          coverage: {
+            path: "src/spans.ts",
+            // Without an end line the only function would extend to the end
+            // of the file and pick up the uncovered module-level lines 4..5.
+            functions: [{ name: "shortFn", line: 1, hit: 1, endLine: 3 }],
+            lines: [
+              { line: 1, hit: 1 },
+              { line: 2, hit: 1 },
+              { line: 3, hit: 1 },
+              { line: 4, hit: 0 },
+              { line: 5, hit: 0 },
+            ],
+            branches: [],
+            summary: {
+              functionsFound: 1,
+              functionsHit: 1,
+              linesFound: 5,
+              linesHit: 3,
+              branchesFound: 0,
+              branchesHit: 0,
+            },
+          },
+          analysis: {
+            totalLines: 5,
+            coveredLines: 3,
+            totalFunctions: 1,
+            coveredFunctions: 1,
+            totalBranches: 0,
+            coveredBranches: 0,
+            linesCoveragePercentage: 60,
+            functionsCoveragePercentage: 100,
+            branchesCoveragePercentage: 0,
+            overallCoveragePercentage: 66.67,
+          },
+        },
+      ],
+      summary: {
+        totalChangedFiles: 1,
+        filesWithCoverage: 1,
+        filesWithoutCoverage: 0,
+        overallCoverage: {
+          totalLines: 5,
+          coveredLines: 3,
+          totalFunctions: 1,
+          coveredFunctions: 1,
+          totalBranches: 0,
+          coveredBranches: 0,
+          linesCoveragePercentage: 60,
+          functionsCoveragePercentage: 100,
+          branchesCoveragePercentage: 0,
+          overallCoveragePercentage: 66.67,
+        },
+      },
+    };
+
+    const result = generateTreemapData(mockAnalysis);
+
+    const shortFn = result.children[0].children[0];
+    expect(shortFn.name).toBe("shortFn");
+    expect(shortFn.coverage).toBe("full");
+  });
+
   it.each([
     { percentage: 100, expected: "full" },
     { percentage: 0, expected: "none" },
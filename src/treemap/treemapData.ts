@@ -1,6 +1,7 @@
 import * as path from "path";
 import { CoverageAnalysis, FileChangeWithCoverage } from "../coverageAnalyzer";
 import { FunctionCoverage, FileCoverage, LineCoverage } from "../lcov";
+import { getFunctionLineRange } from "../functionSpans";
 import {
   CoverageState,
   TreemapData,
@@ -106,31 +107,6 @@ function classifyCoverage(covered: number, total: number): CoverageState {
   return "partial";
 }
 
-/**
- * Resolve the half-open line span `[start, end)` attributed to a function: from
- * its declaration line up to (but excluding) the next function's declaration.
- * The last function in a file has no upper bound.
- */
-function getFunctionLineRange(
-  func: FunctionCoverage,
-  fileCoverage: FileCoverage,
-): { startLine: number; endLine: number } {
-  const functions = [...fileCoverage.functions].sort((a, b) => a.line - b.line);
-  const funcIndex = functions.findIndex(
-    (f) => f.name === func.name && f.line === func.line,
-  );
-
-  if (funcIndex === -1) {
-    return { startLine: func.line, endLine: func.line + 1 };
-  }
-
-  const nextFunc = functions[funcIndex + 1];
-  return {
-    startLine: func.line,
-    endLine: nextFunc ? nextFunc.line : Number.POSITIVE_INFINITY,
-  };
-}
-
 /**
  * Collect the coverable (instrumented) lines that fall within a function's
  * span. Only lines the report actually tracks are coverable: non-executable